@@ -0,0 +1,9 @@
+// ABOUTME: Jest configuration for the unit and integration tests
+// ABOUTME: Tests sit next to the modules they cover as *.test.ts and are compiled by ts-jest with the project tsconfig
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts']
+};
@@ -0,0 +1,45 @@
+// ABOUTME: Tests for the CLI flag parser
+
+import { parseArgs, toCamelCase, FlagSpec } from './args';
+
+const SPECS: Record<string, FlagSpec> = {
+  'port': { type: 'number' },
+  'json': { type: 'boolean' },
+  'format': { type: 'string', alias: 'f' },
+  'arg': { type: 'string', multiple: true },
+  'sample-rate': { type: 'number' }
+};
+
+describe('parseArgs', () => {
+  it('parses spaced, inline, aliased and repeated flags into camelCase keys', () => {
+    expect(parseArgs(
+      ['in.wav', '--port', '80', '--sample-rate=16000', '-f', 'srt', '--arg', 'a', '--arg=b', '--json'],
+      SPECS
+    )).toEqual({
+      flags: { port: 80, sampleRate: 16000, format: 'srt', arg: ['a', 'b'], json: true },
+      positionals: ['in.wav']
+    });
+  });
+  
+  it('reads boolean values and --no- prefixes', () => {
+    expect(parseArgs(['--json=false'], SPECS).flags.json).toBe(false);
+    expect(parseArgs(['--json', '--no-json'], SPECS).flags.json).toBe(false);
+  });
+  
+  it('treats - and everything after -- as positionals', () => {
+    expect(parseArgs(['-', '--', '--port', 'x'], SPECS).positionals).toEqual(['-', '--port', 'x']);
+  });
+  
+  it('rejects unknown flags, missing values and non-numbers', () => {
+    expect(() => parseArgs(['--nope=1'], SPECS)).toThrow('Unknown option --nope');
+    expect(() => parseArgs(['--no-port'], SPECS)).toThrow('Unknown option --no-port');
+    expect(() => parseArgs(['--format'], SPECS)).toThrow('--format requires a value');
+    expect(() => parseArgs(['--port', 'eighty'], SPECS)).toThrow('--port expects a number, got "eighty"');
+  });
+});
+
+describe('toCamelCase', () => {
+  it('converts kebab-case flag names', () => {
+    expect(toCamelCase('max-connections-per-user')).toBe('maxConnectionsPerUser');
+  });
+});
@@ -0,0 +1,89 @@
+// ABOUTME: Minimal command-line flag parser for the CLI
+// ABOUTME: Supports --flag value, --flag=value, boolean and repeatable flags, and positional arguments
+
+export type FlagType = 'string' | 'number' | 'boolean';
+
+export interface FlagSpec {
+  type: FlagType;
+  multiple?: boolean; // May be given more than once; collected into an array
+  alias?: string; // Single-letter short form
+}
+
+export interface ParsedArgs {
+  flags: Record<string, any>;
+  positionals: string[];
+}
+
+// Flag names are kebab-case on the command line and camelCase in the result, matching config file keys
+export function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function parseValue(name: string, spec: FlagSpec, raw: string): any {
+  if (spec.type !== 'number') return raw;
+  
+  const value = Number(raw);
+  if (raw.trim() === '' || Number.isNaN(value)) {
+    throw new Error(`--${name} expects a number, got "${raw}"`);
+  }
+  return value;
+}
+
+export function parseArgs(argv: string[], specs: Record<string, FlagSpec>): ParsedArgs {
+  const flags: Record<string, any> = {};
+  const positionals: string[] = [];
+  const aliases = new Map(
+    Object.entries(specs)
+      .filter(([, spec]) => spec.alias)
+      .map(([name, spec]) => [spec.alias as string, name])
+  );
+  
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    
+    // Everything after a bare -- is positional; a lone - means stdin
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === '-' || !arg.startsWith('-')) {
+      positionals.push(arg);
+      continue;
+    }
+    
+    const match = arg.match(/^--?([^=]+)(?:=(.*))?$/) as RegExpMatchArray;
+    let name = arg.startsWith('--') ? match[1] : aliases.get(match[1]) || match[1];
+    let inline: string | undefined = match[2];
+    
+    let spec = specs[name];
+    // --no-<flag> turns a boolean off
+    if (!spec && name.startsWith('no-') && specs[name.slice(3)]?.type === 'boolean') {
+      name = name.slice(3);
+      spec = specs[name];
+      inline = 'false';
+    }
+    if (!spec) {
+      throw new Error(`Unknown option ${arg.split('=')[0]}`);
+    }
+    
+    let value: any;
+    if (spec.type === 'boolean') {
+      value = inline === undefined ? true : !/^(false|0|no)$/i.test(inline);
+    } else {
+      const raw = inline ?? argv[++i];
+      if (raw === undefined) {
+        throw new Error(`--${name} requires a value`);
+      }
+      value = parseValue(name, spec, raw);
+    }
+    
+    const key = toCamelCase(name);
+    if (spec.multiple) {
+      flags[key] = [...(flags[key] || []), value];
+    } else {
+      flags[key] = value;
+    }
+  }
+  
+  return { flags, positionals };
+}
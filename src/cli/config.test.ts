@@ -0,0 +1,69 @@
+// ABOUTME: Tests for CLI config loading and provider construction
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createProvider, loadConfig } from './config';
+import { DeepgramProvider } from '../providers/DeepgramProvider';
+import { HttpBatchTranscriptionProvider } from '../providers/HttpBatchTranscriptionProvider';
+import { MockTranscriptionProvider } from '../providers/MockTranscriptionProvider';
+import { ProcessTranscriptionProvider } from '../providers/ProcessTranscriptionProvider';
+
+describe('loadConfig', () => {
+  it('merges the config file under the flags', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-config-'));
+    const file = path.join(directory, 'config.json');
+    await fs.writeFile(file, JSON.stringify({ port: 9000, provider: 'deepgram', vad: true }));
+    
+    try {
+      expect(await loadConfig({ config: file, port: 9100 })).toEqual({ port: 9100, provider: 'deepgram', vad: true });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+  
+  it('names the file it could not read', async () => {
+    await expect(loadConfig({ config: '/nonexistent/config.json' }))
+      .rejects.toThrow('Failed to read config file /nonexistent/config.json');
+  });
+});
+
+describe('createProvider', () => {
+  const originalKey = process.env.DEEPGRAM_API_KEY;
+  
+  afterEach(() => {
+    if (originalKey === undefined) {
+      delete process.env.DEEPGRAM_API_KEY;
+    } else {
+      process.env.DEEPGRAM_API_KEY = originalKey;
+    }
+  });
+  
+  it('builds each provider type', () => {
+    process.env.DEEPGRAM_API_KEY = 'from-env';
+    
+    expect(createProvider({})).toBeInstanceOf(MockTranscriptionProvider);
+    expect(createProvider({ provider: 'deepgram' })).toBeInstanceOf(DeepgramProvider);
+    expect(createProvider({ provider: 'http', baseUrl: 'http://localhost' })).toBeInstanceOf(HttpBatchTranscriptionProvider);
+    expect(createProvider({ provider: { type: 'process', command: 'cat' } })).toBeInstanceOf(ProcessTranscriptionProvider);
+  });
+  
+  it('lets flags override the config file\'s provider options', async () => {
+    const provider = createProvider({ provider: { type: 'mock', text: 'from file' }, text: 'from flag' }) as MockTranscriptionProvider;
+    const stream = await provider.createStream({ sessionId: 's' });
+    const result = new Promise(resolve => stream.once('result', resolve));
+    stream.write(Buffer.alloc(2));
+    
+    expect(await result).toMatchObject({ transcript: 'from flag' });
+    await stream.close();
+  });
+  
+  it('explains missing settings and unknown types', () => {
+    delete process.env.DEEPGRAM_API_KEY;
+    
+    expect(() => createProvider({ provider: 'deepgram' })).toThrow('needs --api-key or DEEPGRAM_API_KEY');
+    expect(() => createProvider({ provider: 'http' })).toThrow('needs --base-url');
+    expect(() => createProvider({ provider: 'process' })).toThrow('needs --command');
+    expect(() => createProvider({ provider: 'carrier-pigeon' as any })).toThrow('Unknown provider "carrier-pigeon"');
+  });
+});
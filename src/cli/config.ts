@@ -0,0 +1,136 @@
+// ABOUTME: Configuration for the CLI: JSON config files, flag overrides and provider construction
+// ABOUTME: Config file keys use the camelCase names of the command-line flags
+
+import { promises as fs } from 'fs';
+import { StreamingTranscriptionProvider, TranscriptionProvider } from '../common/types';
+import { DeepgramProvider } from '../providers/DeepgramProvider';
+import { HttpBatchTranscriptionProvider } from '../providers/HttpBatchTranscriptionProvider';
+import { MockTranscriptionProvider } from '../providers/MockTranscriptionProvider';
+import { ProcessTranscriptionProvider } from '../providers/ProcessTranscriptionProvider';
+import { FlagSpec } from './args';
+
+export type ProviderType = 'mock' | 'deepgram' | 'http' | 'process';
+
+// Any further keys are passed to the provider's constructor unchanged
+export interface ProviderConfig {
+  type: ProviderType;
+  [option: string]: any;
+}
+
+export interface CliConfig {
+  // serve
+  port?: number; // Default 8080
+  host?: string;
+  path?: string; // WebSocket path; any path is accepted when unset
+  token?: string[]; // Accepted auth tokens; connections are open to anyone when empty
+  vad?: boolean;
+  recordingDir?: string; // Save each recording's audio here
+  maxConnectionsPerUser?: number;
+  resumeGracePeriod?: number; // ms a disconnected session can be resumed; sessions end on disconnect when unset
+  // serve and export
+  transcripts?: string; // JSONL transcript history file
+  // transcribe
+  url?: string; // Server to stream to; without it the file is transcribed by an in-process server
+  authToken?: string;
+  // serve and transcribe
+  provider?: ProviderType | ProviderConfig;
+  apiKey?: string;
+  model?: string;
+  language?: string;
+  baseUrl?: string;
+  command?: string;
+  arg?: string[];
+  text?: string;
+  json?: boolean; // Machine-readable output
+}
+
+// Flags shared by every command that builds a provider
+export const PROVIDER_FLAGS: Record<string, FlagSpec> = {
+  'provider': { type: 'string', alias: 'p' },
+  'api-key': { type: 'string' },
+  'model': { type: 'string' },
+  'language': { type: 'string' },
+  'base-url': { type: 'string' },
+  'command': { type: 'string' },
+  'arg': { type: 'string', multiple: true },
+  'text': { type: 'string' }
+};
+
+export const CONFIG_FLAG: Record<string, FlagSpec> = {
+  'config': { type: 'string', alias: 'c' }
+};
+
+// Flags win over the config file
+export async function loadConfig(flags: Record<string, any>): Promise<CliConfig> {
+  let fileConfig: CliConfig = {};
+  
+  if (flags.config) {
+    try {
+      fileConfig = JSON.parse(await fs.readFile(flags.config, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read config file ${flags.config}: ${(error as Error).message}`);
+    }
+  }
+  
+  const { config, ...overrides } = flags;
+  return { ...fileConfig, ...overrides };
+}
+
+export function createProvider(config: CliConfig): TranscriptionProvider | StreamingTranscriptionProvider {
+  const fromConfig = typeof config.provider === 'object' ? config.provider : { type: config.provider };
+  const { type = 'mock', ...options } = fromConfig as ProviderConfig;
+  
+  // Provider flags override the same options in the config file's provider object
+  const option = (key: keyof CliConfig) => (config[key] === undefined ? {} : { [key]: config[key] });
+  
+  switch (type) {
+    case 'mock':
+      return new MockTranscriptionProvider({
+        ...(!options.script && !options.replayFile && { text: 'This is a mock transcript.' }),
+        ...options,
+        ...option('text')
+      });
+      
+    case 'deepgram': {
+      const apiKey = config.apiKey ?? options.apiKey ?? process.env.DEEPGRAM_API_KEY;
+      if (!apiKey) {
+        throw new Error('The deepgram provider needs --api-key or DEEPGRAM_API_KEY');
+      }
+      return new DeepgramProvider({
+        ...options,
+        ...option('model'),
+        ...option('language'),
+        apiKey
+      });
+    }
+      
+    case 'http': {
+      const baseUrl = config.baseUrl ?? options.baseUrl;
+      if (!baseUrl) {
+        throw new Error('The http provider needs --base-url');
+      }
+      return new HttpBatchTranscriptionProvider({
+        ...options,
+        ...option('apiKey'),
+        ...option('model'),
+        ...option('language'),
+        baseUrl
+      });
+    }
+      
+    case 'process': {
+      const command = config.command ?? options.command;
+      if (!command) {
+        throw new Error('The process provider needs --command');
+      }
+      return new ProcessTranscriptionProvider({
+        ...options,
+        ...(config.arg && { args: config.arg }),
+        command
+      });
+    }
+      
+    default:
+      throw new Error(`Unknown provider "${type}"; expected mock, deepgram, http or process`);
+  }
+}
@@ -0,0 +1,58 @@
+// ABOUTME: `export` command: writes a session's stored transcript from a JSONL history file
+// ABOUTME: Supports the caption and text exporters, or the raw stored results for scripting
+
+import { TranscriptExportFormat, exportTranscript } from '../common/transcriptExport';
+import { JsonlTranscriptStore } from '../server/transcripts';
+import { FlagSpec, parseArgs } from './args';
+import { CONFIG_FLAG, loadConfig } from './config';
+import { writeOutput } from './output';
+
+export const EXPORT_USAGE = `Usage: audio-stream-transcribe export <session> [options]
+
+Options:
+  -c, --config <file>       JSON config file; its transcripts setting is used by default
+  --transcripts <file>      JSONL transcript history written by serve --transcripts
+  -f, --format <format>     srt, vtt, json or txt (default txt)
+  --timestamps              Prefix txt paragraphs with their start time
+  -o, --output <file>       Write to a file instead of stdout
+  --json                    Print the stored results as a JSON array
+`;
+
+const EXPORT_FLAGS: Record<string, FlagSpec> = {
+  ...CONFIG_FLAG,
+  'transcripts': { type: 'string' },
+  'format': { type: 'string', alias: 'f' },
+  'timestamps': { type: 'boolean' },
+  'output': { type: 'string', alias: 'o' },
+  'json': { type: 'boolean' }
+};
+
+const EXPORT_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt', 'json', 'txt'];
+
+export async function exportSession(argv: string[]): Promise<void> {
+  const { flags, positionals } = parseArgs(argv, EXPORT_FLAGS);
+  const config = await loadConfig(flags);
+  const sessionId = positionals[0];
+  const format: TranscriptExportFormat = flags.format || 'txt';
+  
+  if (!sessionId) {
+    throw new Error('Missing session ID');
+  }
+  if (!config.transcripts) {
+    throw new Error('Missing --transcripts <file>');
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`--format expects one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+  
+  const store = new JsonlTranscriptStore({ file: config.transcripts });
+  const results = await store.getSession(sessionId);
+  if (results.length === 0) {
+    throw new Error(`No transcripts stored for session ${sessionId}`);
+  }
+  
+  const text = flags.json
+    ? JSON.stringify(results, null, 2)
+    : exportTranscript(results, format, { timestamps: flags.timestamps });
+  await writeOutput(text, flags.output);
+}
@@ -0,0 +1,97 @@
+// ABOUTME: Tests for the CLI entry point, running the transcribe and export commands in-process
+// ABOUTME: transcribe uses the mock provider behind a loopback server, so no network or API keys are needed
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from './index';
+import { createWavHeader } from '../common/wav';
+
+describe('main', () => {
+  let directory: string;
+  let stdout: string;
+  let stderr: string;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+    stdout = '';
+    stderr = '';
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk: any) => {
+      stdout += chunk;
+      return true;
+    });
+    jest.spyOn(process.stderr, 'write').mockImplementation((chunk: any) => {
+      stderr += chunk;
+      return true;
+    });
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+  
+  async function wavFile(seconds: number): Promise<string> {
+    const file = path.join(directory, 'speech.wav');
+    const audio = Buffer.alloc(seconds * 32000);
+    await fs.writeFile(file, Buffer.concat([Buffer.from(createWavHeader(audio.length, { sampleRate: 16000 })), audio]));
+    return file;
+  }
+  
+  it('prints usage and rejects unknown commands', async () => {
+    expect(await main([])).toBe(1);
+    expect(stdout).toContain('Usage: audio-stream-transcribe <command>');
+    
+    expect(await main(['transcribe', '--help'])).toBe(0);
+    expect(stdout).toContain('Usage: audio-stream-transcribe transcribe');
+    
+    expect(await main(['fly'])).toBe(1);
+    expect(stderr).toContain('Unknown command "fly"');
+  });
+  
+  it('reports command errors on stderr', async () => {
+    expect(await main(['transcribe'])).toBe(1);
+    expect(stderr).toBe('Error: Missing input file; use - to read from stdin\n');
+  });
+  
+  it('transcribes a file through an in-process server', async () => {
+    const file = await wavFile(0.2);
+    
+    expect(await main(['transcribe', file, '--pace', 'fast', '--text', 'hi there'])).toBe(0);
+    expect(stdout).toBe('hi there\nhi there\n');
+  });
+  
+  it('prints JSON lines with --json', async () => {
+    const file = await wavFile(0.1);
+    
+    expect(await main(['transcribe', file, '--pace', 'fast', '--text', 'hi', '--json'])).toBe(0);
+    const lines = stdout.trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.event)).toEqual(['transcription', 'done']);
+    expect(lines[1]).toMatchObject({ transcript: 'hi', bytesSent: 3200, stopped: false });
+  });
+  
+  it('keeps an export out of the JSON lines on stdout', async () => {
+    const file = await wavFile(0.1);
+    
+    expect(await main(['transcribe', file, '--pace', 'fast', '--text', 'hi', '--json', '--export', 'txt'])).toBe(0);
+    expect(stdout.trim().split('\n').map(line => JSON.parse(line).event)).toEqual(['transcription', 'done']);
+    expect(stderr).toBe('hi\n');
+  });
+  
+  it('exports a stored session', async () => {
+    const history = path.join(directory, 'history.jsonl');
+    await fs.writeFile(history, [
+      { transcript: 'First.', sessionId: 's1', storedAt: 1, start: 0, end: 1.5 },
+      { transcript: 'Other session.', sessionId: 's2', storedAt: 2, start: 0, end: 1 },
+      { transcript: 'Second.', sessionId: 's1', storedAt: 3, start: 2, end: 3 }
+    ].map(line => JSON.stringify(line)).join('\n') + '\n');
+    
+    expect(await main(['export', 's1', '--transcripts', history, '-f', 'srt'])).toBe(0);
+    expect(stdout).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nFirst.\n\n2\n00:00:02,000 --> 00:00:03,000\nSecond.\n'
+    );
+    
+    expect(await main(['export', 'missing', '--transcripts', history])).toBe(1);
+    expect(stderr).toContain('No transcripts stored for session missing');
+  });
+});
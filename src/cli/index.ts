@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+// ABOUTME: Command-line entry point: serve, transcribe and export subcommands
+// ABOUTME: Library logging is sent to stderr so stdout only carries results
+
+import { serve, SERVE_USAGE } from './serve';
+import { transcribe, TRANSCRIBE_USAGE } from './transcribe';
+import { exportSession, EXPORT_USAGE } from './export';
+
+const USAGE = `Usage: audio-stream-transcribe <command> [options]
+
+Commands:
+  serve                 Start a WebSocket transcription server
+  transcribe <file>     Transcribe an audio file or stdin through a server or provider
+  export <session>      Write a stored session transcript
+
+Run audio-stream-transcribe <command> --help for the command's options.
+`;
+
+const COMMANDS: Record<string, { run: (argv: string[]) => Promise<void>; usage: string }> = {
+  serve: { run: serve, usage: SERVE_USAGE },
+  transcribe: { run: transcribe, usage: TRANSCRIBE_USAGE },
+  export: { run: exportSession, usage: EXPORT_USAGE }
+};
+
+export async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  
+  if (!name || name === '--help' || name === '-h' || name === 'help') {
+    process.stdout.write(USAGE);
+    return name ? 0 : 1;
+  }
+  
+  const command = COMMANDS[name];
+  if (!command) {
+    process.stderr.write(`Unknown command "${name}"\n\n${USAGE}`);
+    return 1;
+  }
+  
+  if (rest.includes('--help') || rest.includes('-h')) {
+    process.stdout.write(command.usage);
+    return 0;
+  }
+  
+  try {
+    await command.run(rest);
+    return 0;
+  } catch (error) {
+    process.stderr.write(`Error: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  console.log = console.error;
+  // Output piped into e.g. `head` may be cut off early
+  process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'EPIPE') process.exit(0);
+    throw error;
+  });
+  // serve keeps the process alive until it is interrupted
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,32 @@
+// ABOUTME: Output helpers shared by the CLI commands
+// ABOUTME: Results go to stdout as text or JSON lines; diagnostics go to stderr
+
+import { promises as fs } from 'fs';
+import { TranscriptionResult } from '../common/types';
+
+export function printJson(value: any): void {
+  process.stdout.write(JSON.stringify(value) + '\n');
+}
+
+// 75.2 -> '01:15.2'
+function formatOffset(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export function formatResult(result: TranscriptionResult): string {
+  const time = result.start !== undefined ? `[${formatOffset(result.start)}] ` : '';
+  const speaker = result.speaker === undefined
+    ? ''
+    : typeof result.speaker === 'number' ? `Speaker ${result.speaker}: ` : `${result.speaker}: `;
+  return `${time}${speaker}${result.transcript}`;
+}
+
+// Writes to a file, or to the stream (stdout by default) when no file is given
+export async function writeOutput(text: string, file?: string, stream: NodeJS.WriteStream = process.stdout): Promise<void> {
+  if (file) {
+    await fs.writeFile(file, text);
+  } else {
+    stream.write(text.endsWith('\n') ? text : `${text}\n`);
+  }
+}
@@ -0,0 +1,57 @@
+// ABOUTME: Tests for the serve command's WebSocket listener: token checks and where session and user IDs come from
+// ABOUTME: Runs the mock provider on a loopback port
+
+import WebSocket from 'ws';
+import { createAudioServer, listen, RunningServer } from './serve';
+import { CliConfig } from './config';
+
+describe('listen', () => {
+  let running: RunningServer;
+  
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+  
+  afterEach(async () => {
+    await running?.close();
+    jest.restoreAllMocks();
+  });
+  
+  async function start(config: Partial<CliConfig> = {}): Promise<RunningServer> {
+    const full: CliConfig = { host: '127.0.0.1', port: 0, ...config };
+    running = await listen(createAudioServer(full), full);
+    return running;
+  }
+  
+  // Resolves with the IDs the server gave the connection
+  async function connect(query: string): Promise<{ sessionId: string; userId?: string }> {
+    const connected = new Promise<{ sessionId: string; userId?: string }>(resolve =>
+      running.server.once('connection', resolve)
+    );
+    const ws = new WebSocket(`ws://127.0.0.1:${running.port}/?${query}`);
+    ws.on('error', () => undefined);
+    const ids = await connected;
+    ws.terminate();
+    return ids;
+  }
+  
+  it('issues its own session IDs and ignores user IDs from unauthenticated clients', async () => {
+    await start();
+    
+    const first = await connect('sessionId=chosen&userId=alice');
+    const second = await connect('sessionId=chosen&userId=alice');
+    
+    expect(first.sessionId).not.toBe('chosen');
+    expect(second.sessionId).not.toBe(first.sessionId);
+    expect(first.userId).toBeUndefined();
+  });
+  
+  it('takes the user ID from clients that presented a token', async () => {
+    await start({ token: ['secret'] });
+    
+    const ids = await connect('token=secret&userId=alice&sessionId=chosen');
+    
+    expect(ids).toMatchObject({ userId: 'alice' });
+    expect(ids.sessionId).not.toBe('chosen');
+  });
+});
@@ -0,0 +1,201 @@
+// ABOUTME: `serve` command: runs a WebSocket transcription server from flags or a config file
+// ABOUTME: Handles token auth, issues session IDs itself and logs server events
+
+import { randomUUID } from 'crypto';
+import { IncomingMessage } from 'http';
+import WebSocket from 'ws';
+import { AudioStreamServer } from '../server/AudioStreamServer';
+import { FileSystemRecordingStorage } from '../server/recording';
+import { JsonlTranscriptStore } from '../server/transcripts';
+import { FlagSpec, parseArgs } from './args';
+import { CliConfig, CONFIG_FLAG, createProvider, loadConfig, PROVIDER_FLAGS } from './config';
+import { formatResult, printJson } from './output';
+
+export const SERVE_USAGE = `Usage: audio-stream-transcribe serve [options]
+
+Options:
+  -c, --config <file>       JSON config file; flags override its values
+  --port <port>             Port to listen on (default 8080)
+  --host <host>             Interface to bind (default all)
+  --path <path>             Only accept WebSocket connections on this path
+  --token <token>           Require this token (?token= or Authorization: Bearer); repeatable.
+                            Authenticated clients may name their user with ?userId=
+  -p, --provider <name>     mock, deepgram, http or process (default mock)
+  --api-key <key>           Provider API key (deepgram also reads DEEPGRAM_API_KEY)
+  --model <model>           Provider model
+  --language <language>     Provider language
+  --base-url <url>          Base URL for the http provider
+  --command <command>       Program for the process provider
+  --arg <arg>               Argument for the process provider; repeatable
+  --text <text>             Transcript returned by the mock provider
+  --vad                     Gate silence with voice activity detection
+  --recording-dir <dir>     Save each recording's audio to this directory
+  --transcripts <file>      Keep transcript history in this JSONL file
+  --max-connections-per-user <n>
+  --resume-grace-period <ms>
+                            Keep disconnected sessions this long so clients can resume them
+  --json                    Log events as JSON lines
+`;
+
+const SERVE_FLAGS: Record<string, FlagSpec> = {
+  ...CONFIG_FLAG,
+  ...PROVIDER_FLAGS,
+  'port': { type: 'number' },
+  'host': { type: 'string' },
+  'path': { type: 'string' },
+  'token': { type: 'string', multiple: true },
+  'vad': { type: 'boolean' },
+  'recording-dir': { type: 'string' },
+  'transcripts': { type: 'string' },
+  'max-connections-per-user': { type: 'number' },
+  'resume-grace-period': { type: 'number' },
+  'json': { type: 'boolean' }
+};
+
+export interface RunningServer {
+  server: AudioStreamServer;
+  wss: WebSocket.Server;
+  port: number;
+  close(): Promise<void>;
+}
+
+export function createAudioServer(config: CliConfig): AudioStreamServer {
+  return new AudioStreamServer({
+    transcriptionProvider: createProvider(config),
+    maxConnectionsPerUser: config.maxConnectionsPerUser,
+    vad: config.vad,
+    recording: config.recordingDir
+      ? { storage: new FileSystemRecordingStorage({ directory: config.recordingDir }) }
+      : undefined,
+    transcriptStore: config.transcripts ? new JsonlTranscriptStore({ file: config.transcripts }) : undefined,
+    sessionResume: config.resumeGracePeriod ? { gracePeriodMs: config.resumeGracePeriod } : undefined
+  });
+}
+
+function requestToken(request: IncomingMessage, url: URL): string | null {
+  const header = request.headers.authorization;
+  if (header && /^Bearer /i.test(header)) {
+    return header.slice(7).trim();
+  }
+  return url.searchParams.get('token');
+}
+
+// Starts listening; resolves once the port is bound
+export function listen(server: AudioStreamServer, config: CliConfig): Promise<RunningServer> {
+  return new Promise((resolve, reject) => {
+    const tokens = config.token || [];
+    const requestUrl = (request: IncomingMessage) =>
+      new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+    
+    // Unauthenticated clients are turned away during the handshake with a 401
+    const wss = new WebSocket.Server({
+      port: config.port ?? 8080,
+      host: config.host,
+      path: config.path,
+      verifyClient: tokens.length > 0
+        ? ({ req }: { req: IncomingMessage }) => tokens.includes(requestToken(req, requestUrl(req)) || '')
+        : undefined
+    });
+    
+    wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
+      const url = requestUrl(request);
+      
+      // A client-chosen session ID could take over another client's waiting session, so every connection
+      // gets a fresh one and resuming goes through the server's resume tokens.
+      // A user ID is only taken from clients that presented a token.
+      server.handleConnection({
+        websocket: ws,
+        sessionId: randomUUID(),
+        userId: tokens.length > 0 ? url.searchParams.get('userId') || undefined : undefined,
+        metadata: {
+          clientIp: request.socket.remoteAddress,
+          userAgent: request.headers['user-agent']
+        }
+      }).catch(error => {
+        console.error('Failed to handle connection:', error);
+        ws.close(1011, 'Internal error');
+      });
+    });
+    
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      wss.off('error', reject);
+      const address = wss.address();
+      resolve({
+        server,
+        wss,
+        port: address && typeof address === 'object' ? address.port : config.port ?? 8080,
+        close: async () => {
+          await server.cleanup();
+          await new Promise<void>(done => wss.close(() => done()));
+        }
+      });
+    });
+  });
+}
+
+function logEvents(server: AudioStreamServer, json: boolean): void {
+  const log = (event: string, data: Record<string, any>, text: string) => {
+    if (json) {
+      printJson({ event, ...data, timestamp: Date.now() });
+    } else {
+      process.stdout.write(`${text}\n`);
+    }
+  };
+  
+  server.on('connection', ({ sessionId, userId }) => {
+    log('connection', { sessionId, userId }, `[${sessionId}] connected${userId ? ` (user ${userId})` : ''}`);
+  });
+  
+  server.on('disconnection', ({ sessionId, userId, reason, resumable }) => {
+    log('disconnection', { sessionId, userId, reason, resumable },
+      `[${sessionId}] disconnected${reason ? `: ${reason}` : ''}${resumable ? ' (resumable)' : ''}`);
+  });
+  
+  server.on('session-resumed', ({ sessionId, userId, missedTranscripts }) => {
+    log('session-resumed', { sessionId, userId, missedTranscripts },
+      `[${sessionId}] resumed, resent ${missedTranscripts} missed results`);
+  });
+  
+  server.on('session-expired', ({ sessionId, userId }) => {
+    log('session-expired', { sessionId, userId }, `[${sessionId}] not resumed in time, session ended`);
+  });
+  
+  server.on('transcription', (result) => {
+    // Interim results are only interesting to scripts
+    if (result.isFinal === false && !json) return;
+    log('transcription', result, `[${result.sessionId}] ${formatResult(result)}`);
+  });
+  
+  server.on('recording-saved', (recording) => {
+    log('recording-saved', recording, `[${recording.sessionId}] saved recording to ${recording.location}`);
+  });
+  
+  server.on('error', ({ sessionId, error }) => {
+    log('error', { sessionId, message: error.message }, `[${sessionId}] error: ${error.message}`);
+  });
+}
+
+export async function serve(argv: string[]): Promise<void> {
+  const { flags } = parseArgs(argv, SERVE_FLAGS);
+  const config = await loadConfig(flags);
+  
+  const server = createAudioServer(config);
+  logEvents(server, !!config.json);
+  const running = await listen(server, config);
+  
+  const address = `ws://${config.host || 'localhost'}:${running.port}${config.path || '/'}`;
+  if (config.json) {
+    printJson({ event: 'listening', url: address, timestamp: Date.now() });
+  } else {
+    process.stdout.write(`Listening on ${address}\n`);
+  }
+  
+  const shutdown = () => {
+    running.close()
+      .catch(error => console.error('Error during shutdown:', error))
+      .finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
@@ -0,0 +1,168 @@
+// ABOUTME: `transcribe` command: streams a file or stdin to a server, or straight to a provider, and prints results live
+// ABOUTME: Without --url the provider runs behind an in-process server on a loopback port, so behavior matches `serve`
+
+import { AudioFormat, TranscriptionResult } from '../common/types';
+import { exportTranscript, TranscriptExportFormat } from '../common/transcriptExport';
+import { NodeAudioStreamClient, StreamOptions, StreamPace, StreamResult } from '../node/NodeAudioStreamClient';
+import { FlagSpec, parseArgs } from './args';
+import { CONFIG_FLAG, loadConfig, PROVIDER_FLAGS } from './config';
+import { formatResult, printJson, writeOutput } from './output';
+import { createAudioServer, listen, RunningServer } from './serve';
+
+export const TRANSCRIBE_USAGE = `Usage: audio-stream-transcribe transcribe <file | -> [options]
+
+Streams an audio file, or stdin when the file is -, and prints final results as they arrive.
+
+Options:
+  -c, --config <file>       JSON config file; flags override its values
+  --url <url>               Server to stream to, e.g. ws://localhost:8080
+  --auth-token <token>      Token sent to the server
+  -p, --provider <name>     Without --url: mock, deepgram, http or process (default mock)
+  --api-key, --model, --language, --base-url, --command, --arg, --text
+                            Provider settings, as for serve
+  --pace <pace>             realtime (default), fast, or a speed multiplier such as 4
+  --format <mime>           Audio format, e.g. audio/webm; read from WAV headers and file extensions otherwise
+  --sample-rate <hz>        Sample rate of raw PCM
+  --channels <n>            Channels of raw PCM
+  --bitrate <bps>           Bitrate used to pace compressed audio
+  --interim                 Also show interim results
+  --export <format>         After streaming, write the transcript as srt, vtt, json or txt
+  -o, --output <file>       File for --export (default stdout, or stderr with --json)
+  --json                    Print events as JSON lines
+`;
+
+const TRANSCRIBE_FLAGS: Record<string, FlagSpec> = {
+  ...CONFIG_FLAG,
+  ...PROVIDER_FLAGS,
+  'url': { type: 'string', alias: 'u' },
+  'auth-token': { type: 'string' },
+  'pace': { type: 'string' },
+  'format': { type: 'string', alias: 'f' },
+  'sample-rate': { type: 'number' },
+  'channels': { type: 'number' },
+  'bitrate': { type: 'number' },
+  'interim': { type: 'boolean' },
+  'export': { type: 'string' },
+  'output': { type: 'string', alias: 'o' },
+  'json': { type: 'boolean' }
+};
+
+const EXPORT_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt', 'json', 'txt'];
+
+export function parsePace(value: string | undefined): StreamPace | undefined {
+  if (value === undefined || value === 'realtime' || value === 'fast') return value;
+  
+  const speed = Number(value);
+  if (!(speed > 0)) {
+    throw new Error(`--pace expects realtime, fast or a positive number, got "${value}"`);
+  }
+  return speed;
+}
+
+export async function transcribe(argv: string[]): Promise<void> {
+  const { flags, positionals } = parseArgs(argv, TRANSCRIBE_FLAGS);
+  const config = await loadConfig(flags);
+  const input = positionals[0];
+  
+  if (!input) {
+    throw new Error('Missing input file; use - to read from stdin');
+  }
+  if (flags.export && !EXPORT_FORMATS.includes(flags.export)) {
+    throw new Error(`--export expects one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+  
+  const format: Partial<AudioFormat> | undefined = flags.format || flags.sampleRate || flags.channels
+    ? {
+      mimeType: flags.format || 'audio/pcm',
+      ...(flags.sampleRate && { sampleRate: flags.sampleRate }),
+      ...(flags.channels && { channels: flags.channels })
+    }
+    : undefined;
+  const options: StreamOptions = {
+    format,
+    pace: parsePace(flags.pace),
+    bitrate: flags.bitrate
+  };
+  
+  let local: RunningServer | null = null;
+  let url = config.url;
+  if (!url) {
+    // Loopback only, on a free port, without the config's auth tokens
+    local = await listen(createAudioServer(config), { ...config, host: '127.0.0.1', port: 0, path: undefined, token: [] });
+    url = `ws://127.0.0.1:${local.port}`;
+  }
+  
+  const client = new NodeAudioStreamClient({ websocketUrl: url, authToken: config.authToken });
+  const interactive = !config.json && process.stderr.isTTY;
+  let interimShown = false;
+  
+  const clearInterim = () => {
+    if (interimShown) {
+      process.stderr.write('\r\x1b[K');
+      interimShown = false;
+    }
+  };
+  
+  client.on('transcription', (result: TranscriptionResult) => {
+    if (config.json) {
+      if (result.isFinal !== false || flags.interim) {
+        printJson({ event: 'transcription', ...result });
+      }
+      return;
+    }
+    
+    if (result.isFinal === false) {
+      // Interim results are redrawn in place on a terminal
+      if (flags.interim && interactive) {
+        clearInterim();
+        process.stderr.write(formatResult(result).slice(0, (process.stderr.columns || 80) - 1));
+        interimShown = true;
+      }
+      return;
+    }
+    
+    clearInterim();
+    if (result.transcript) {
+      process.stdout.write(`${formatResult(result)}\n`);
+    }
+  });
+  
+  client.on('error', (error) => {
+    clearInterim();
+    console.error('Error:', error.message);
+  });
+  
+  // The first Ctrl-C stops streaming and still prints what was transcribed
+  const interrupt = () => client.stop();
+  process.once('SIGINT', interrupt);
+  
+  let result: StreamResult;
+  try {
+    await client.connect();
+    result = input === '-' ? await client.streamStdin(options) : await client.streamFile(input, options);
+  } finally {
+    process.off('SIGINT', interrupt);
+    clearInterim();
+    client.disconnect();
+    await local?.close();
+  }
+  
+  if (config.json) {
+    printJson({
+      event: 'done',
+      transcript: result.transcript,
+      format: result.format,
+      bytesSent: result.bytesSent,
+      stopped: result.stopped
+    });
+  }
+  
+  // stdout carries only JSON lines with --json
+  if (flags.export) {
+    await writeOutput(
+      exportTranscript(result.results, flags.export),
+      flags.output,
+      config.json ? process.stderr : process.stdout
+    );
+  }
+}
@@ -0,0 +1,185 @@
+// ABOUTME: Mixes the microphone, existing MediaStreams and media elements into one stable MediaStream
+// ABOUTME: Sources are routed through a Web Audio graph, so recorders keep running while the microphone changes
+
+import { AudioInputDevice } from '../common/types';
+
+export interface AudioInputMixerOptions {
+  onDeviceLost: () => void; // The active microphone was unplugged or revoked
+}
+
+// captureStream is not in the DOM typings yet, and Firefox still prefixes it
+interface CapturableMediaElement extends HTMLMediaElement {
+  captureStream?(): MediaStream;
+  mozCaptureStream?(): MediaStream;
+}
+
+interface ElementOutput {
+  audioContext: AudioContext;
+  source: MediaElementAudioSourceNode;
+}
+
+// An element can be routed into Web Audio only once per page, and goes silent when its context closes,
+// so elements without captureStream keep a context of their own that outlives any mixer
+const elementOutputs = new WeakMap<HTMLMediaElement, ElementOutput>();
+
+interface ExternalInput {
+  stream: MediaStream;
+  owned: boolean; // Created here (e.g. by captureStream), so its tracks are stopped on close
+  source: MediaStreamAudioSourceNode | null;
+  onAddTrack: (() => void) | null;
+}
+
+export class AudioInputMixer {
+  private audioContext: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private deviceStream: MediaStream | null = null;
+  private externalInputs: ExternalInput[] = [];
+  private elementTaps: { source: MediaElementAudioSourceNode; tap: MediaStreamAudioDestinationNode }[] = [];
+  
+  constructor(private options: AudioInputMixerOptions) {}
+  
+  // The microphone's track, for settings and mute state; null when no microphone is mixed in
+  get track(): MediaStreamTrack | null {
+    return this.deviceStream?.getAudioTracks()[0] ?? null;
+  }
+  
+  // Returns the stream the recorder, PCM capture and level meter consume; it is unchanged across switches
+  async open(channels = 1): Promise<MediaStream> {
+    const audioContext = new AudioContext();
+    this.audioContext = audioContext;
+    this.destination = audioContext.createMediaStreamDestination();
+    this.destination.channelCount = channels;
+    this.destination.channelCountMode = 'explicit';
+    
+    // Contexts created before a user gesture start suspended
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+    
+    return this.destination.stream;
+  }
+  
+  // Opens the new device before releasing the old one, so a failed switch keeps the current input
+  async switchDevice(constraints: MediaTrackConstraints): Promise<void> {
+    const { audioContext, destination } = this.getGraph();
+    
+    const deviceStream = await navigator.mediaDevices.getUserMedia({ audio: constraints });
+    const source = audioContext.createMediaStreamSource(deviceStream);
+    
+    this.releaseDevice();
+    this.deviceStream = deviceStream;
+    this.source = source;
+    source.connect(destination);
+    
+    const track = deviceStream.getAudioTracks()[0];
+    if (track) {
+      track.onended = () => {
+        if (this.deviceStream === deviceStream) {
+          this.options.onDeviceLost();
+        }
+      };
+    }
+  }
+  
+  // Mixes in a stream, e.g. a WebRTC remote stream; tracks of streams the caller owns are never stopped here
+  addStream(stream: MediaStream, owned = false): void {
+    const { audioContext, destination } = this.getGraph();
+    const input: ExternalInput = { stream, owned, source: null, onAddTrack: null };
+    
+    const connect = () => {
+      if (input.source || stream.getAudioTracks().length === 0) return;
+      input.source = audioContext.createMediaStreamSource(stream);
+      input.source.connect(destination);
+    };
+    
+    // Remote and captured streams may only get their audio track later
+    input.onAddTrack = connect;
+    stream.addEventListener('addtrack', connect);
+    connect();
+    this.externalInputs.push(input);
+  }
+  
+  // Mixes in a playing <audio> or <video> element without taking over its playback
+  addElement(element: HTMLMediaElement): void {
+    const capturable = element as CapturableMediaElement;
+    const capture = capturable.captureStream ?? capturable.mozCaptureStream;
+    if (capture) {
+      this.addStream(capture.call(element), true);
+      return;
+    }
+    
+    // Without captureStream the element plays through its own context, and each recording taps a stream off it
+    let output = elementOutputs.get(element);
+    if (!output) {
+      const audioContext = new AudioContext();
+      const source = audioContext.createMediaElementSource(element);
+      source.connect(audioContext.destination);
+      output = { audioContext, source };
+      elementOutputs.set(element, output);
+    }
+    if (output.audioContext.state === 'suspended') {
+      output.audioContext.resume().catch(() => undefined);
+    }
+    
+    const tap = output.audioContext.createMediaStreamDestination();
+    output.source.connect(tap);
+    this.elementTaps.push({ source: output.source, tap });
+    this.addStream(tap.stream, true);
+  }
+  
+  getDevice(): AudioInputDevice | null {
+    const track = this.track;
+    if (!track) return null;
+    
+    const settings = track.getSettings();
+    return {
+      deviceId: settings.deviceId || '',
+      groupId: settings.groupId || '',
+      label: track.label
+    };
+  }
+  
+  async close(): Promise<void> {
+    this.releaseDevice();
+    
+    for (const input of this.externalInputs) {
+      input.source?.disconnect();
+      if (input.onAddTrack) {
+        input.stream.removeEventListener('addtrack', input.onAddTrack);
+      }
+      if (input.owned) {
+        input.stream.getTracks().forEach(track => track.stop());
+      }
+    }
+    this.externalInputs = [];
+    // The element keeps playing through its own context
+    this.elementTaps.forEach(({ source, tap }) => source.disconnect(tap));
+    this.elementTaps = [];
+    
+    this.destination = null;
+    await this.audioContext?.close().catch(() => undefined);
+    this.audioContext = null;
+  }
+  
+  private getGraph(): { audioContext: AudioContext; destination: MediaStreamAudioDestinationNode } {
+    if (!this.audioContext || !this.destination) {
+      throw new Error('Audio input mixer is not open');
+    }
+    return { audioContext: this.audioContext, destination: this.destination };
+  }
+  
+  // The microphone was opened here, so its tracks are stopped with it
+  private releaseDevice(): void {
+    this.source?.disconnect();
+    this.source = null;
+    
+    if (this.deviceStream) {
+      this.deviceStream.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
+      this.deviceStream = null;
+    }
+  }
+}
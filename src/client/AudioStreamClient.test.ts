@@ -0,0 +1,161 @@
+// ABOUTME: Tests for the browser client with ws standing in for WebSocket and a fake MediaRecorder
+// ABOUTME: Covers what reaches the server when a MediaRecorder recording stops
+
+import WebSocket from 'ws';
+import { AudioStreamClient } from './AudioStreamClient';
+import { AudioDroppedEvent, RecordingState } from '../common/types';
+
+jest.mock('./AudioInputMixer', () => ({
+  AudioInputMixer: class {
+    track = null;
+    async open() {
+      return {};
+    }
+    async switchDevice() {}
+    getDevice() {
+      return null;
+    }
+    async close() {}
+  }
+}));
+
+// Hands over a chunk per tick like a recorder with a timeslice, and the rest when stopped
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported(type: string) {
+    return type === 'audio/webm';
+  }
+  
+  state = 'inactive';
+  mimeType = 'audio/webm';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onstop: (() => void) | null = null;
+  
+  constructor() {
+    FakeMediaRecorder.instances.push(this);
+  }
+  
+  start() {
+    this.state = 'recording';
+  }
+  
+  tick(text: string) {
+    this.ondataavailable?.({ data: new Blob([text], { type: this.mimeType }) });
+  }
+  
+  stop() {
+    this.state = 'inactive';
+    setTimeout(() => {
+      this.tick('last');
+      this.onstop?.();
+    }, 20);
+  }
+}
+
+describe('AudioStreamClient', () => {
+  let wss: WebSocket.Server;
+  let received: string[];
+  let url: string;
+  let client: AudioStreamClient;
+  
+  beforeAll(() => {
+    Object.assign(globalThis, { WebSocket, MediaRecorder: FakeMediaRecorder });
+  });
+  
+  afterAll(() => {
+    delete (globalThis as Record<string, unknown>).WebSocket;
+    delete (globalThis as Record<string, unknown>).MediaRecorder;
+  });
+  
+  beforeEach(async () => {
+    received = [];
+    FakeMediaRecorder.instances = [];
+    wss = new WebSocket.Server({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => wss.once('listening', resolve));
+    
+    // Records audio frames as their text and control messages as their type
+    wss.on('connection', ws => {
+      ws.on('message', (data, isBinary) => {
+        if (isBinary) {
+          received.push(`audio:${data.toString()}`);
+          return;
+        }
+        const message = JSON.parse(data.toString());
+        received.push(message.type);
+        if (message.type === 'start-recording') {
+          ws.send(JSON.stringify({ type: 'recording-started', format: message.format }));
+        }
+      });
+    });
+    
+    url = `ws://127.0.0.1:${(wss.address() as { port: number }).port}`;
+    client = new AudioStreamClient({ websocketUrl: url, levelMetering: false });
+    await client.connect();
+  });
+  
+  afterEach(async () => {
+    client.disconnect();
+    await new Promise(resolve => wss.close(resolve));
+    jest.restoreAllMocks();
+  });
+  
+  async function waitFor(condition: () => boolean): Promise<void> {
+    const deadline = Date.now() + 2000;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Condition not met in time');
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+  
+  it('sends the recorder\'s final chunk before stop-recording and keeps it in the recording', async () => {
+    await client.startRecording();
+    const recorder = FakeMediaRecorder.instances[0];
+    recorder.tick('first');
+    recorder.tick('second');
+    
+    const blob = await client.stopRecording();
+    await waitFor(() => received.includes('stop-recording'));
+    
+    expect(received.filter(type => type !== 'hello')).toEqual([
+      'start-recording',
+      'audio:first',
+      'audio:second',
+      'audio:last',
+      'stop-recording'
+    ]);
+    expect(await blob?.text()).toBe('firstsecondlast');
+  });
+  
+  it('ignores a second stop while the first is still waiting for the recorder', async () => {
+    await client.startRecording();
+    FakeMediaRecorder.instances[0].tick('first');
+    
+    const [blob, second] = await Promise.all([client.stopRecording(), client.stopRecording()]);
+    await waitFor(() => received.includes('stop-recording'));
+    
+    expect(await blob?.text()).toBe('firstlast');
+    expect(second).toBeNull();
+    expect(received.filter(type => type === 'stop-recording')).toHaveLength(1);
+  });
+  
+  it('reports audio captured while disconnected when there is no offline buffer', async () => {
+    client.disconnect();
+    client = new AudioStreamClient({ websocketUrl: url, levelMetering: false, offlineBuffer: false });
+    await client.connect();
+    const dropped: AudioDroppedEvent[] = [];
+    client.on('audio-dropped', event => dropped.push(event));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    await client.startRecording();
+    FakeMediaRecorder.instances[0].tick('first');
+    await waitFor(() => received.includes('audio:first'));
+    
+    // The recording stops with the connection, and the recorder's final chunk finds no socket
+    wss.clients.forEach(ws => ws.terminate());
+    await waitFor(() => client.getRecordingState() === RecordingState.IDLE);
+    
+    expect(dropped).toEqual([{ chunks: 1, bytes: 4 }]);
+    expect(client.getFlowStats()).toMatchObject({ droppedChunks: 1, droppedBytes: 4 });
+  });
+});
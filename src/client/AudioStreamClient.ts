@@ -3,17 +3,65 @@
 
 import { EventEmitter } from 'eventemitter3';
 import { 
+  AudioFormat,
+  AudioInputDevice,
+  RecordingSource,
   ClientOptions, 
   ConnectionState, 
   RecordingState,
   ClientEvents,
+  ClientFlowControlOptions,
+  ClientFlowStats,
   TranscriptionResult 
 } from '../common/types';
+import { isContainerFormat, isLinearPcm, normalizeAudioFormat } from '../common/audioFormat';
+import { createWavHeader } from '../common/wav';
+import { encodeSequencedChunk } from '../common/sequence';
+import {
+  ClientMessage,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  ServerMessage,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from '../common/protocol';
+import { PcmCapture } from './PcmCapture';
+import { LevelMeter } from './LevelMeter';
+import { AudioInputMixer } from './AudioInputMixer';
+
+interface PendingStart {
+  resolve: (reply: RecordingStartReply) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface RecordingStartReply {
+  format: AudioFormat;
+  sequenceBase?: number; // Present when the server accepted sequence-numbered chunks
+  resumed?: boolean; // The server continued the recording it already had for this session
+}
+
+interface PendingResume {
+  resolve: (resumed: boolean) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface BufferedChunk {
+  sequence: number;
+  data: Uint8Array;
+  timestamp: number;
+  sent: boolean;
+}
 
 export class AudioStreamClient extends EventEmitter<ClientEvents> {
   private ws: WebSocket | null = null;
   private mediaRecorder: MediaRecorder | null = null;
   private mediaStream: MediaStream | null = null;
+  private input: AudioInputMixer | null = null;
+  private recordingSources: RecordingSource[] = [];
+  private deviceChangeHandler: (() => void) | null = null;
+  private pcmCapture: PcmCapture | null = null;
+  private levelMeter: LevelMeter | null = null;
   private connectionState: ConnectionState = ConnectionState.DISCONNECTED;
   private recordingState: RecordingState = RecordingState.IDLE;
   private reconnectAttempts = 0;
@@ -22,6 +70,27 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
   private pongTimer: NodeJS.Timeout | null = null;
   private audioChunkTimer: NodeJS.Timeout | null = null;
   private recordedChunks: Blob[] = [];
+  private pendingAudio: Promise<void> = Promise.resolve(); // Recorder chunks still being read
+  private pendingStart: PendingStart | null = null;
+  private audioFormat: AudioFormat | null = null;
+  private audioBuffer: BufferedChunk[] = [];
+  private bufferedBytes = 0;
+  private nextSequence = 0;
+  private sequenced = false;
+  private headerChunk: Uint8Array | null = null; // First chunk of a container recording
+  private restorePending = false; // Recording continues offline until the server has it again
+  private resumeToken: string | null = null; // Issued by servers that keep sessions through reconnects
+  private lastTranscriptSequence = -1;
+  private pendingResume: PendingResume | null = null;
+  private acked = false; // The server acknowledges chunks on this connection
+  private lastProcessed = -1; // Last chunk the server reported as handled
+  private unacked: { sequence: number; sentAt: number }[] = [];
+  private serverOverloaded = false;
+  private throttled = false;
+  private drainTimer: NodeJS.Timeout | null = null;
+  private droppedChunks = 0;
+  private droppedBytes = 0;
+  private protocolRejected = false; // The server does not speak our protocol version; reconnecting will not help
   
   constructor(private options: ClientOptions) {
     super();
@@ -33,6 +102,7 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
     }
     
     this.setConnectionState(ConnectionState.CONNECTING);
+    this.protocolRejected = false;
     
     try {
       await this.establishConnection();
@@ -53,11 +123,22 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
       
       this.ws = new WebSocket(url.toString());
       
+      // Set connection timeout
+      const connectTimer = setTimeout(() => {
+        if (this.connectionState === ConnectionState.CONNECTING) {
+          this.ws?.close();
+          reject(new Error('Connection timeout'));
+        }
+      }, 10000); // 10 second timeout
+      
       this.ws.onopen = () => {
+        clearTimeout(connectTimer);
         this.setConnectionState(ConnectionState.CONNECTED);
         this.reconnectAttempts = 0;
+        this.sendMessage({ type: 'hello', protocolVersion: PROTOCOL_VERSION, client: 'audio-stream-transcribe-browser' });
         this.startPingInterval();
         this.emit('connected');
+        this.reattach();
         resolve();
       };
       
@@ -71,38 +152,102 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
       };
       
       this.ws.onclose = (event) => {
+        clearTimeout(connectTimer);
         this.handleDisconnection(event.reason);
         if (this.connectionState === ConnectionState.CONNECTING) {
           reject(new Error('Failed to connect'));
         }
       };
-      
-      // Set connection timeout
-      setTimeout(() => {
-        if (this.connectionState === ConnectionState.CONNECTING) {
-          this.ws?.close();
-          reject(new Error('Connection timeout'));
-        }
-      }, 10000); // 10 second timeout
     });
   }
   
   private handleMessage(data: string | Blob): void {
     if (typeof data !== 'string') return;
     
+    let message: ServerMessage;
+    try {
+      message = parseServerMessage(data);
+    } catch (error) {
+      console.warn('Ignoring invalid server message:', (error as Error).message);
+      return;
+    }
+    
     try {
-      const message = JSON.parse(data);
-      
       switch (message.type) {
+        case 'welcome':
+          if (!SUPPORTED_PROTOCOL_VERSIONS.includes(message.protocolVersion)) {
+            this.rejectProtocol(`Server chose unsupported protocol version ${message.protocolVersion}`);
+          }
+          break;
+          
         case 'pong':
           this.handlePong();
           break;
           
         case 'transcription':
+          if (message.sequence !== undefined) {
+            this.lastTranscriptSequence = message.sequence;
+          }
           this.handleTranscription(message.data);
           break;
           
+        case 'session-started':
+          this.resumeToken = message.resumeToken;
+          if (!this.pendingResume) {
+            this.lastTranscriptSequence = -1;
+          }
+          break;
+          
+        case 'session-resumed':
+          this.resumeToken = message.resumeToken;
+          this.settleResume(true);
+          this.emit('session-resumed', {
+            sessionId: message.sessionId,
+            missedTranscripts: message.missedTranscripts
+          });
+          break;
+          
+        case 'ack':
+          this.handleAck(message.processed);
+          break;
+          
+        case 'overload':
+          console.warn(`Server is overloaded (${message.bufferedBytes} bytes waiting), holding back audio`);
+          this.serverOverloaded = true;
+          this.checkBackpressure();
+          break;
+          
+        case 'overload-cleared':
+          this.serverOverloaded = false;
+          this.flushUnsent();
+          break;
+          
+        case 'session-resume-failed':
+          console.warn('Could not resume session:', message.reason);
+          this.lastTranscriptSequence = -1;
+          this.settleResume(false);
+          break;
+          
+        case 'speech-started':
+          this.emit('speech-start', message.data);
+          break;
+          
+        case 'utterance-end':
+          this.emit('utterance-end', message.data);
+          break;
+          
         case 'recording-started':
+          this.settleStart(null, {
+            format: message.format,
+            sequenceBase: message.sequenceBase,
+            resumed: message.resumed
+          });
+          break;
+          
+        case 'recording-rejected':
+          this.settleStart(new Error(`Recording rejected by server: ${message.reason || 'unsupported audio format'}`));
+          break;
+          
         case 'recording-stopped':
         case 'recording-paused':
         case 'recording-resumed':
@@ -110,38 +255,362 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
           break;
           
         case 'error':
-          this.emit('error', new Error(message.message || 'Server error'));
+          if (message.code === 'unsupported-version') {
+            this.rejectProtocol(message.message);
+          } else {
+            this.emit('error', new ProtocolError(message.code, message.message, message.messageType));
+          }
           break;
-          
-        default:
-          console.warn('Unknown message type:', message.type);
       }
     } catch (error) {
-      console.error('Failed to parse message:', error);
+      console.error('Failed to handle message:', error);
     }
   }
   
+  private rejectProtocol(reason: string): void {
+    this.protocolRejected = true;
+    this.emit('error', new ProtocolError('unsupported-version', reason));
+    this.ws?.close(1002, 'Unsupported protocol version');
+  }
+  
   private handleTranscription(data: TranscriptionResult): void {
     this.emit('transcription', data);
   }
   
+  private settleStart(error: Error | null, reply?: RecordingStartReply): void {
+    const pending = this.pendingStart;
+    if (!pending) return;
+    
+    this.pendingStart = null;
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(reply as RecordingStartReply);
+    }
+  }
+  
+  // Announces the recording format and waits for the server to accept it.
+  // Chunks are numbered from sequenceBase if the server supports it.
+  private requestRecording(format: AudioFormat, sequenceBase = 0, resume = false): Promise<RecordingStartReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settleStart(new Error('Server did not confirm start of recording'));
+      }, 10000);
+      
+      this.pendingStart = { resolve, reject, timer };
+      this.sendMessage({ type: 'start-recording', format, sequenceBase, ...(resume && { resume }) });
+    });
+  }
+  
+  // Starts numbering the chunks of a new recording
+  private async beginRecording(format: AudioFormat): Promise<AudioFormat> {
+    this.clearAudioBuffer();
+    this.nextSequence = 0;
+    this.headerChunk = null;
+    this.acked = false;
+    this.lastProcessed = -1;
+    this.unacked = [];
+    this.serverOverloaded = false;
+    this.throttled = false;
+    this.droppedChunks = 0;
+    this.droppedBytes = 0;
+    
+    const reply = await this.requestRecording(format);
+    this.sequenced = reply.sequenceBase !== undefined;
+    return reply.format;
+  }
+  
+  // After a reconnect, takes back the previous session if the server kept it, then restores the recording
+  private reattach(): void {
+    this.acked = false;
+    this.unacked = [];
+    this.serverOverloaded = false;
+    
+    const resumed = this.resumeToken ? this.resumeSession(this.resumeToken) : Promise.resolve(false);
+    
+    resumed.then(() => {
+      if (this.restorePending && this.connectionState === ConnectionState.CONNECTED) {
+        this.restoreRecording();
+      }
+    });
+  }
+  
+  private resumeSession(resumeToken: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.settleResume(false), 10000);
+      
+      this.pendingResume = { resolve, timer };
+      this.sendMessage({
+        type: 'resume-session',
+        resumeToken,
+        lastTranscriptSequence: this.lastTranscriptSequence
+      });
+    });
+  }
+  
+  private settleResume(resumed: boolean): void {
+    const pending = this.pendingResume;
+    if (!pending) return;
+    
+    this.pendingResume = null;
+    clearTimeout(pending.timer);
+    pending.resolve(resumed);
+  }
+  
   private handleDisconnection(reason?: string): void {
+    this.settleStart(new Error('Disconnected before recording started'));
+    this.settleResume(false);
     this.stopPingInterval();
     this.setConnectionState(ConnectionState.DISCONNECTED);
     this.emit('disconnected', reason);
     
-    // Stop recording if active
-    if (this.recordingState !== RecordingState.IDLE) {
-      this.stopRecording().catch(console.error);
+    const willReconnect = !!this.options.reconnect && !this.protocolRejected &&
+      this.reconnectAttempts < (this.options.maxReconnectAttempts || 5);
+    
+    // Keep recording into the offline buffer while reconnecting; otherwise the audio has nowhere to go
+    if (this.recordingState !== RecordingState.IDLE && this.recordingState !== RecordingState.STOPPING) {
+      if (willReconnect && this.bufferLimits() && this.audioFormat) {
+        this.restorePending = true;
+      } else {
+        this.stopRecording().catch(console.error);
+      }
     }
     
     // Attempt reconnection if enabled
-    if (this.options.reconnect && 
-        this.reconnectAttempts < (this.options.maxReconnectAttempts || 5)) {
+    if (willReconnect) {
       this.scheduleReconnection();
     }
   }
   
+  // Re-announces the recording after a reconnect and replays the audio the server is missing
+  private restoreRecording(): void {
+    const format = this.audioFormat;
+    if (!format) return;
+    
+    const oldest = this.audioBuffer[0];
+    
+    this.requestRecording(format, oldest?.sequence ?? this.nextSequence, true)
+      .then(reply => {
+        this.restorePending = false;
+        if (this.recordingState === RecordingState.IDLE) return;
+        this.sequenced = reply.sequenceBase !== undefined;
+        
+        if (reply.resumed) {
+          // The server still has the stream; send everything from where it stopped receiving
+          for (const chunk of this.audioBuffer) {
+            if (chunk.sequence >= (reply.sequenceBase as number)) chunk.sent = false;
+          }
+        } else {
+          this.replayToNewStream(format, reply.sequenceBase ?? 0);
+        }
+        this.flushUnsent();
+        
+        if (this.recordingState === RecordingState.PAUSED) {
+          this.sendMessage({ type: 'pause-recording' });
+        }
+      })
+      .catch(error => {
+        // A dropped connection retries on the next reconnect; a rejection ends the recording
+        if (this.connectionState === ConnectionState.CONNECTED) {
+          this.restorePending = false;
+          this.emit('error', new Error(`Failed to resume recording: ${(error as Error).message}`));
+          this.stopRecording().catch(console.error);
+        }
+      });
+  }
+  
+  // A fresh server-side stream gets the audio the old one had not handled (or, without acks, had not been sent),
+  // renumbered from the new base. Container audio cannot be decoded without its header, so the header goes first.
+  private replayToNewStream(format: AudioFormat, sequenceBase: number): void {
+    const start = this.audioBuffer.findIndex(chunk =>
+      this.lastProcessed >= 0 ? chunk.sequence > this.lastProcessed : !chunk.sent
+    );
+    
+    // Everything before belongs to the old stream
+    this.audioBuffer = start >= 0 ? this.audioBuffer.slice(start) : [];
+    const header = this.headerChunk;
+    if (header && isContainerFormat(format) && this.audioBuffer[0]?.data !== header) {
+      this.audioBuffer.unshift({ sequence: 0, data: header, timestamp: Date.now(), sent: false });
+    }
+    
+    let sequence = sequenceBase;
+    this.bufferedBytes = 0;
+    for (const chunk of this.audioBuffer) {
+      chunk.sequence = sequence++;
+      chunk.sent = false;
+      this.bufferedBytes += chunk.data.byteLength;
+    }
+    this.nextSequence = sequence;
+    this.lastProcessed = sequenceBase - 1;
+  }
+  
+  private bufferLimits(): { maxBytes: number; maxDurationMs: number } | null {
+    const options = this.options.offlineBuffer ?? true;
+    if (options === false) return null;
+    
+    const limits = options === true ? {} : options;
+    return {
+      maxBytes: limits.maxBytes ?? 5 * 1024 * 1024,
+      maxDurationMs: limits.maxDurationMs ?? 60000
+    };
+  }
+  
+  private flowLimits(): Required<ClientFlowControlOptions> {
+    const options = this.options.flowControl || {};
+    return {
+      // Without the offline buffer there is nowhere to hold audio back
+      policy: this.bufferLimits() ? options.policy ?? 'throttle' : 'drop',
+      maxBufferedAmount: options.maxBufferedAmount ?? 256 * 1024,
+      maxAckLagMs: options.maxAckLagMs ?? 5000
+    };
+  }
+  
+  // Numbers a captured chunk, keeps it for replay and sends it when the server can take it
+  private queueAudio(data: Uint8Array): void {
+    const header = this.nextSequence === 0 && !!this.audioFormat && isContainerFormat(this.audioFormat);
+    
+    // Dropped audio is never numbered, so the server sees no gap; a container header is always kept
+    if (!header && !this.restorePending && this.flowLimits().policy === 'drop' && this.checkBackpressure()) {
+      this.recordDropped(1, data.byteLength);
+      return;
+    }
+    
+    // Without the offline buffer, audio captured while the socket is down has nowhere to go
+    const limits = this.bufferLimits();
+    if (!limits && !header && !this.canTransmit()) {
+      this.recordDropped(1, data.byteLength);
+      return;
+    }
+    
+    const chunk: BufferedChunk = { sequence: this.nextSequence++, data, timestamp: Date.now(), sent: false };
+    if (header) {
+      this.headerChunk = data;
+    }
+    
+    if (limits) {
+      this.audioBuffer.push(chunk);
+      this.bufferedBytes += data.byteLength;
+      this.pruneAudioBuffer(limits);
+      this.flushUnsent();
+    } else {
+      this.transmit(chunk);
+    }
+  }
+  
+  private canTransmit(): boolean {
+    return !this.restorePending && !!this.ws && this.ws.readyState === WebSocket.OPEN;
+  }
+  
+  private transmit(chunk: BufferedChunk): void {
+    if (!this.canTransmit() || !this.ws) return;
+    
+    this.ws.send(this.sequenced ? encodeSequencedChunk(chunk.sequence, chunk.data) : chunk.data);
+    chunk.sent = true;
+    if (this.acked) {
+      this.unacked.push({ sequence: chunk.sequence, sentAt: Date.now() });
+    }
+  }
+  
+  // Sends held-back chunks in order while the connection keeps up, and checks again shortly when it does not
+  private flushUnsent(): void {
+    if (!this.canTransmit()) return;
+    
+    for (const chunk of this.audioBuffer) {
+      if (chunk.sent) continue;
+      if (this.checkBackpressure()) break;
+      this.transmit(chunk);
+    }
+    
+    if (this.checkBackpressure() && !this.drainTimer) {
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = null;
+        this.flushUnsent();
+      }, 100);
+    }
+  }
+  
+  // Whether sending should back off right now; changes are reported as backpressure events
+  private checkBackpressure(): boolean {
+    const limits = this.flowLimits();
+    const throttled = !!this.ws && this.ws.readyState === WebSocket.OPEN && (
+      this.serverOverloaded ||
+      this.ws.bufferedAmount > limits.maxBufferedAmount ||
+      this.ackLagMs() > limits.maxAckLagMs
+    );
+    
+    if (throttled !== this.throttled) {
+      this.throttled = throttled;
+      this.emit('backpressure', { active: throttled, stats: this.getFlowStats() });
+    }
+    return throttled;
+  }
+  
+  private ackLagMs(): number {
+    return this.unacked.length > 0 ? Date.now() - this.unacked[0].sentAt : 0;
+  }
+  
+  // Chunks the server has handled no longer need to be kept for replay
+  private handleAck(processed: unknown): void {
+    if (typeof processed !== 'number') return;
+    
+    this.acked = true;
+    this.lastProcessed = processed;
+    while (this.unacked.length > 0 && this.unacked[0].sequence <= processed) {
+      this.unacked.shift();
+    }
+    while (this.audioBuffer.length > 0 && this.audioBuffer[0].sent && this.audioBuffer[0].sequence <= processed) {
+      this.bufferedBytes -= (this.audioBuffer.shift() as BufferedChunk).data.byteLength;
+    }
+    
+    this.flushUnsent();
+  }
+  
+  private recordDropped(chunks: number, bytes: number): void {
+    this.droppedChunks += chunks;
+    this.droppedBytes += bytes;
+    this.emit('audio-dropped', { chunks, bytes });
+  }
+  
+  getFlowStats(): ClientFlowStats {
+    return {
+      bufferedAmount: this.ws?.bufferedAmount ?? 0,
+      unsentChunks: this.audioBuffer.filter(chunk => !chunk.sent).length,
+      unackedChunks: this.unacked.length,
+      ackLagMs: this.ackLagMs(),
+      droppedChunks: this.droppedChunks,
+      droppedBytes: this.droppedBytes,
+      throttled: this.throttled,
+      serverOverloaded: this.serverOverloaded
+    };
+  }
+  
+  private pruneAudioBuffer(limits: { maxBytes: number; maxDurationMs: number }): void {
+    const cutoff = Date.now() - limits.maxDurationMs;
+    let droppedChunks = 0;
+    let droppedBytes = 0;
+    
+    while (this.audioBuffer.length > 0 &&
+           (this.bufferedBytes > limits.maxBytes || this.audioBuffer[0].timestamp < cutoff)) {
+      const chunk = this.audioBuffer.shift() as BufferedChunk;
+      this.bufferedBytes -= chunk.data.byteLength;
+      if (!chunk.sent) {
+        droppedChunks++;
+        droppedBytes += chunk.data.byteLength;
+      }
+    }
+    
+    if (droppedChunks > 0) {
+      console.warn(`Offline audio buffer full, dropped ${droppedChunks} unsent chunks`);
+      this.recordDropped(droppedChunks, droppedBytes);
+    }
+  }
+  
+  private clearAudioBuffer(): void {
+    this.audioBuffer = [];
+    this.bufferedBytes = 0;
+  }
+  
   private scheduleReconnection(): void {
     if (this.reconnectTimer) return;
     
@@ -165,6 +634,11 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
     }
     
     this.stopPingInterval();
+    this.unwatchDevices();
+    
+    // The next connect starts a new session
+    this.resumeToken = null;
+    this.lastTranscriptSequence = -1;
     
     if (this.ws) {
       this.ws.close(1000, 'Client disconnect');
@@ -174,7 +648,8 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
     this.setConnectionState(ConnectionState.DISCONNECTED);
   }
   
-  async startRecording(): Promise<void> {
+  // Records the microphone by default; streams and media elements are not stopped when recording ends
+  async startRecording(source: RecordingSource | RecordingSource[] = 'microphone'): Promise<void> {
     if (this.recordingState !== RecordingState.IDLE) {
       throw new Error('Recording already in progress');
     }
@@ -186,92 +661,237 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
     this.setRecordingState(RecordingState.RECORDING);
     
     try {
-      // Get user media
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        }
-      });
-      
-      // Determine supported mime types
-      const mimeType = this.getSupportedMimeType();
+      const preferred = this.options.audioFormat;
+      const pcm = this.options.captureMode === 'pcm';
       
-      // Create media recorder
-      this.mediaRecorder = new MediaRecorder(this.mediaStream, {
-        mimeType,
-        audioBitsPerSecond: 128000
+      this.input = new AudioInputMixer({
+        onDeviceLost: () => this.handleDeviceLost()
       });
+      this.mediaStream = await this.input.open(pcm ? 1 : preferred?.channels || 1);
       
-      this.recordedChunks = [];
-      
-      // Handle data available
-      this.mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          this.recordedChunks.push(event.data);
-          this.sendAudioData(event.data);
+      const sources = Array.isArray(source) ? source : [source];
+      this.recordingSources = sources;
+      for (const item of sources) {
+        if (item === 'microphone') continue;
+        if (item instanceof MediaStream) {
+          this.input.addStream(item);
+        } else {
+          this.input.addElement(item);
         }
-      };
+      }
       
-      // Handle errors
-      this.mediaRecorder.onerror = (error) => {
-        console.error('MediaRecorder error:', error);
-        this.emit('error', new Error('Recording failed'));
-        this.stopRecording().catch(console.error);
-      };
+      if (sources.includes('microphone')) {
+        this.watchDevices();
+        await this.input.switchDevice(this.getAudioConstraints());
+        this.emit('input-device', this.input.getDevice());
+      }
       
-      // Send start message
-      this.sendMessage({ type: 'start-recording' });
+      this.recordedChunks = [];
+      await this.startLevelMeter(this.mediaStream);
       
-      // Start recording with timeslice for streaming
-      this.mediaRecorder.start(1000); // 1 second chunks
+      if (pcm) {
+        await this.startPcmCapture(this.mediaStream);
+      } else {
+        await this.startMediaRecorder(this.mediaStream, preferred);
+      }
       
     } catch (error) {
+      this.pcmCapture?.stop().catch(() => undefined);
+      this.pcmCapture = null;
+      this.levelMeter?.stop().catch(() => undefined);
+      this.levelMeter = null;
+      this.input?.close().catch(() => undefined);
+      this.input = null;
+      this.recordingSources = [];
+      this.mediaStream = null;
+      this.mediaRecorder = null;
       this.setRecordingState(RecordingState.IDLE);
       throw error;
     }
   }
   
+  private async startMediaRecorder(mediaStream: MediaStream, preferred?: Partial<AudioFormat>): Promise<void> {
+    // Determine supported mime types
+    const mimeType = this.getSupportedMimeType(preferred?.mimeType);
+    
+    // Create media recorder
+    this.mediaRecorder = new MediaRecorder(mediaStream, {
+      mimeType,
+      audioBitsPerSecond: 128000
+    });
+    
+    // Handle data available
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.recordedChunks.push(event.data);
+        this.sendAudioData(event.data);
+      }
+    };
+    
+    // Handle errors
+    this.mediaRecorder.onerror = (error) => {
+      console.error('MediaRecorder error:', error);
+      this.emit('error', new Error('Recording failed'));
+      this.stopRecording().catch(console.error);
+    };
+    
+    // Announce what the recorder actually produces
+    const settings = this.input?.track?.getSettings() || {};
+    this.audioFormat = await this.beginRecording(normalizeAudioFormat({
+      ...preferred,
+      mimeType: this.mediaRecorder.mimeType || mimeType || 'audio/webm',
+      sampleRate: settings.sampleRate,
+      channels: settings.channelCount
+    }));
+    
+    // Start recording with timeslice for streaming
+    this.mediaRecorder.start(1000); // 1 second chunks
+  }
+  
+  private async startLevelMeter(mediaStream: MediaStream): Promise<void> {
+    const options = this.options.levelMetering ?? true;
+    if (options === false) return;
+    
+    this.levelMeter = new LevelMeter({
+      ...(options === true ? {} : options),
+      getSourceTrack: () => this.input?.track ?? null,
+      onLevel: (level) => this.emit('audio-level', level),
+      onSilence: (warning) => {
+        if (this.recordingState === RecordingState.RECORDING) {
+          this.emit('silence-warning', warning);
+        }
+      }
+    });
+    
+    // Metering is a convenience; recording goes ahead without it
+    try {
+      await this.levelMeter.start(mediaStream);
+    } catch (error) {
+      console.warn('Audio level metering unavailable:', error);
+      this.levelMeter = null;
+    }
+  }
+  
+  private async startPcmCapture(mediaStream: MediaStream): Promise<void> {
+    const sampleRate = this.options.pcmSampleRate ?? 16000;
+    const frameDurationMs = Math.min(Math.max(this.options.frameDurationMs ?? 40, 20), 100);
+    
+    this.audioFormat = await this.beginRecording({
+      mimeType: 'audio/pcm',
+      sampleRate,
+      channels: 1,
+      bitDepth: 16,
+      encoding: 'linear16'
+    });
+    
+    this.pcmCapture = new PcmCapture({
+      sampleRate,
+      frameDurationMs,
+      onFrame: (frame) => {
+        this.recordedChunks.push(new Blob([frame]));
+        this.queueAudio(new Uint8Array(frame));
+      }
+    });
+    await this.pcmCapture.start(mediaStream);
+  }
+  
   async stopRecording(): Promise<Blob | null> {
-    if (this.recordingState === RecordingState.IDLE) {
+    if (this.recordingState === RecordingState.IDLE || this.recordingState === RecordingState.STOPPING) {
       return null;
     }
     
     this.setRecordingState(RecordingState.STOPPING);
     
-    // Send stop message
-    this.sendMessage({ type: 'stop-recording' });
+    if (this.levelMeter) {
+      this.levelMeter.stop().catch(console.error);
+      this.levelMeter = null;
+    }
+    
+    // Send the last partial frame before the server finalizes
+    if (this.pcmCapture) {
+      await this.pcmCapture.stop();
+      this.pcmCapture = null;
+    }
     
-    // Stop media recorder
-    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
-      this.mediaRecorder.stop();
+    // The recorder hands over its final chunk when stopped, which must reach the server first too
+    if (this.mediaRecorder) {
+      await this.stopMediaRecorder(this.mediaRecorder);
     }
+    await this.pendingAudio;
+    
+    // Audio held back by flow control still belongs to this recording
+    this.flushRemaining();
+    this.sendMessage({ type: 'stop-recording' });
     
-    // Stop media stream
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => track.stop());
+    // Release the microphone
+    if (this.input) {
+      this.input.close().catch(console.error);
+      this.input = null;
+      this.recordingSources = [];
       this.mediaStream = null;
     }
     
     // Create blob from recorded chunks
     const recordedBlob = this.recordedChunks.length > 0 
-      ? new Blob(this.recordedChunks, { type: this.recordedChunks[0].type })
+      ? this.createRecordingBlob()
       : null;
     
     this.recordedChunks = [];
     this.mediaRecorder = null;
+    this.restorePending = false;
+    this.clearAudioBuffer();
+    this.headerChunk = null;
+    this.unacked = [];
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
     this.setRecordingState(RecordingState.IDLE);
     
     return recordedBlob;
   }
   
+  // Resolves once the recorder has delivered its last chunk
+  private stopMediaRecorder(recorder: MediaRecorder): Promise<void> {
+    if (recorder.state === 'inactive') return Promise.resolve();
+    
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, 1000);
+      recorder.onstop = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      recorder.stop();
+    });
+  }
+  
+  // Sends every chunk still waiting, whatever the backpressure, as the recording ends
+  private flushRemaining(): void {
+    for (const chunk of this.audioBuffer) {
+      if (!chunk.sent) this.transmit(chunk);
+    }
+  }
+  
+  private createRecordingBlob(): Blob {
+    if (this.audioFormat && isLinearPcm(this.audioFormat)) {
+      const dataLength = this.recordedChunks.reduce((sum, chunk) => sum + chunk.size, 0);
+      const header = createWavHeader(dataLength, { sampleRate: this.audioFormat.sampleRate || 16000 });
+      return new Blob([header as BlobPart, ...this.recordedChunks], { type: 'audio/wav' });
+    }
+    
+    return new Blob(this.recordedChunks, { type: this.recordedChunks[0].type });
+  }
+  
   pauseRecording(): void {
     if (this.recordingState !== RecordingState.RECORDING) {
       throw new Error('Not currently recording');
     }
     
-    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
+    if (this.pcmCapture) {
+      this.pcmCapture.pause().catch(console.error);
+      this.setRecordingState(RecordingState.PAUSED);
+      this.sendMessage({ type: 'pause-recording' });
+    } else if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
       this.mediaRecorder.pause();
       this.setRecordingState(RecordingState.PAUSED);
       this.sendMessage({ type: 'pause-recording' });
@@ -283,15 +903,106 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
       throw new Error('Recording not paused');
     }
     
-    if (this.mediaRecorder && this.mediaRecorder.state === 'paused') {
+    this.levelMeter?.resetSilence();
+    
+    if (this.pcmCapture) {
+      this.pcmCapture.resume().catch(console.error);
+      this.setRecordingState(RecordingState.RECORDING);
+      this.sendMessage({ type: 'resume-recording' });
+    } else if (this.mediaRecorder && this.mediaRecorder.state === 'paused') {
       this.mediaRecorder.resume();
       this.setRecordingState(RecordingState.RECORDING);
       this.sendMessage({ type: 'resume-recording' });
     }
   }
   
-  private getSupportedMimeType(): string {
+  private getAudioConstraints(): MediaTrackConstraints {
+    const preferred = this.options.audioFormat;
+    const pcm = this.options.captureMode === 'pcm';
+    
+    return {
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      ...(!pcm && preferred?.sampleRate && { sampleRate: preferred.sampleRate }),
+      ...(pcm ? { channelCount: 1 } : preferred?.channels && { channelCount: preferred.channels }),
+      ...this.options.audioConstraints,
+      ...(this.options.deviceId && { deviceId: { exact: this.options.deviceId } })
+    };
+  }
+  
+  // Labels stay empty until microphone access has been granted once
+  async listAudioInputs(): Promise<AudioInputDevice[]> {
+    this.watchDevices();
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter(device => device.kind === 'audioinput')
+      .map(device => ({ deviceId: device.deviceId, groupId: device.groupId, label: device.label }));
+  }
+  
+  // Records from another input; during a recording the switch happens without interrupting the stream
+  async selectDevice(deviceId?: string): Promise<void> {
+    const previous = this.options.deviceId;
+    this.options.deviceId = deviceId;
+    if (!this.input || !this.recordingSources.includes('microphone')) return;
+    
+    try {
+      await this.input.switchDevice(this.getAudioConstraints());
+    } catch (error) {
+      this.options.deviceId = previous;
+      throw error;
+    }
+    this.emit('input-device', this.input.getDevice());
+  }
+  
+  // Device being recorded from, while recording
+  getInputDevice(): AudioInputDevice | null {
+    return this.input?.getDevice() ?? null;
+  }
+  
+  private handleDeviceLost(): void {
+    const input = this.input;
+    if (!input) return;
+    
+    // Keep recording from the system default; the chosen deviceId is used again on the next selectDevice
+    console.warn('Audio input device lost, switching to the default device');
+    const { deviceId, ...constraints } = this.getAudioConstraints();
+    input.switchDevice(constraints)
+      .then(() => {
+        this.emit('input-device', input.getDevice());
+      })
+      .catch(error => {
+        this.emit('error', new Error(`Audio input device lost: ${(error as Error).message}`));
+        // Other mixed-in sources keep recording without the microphone
+        if (this.recordingSources.length === 1) {
+          this.stopRecording().catch(console.error);
+        }
+      });
+  }
+  
+  private watchDevices(): void {
+    if (this.deviceChangeHandler || typeof navigator === 'undefined' || !navigator.mediaDevices?.addEventListener) {
+      return;
+    }
+    
+    this.deviceChangeHandler = () => {
+      this.listAudioInputs()
+        .then(devices => this.emit('devices-changed', devices))
+        .catch(console.error);
+    };
+    navigator.mediaDevices.addEventListener('devicechange', this.deviceChangeHandler);
+  }
+  
+  private unwatchDevices(): void {
+    if (this.deviceChangeHandler) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.deviceChangeHandler);
+      this.deviceChangeHandler = null;
+    }
+  }
+  
+  private getSupportedMimeType(preferred?: string): string {
     const types = [
+      ...(preferred ? [preferred] : []),
       'audio/webm;codecs=opus',
       'audio/webm',
       'audio/ogg;codecs=opus',
@@ -309,17 +1020,14 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
   }
   
   private sendAudioData(data: Blob): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      // Convert blob to ArrayBuffer and send
-      data.arrayBuffer().then(buffer => {
-        this.ws?.send(buffer);
-      }).catch(error => {
-        console.error('Failed to send audio data:', error);
-      });
-    }
+    // Blobs are read one after another so chunks keep their order
+    this.pendingAudio = this.pendingAudio
+      .then(() => data.arrayBuffer())
+      .then(buffer => this.queueAudio(new Uint8Array(buffer)))
+      .catch(error => console.error('Failed to send audio data:', error));
   }
   
-  private sendMessage(message: any): void {
+  private sendMessage(message: ClientMessage): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
     }
@@ -387,6 +1095,11 @@ export class AudioStreamClient extends EventEmitter<ClientEvents> {
     return this.recordingState;
   }
   
+  // Format accepted by the server for the current or last recording
+  getAudioFormat(): AudioFormat | null {
+    return this.audioFormat;
+  }
+  
   isConnected(): boolean {
     return this.connectionState === ConnectionState.CONNECTED;
   }
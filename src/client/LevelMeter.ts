@@ -0,0 +1,110 @@
+// ABOUTME: Measures microphone input level with an AnalyserNode for meters and "are you muted?" hints
+// ABOUTME: Reports RMS, peak and clipping at a fixed interval and flags input that stays silent too long
+
+import { AudioLevel, LevelMeteringOptions, SilenceWarning } from '../common/types';
+
+export interface LevelMeterOptions extends LevelMeteringOptions {
+  getSourceTrack?: () => MediaStreamTrack | null; // Device track to check for mute when metering a routed stream
+  onLevel: (level: AudioLevel) => void;
+  onSilence: (warning: SilenceWarning) => void;
+}
+
+const CLIPPING_LEVEL = 0.99;
+
+export class LevelMeter {
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array<ArrayBuffer> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private track: MediaStreamTrack | null = null;
+  private silentSince: number | null = null;
+  private warnedMuted: boolean | null = null; // null until the current silence was reported
+  
+  constructor(private options: LevelMeterOptions) {}
+  
+  async start(mediaStream: MediaStream): Promise<void> {
+    const audioContext = new AudioContext();
+    this.audioContext = audioContext;
+    this.track = mediaStream.getAudioTracks()[0] || null;
+    
+    this.source = audioContext.createMediaStreamSource(mediaStream);
+    this.analyser = audioContext.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.source.connect(this.analyser);
+    
+    // Contexts created before a user gesture start suspended
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+    
+    this.silentSince = null;
+    this.warnedMuted = null;
+    this.timer = setInterval(() => this.measure(), this.options.intervalMs ?? 100);
+  }
+  
+  // Silence while paused is expected, so the silence timer starts over on resume
+  resetSilence(): void {
+    this.silentSince = null;
+    this.warnedMuted = null;
+  }
+  
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    
+    this.source?.disconnect();
+    this.source = null;
+    this.analyser = null;
+    this.samples = null;
+    this.track = null;
+    
+    await this.audioContext?.close().catch(() => undefined);
+    this.audioContext = null;
+  }
+  
+  private measure(): void {
+    if (!this.analyser || !this.samples) return;
+    
+    this.analyser.getFloatTimeDomainData(this.samples);
+    
+    let sumSquares = 0;
+    let peak = 0;
+    for (const sample of this.samples) {
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    const rms = Math.sqrt(sumSquares / this.samples.length);
+    
+    const now = Date.now();
+    const track = this.options.getSourceTrack?.() ?? this.track;
+    const muted = !!track && (track.muted || !track.enabled);
+    if (rms >= (this.options.silenceThreshold ?? 0.003) && !muted) {
+      this.silentSince = null;
+      this.warnedMuted = null;
+    } else if (this.silentSince === null) {
+      this.silentSince = now;
+    }
+    
+    const silentFor = this.silentSince === null ? 0 : now - this.silentSince;
+    const silent = silentFor >= (this.options.silenceTimeoutMs ?? 3000);
+    
+    this.options.onLevel({
+      rms,
+      peak,
+      db: rms > 0 ? 20 * Math.log10(rms) : -Infinity,
+      clipping: peak >= CLIPPING_LEVEL,
+      silent,
+      timestamp: now
+    });
+    
+    // Warn once per silence, and again if the track turns out to be muted
+    if (silent && (this.warnedMuted === null || (muted && !this.warnedMuted))) {
+      this.warnedMuted = muted;
+      this.options.onSilence({ durationMs: silentFor, muted, timestamp: now });
+    }
+  }
+}
@@ -0,0 +1,118 @@
+// ABOUTME: Microphone capture through an AudioWorklet producing linear16 mono frames
+// ABOUTME: Downmixes, resamples to the target rate and cuts fixed-duration frames off the audio thread
+
+import { createPcmFramer } from './pcmFramer';
+
+export interface PcmCaptureOptions {
+  sampleRate: number; // Output rate, e.g. 16000
+  frameDurationMs: number;
+  onFrame: (frame: ArrayBuffer) => void;
+}
+
+// Runs in the AudioWorkletGlobalScope, where `sampleRate` is the context's rate
+const WORKLET_SOURCE = `
+const createPcmFramer = ${createPcmFramer.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSamples } = options.processorOptions;
+    this.framer = createPcmFramer(sampleRate, targetSampleRate, frameSamples, (frame) => {
+      this.port.postMessage(frame.buffer, [frame.buffer]);
+    });
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') {
+        this.framer.flush();
+        this.port.postMessage('flushed');
+      }
+    };
+  }
+  
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) this.framer.process(input);
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export class PcmCapture {
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | null = null;
+  private flushed: (() => void) | null = null;
+  
+  constructor(private options: PcmCaptureOptions) {}
+  
+  async start(mediaStream: MediaStream): Promise<void> {
+    const audioContext = new AudioContext();
+    this.audioContext = audioContext;
+    
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await audioContext.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+    
+    this.source = audioContext.createMediaStreamSource(mediaStream);
+    this.node = new AudioWorkletNode(audioContext, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions: {
+        targetSampleRate: this.options.sampleRate,
+        frameSamples: Math.round(this.options.sampleRate * this.options.frameDurationMs / 1000)
+      }
+    });
+    
+    this.node.port.onmessage = (event) => {
+      if (event.data === 'flushed') {
+        this.flushed?.();
+      } else {
+        this.options.onFrame(event.data as ArrayBuffer);
+      }
+    };
+    
+    this.source.connect(this.node);
+    
+    // Contexts created before a user gesture start suspended
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+  }
+  
+  async pause(): Promise<void> {
+    await this.audioContext?.suspend();
+  }
+  
+  async resume(): Promise<void> {
+    await this.audioContext?.resume();
+  }
+  
+  // Emits the partially filled frame, then tears the graph down
+  async stop(): Promise<void> {
+    const node = this.node;
+    if (node && this.audioContext?.state === 'running') {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, 250);
+        this.flushed = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        node.port.postMessage('flush');
+      });
+    }
+    
+    this.flushed = null;
+    this.source?.disconnect();
+    node?.disconnect();
+    if (node) node.port.onmessage = null;
+    this.source = null;
+    this.node = null;
+    
+    await this.audioContext?.close().catch(() => undefined);
+    this.audioContext = null;
+  }
+}
@@ -2,12 +2,40 @@
 // ABOUTME: Provides access to browser-based audio recording and streaming
 
 export { AudioStreamClient } from './AudioStreamClient';
+export { splitBySpeaker, findWordAt } from '../common/transcript';
+export {
+  exportTranscript,
+  toSrt,
+  toWebVtt,
+  toTranscriptJson,
+  toPlainText,
+  buildCaptionCues
+} from '../common/transcriptExport';
+export type { TranscriptExportFormat, TranscriptExportOptions, CaptionCue } from '../common/transcriptExport';
+export { PROTOCOL_VERSION, ProtocolError, parseServerMessage } from '../common/protocol';
+export type { ClientMessage, ServerMessage, ProtocolErrorCode, ProtocolFeature } from '../common/protocol';
 
 // Re-export common types needed by clients
 export {
   ConnectionState,
   RecordingState,
   TranscriptionResult,
+  TranscriptionWord,
+  SpeechEvent,
+  AudioLevel,
+  AudioInputDevice,
+  RecordingSource,
+  SilenceWarning,
+  LevelMeteringOptions,
+  OfflineBufferOptions,
+  AudioDroppedEvent,
+  SessionResumedEvent,
+  ClientFlowControlOptions,
+  ClientFlowStats,
+  BackpressureEvent,
+  BackpressurePolicy,
+  AudioFormat,
+  CaptureMode,
   ClientOptions,
   ClientEvents
 } from '../common/types';
\ No newline at end of file
@@ -0,0 +1,71 @@
+// ABOUTME: Tests for the PCM framer the capture worklet runs: frame sizes when resampling, clamping and flushing
+// ABOUTME: Feeds 128-sample render quanta like an AudioWorklet does
+
+import { createPcmFramer } from './pcmFramer';
+
+const QUANTUM = 128;
+
+function capture(inputSampleRate: number, frameSamples: number) {
+  const frames: Int16Array[] = [];
+  const framer = createPcmFramer(inputSampleRate, 16000, frameSamples, frame => frames.push(frame));
+  return { framer, frames };
+}
+
+// Feeds `seconds` of a constant level in render quanta, with the same samples on every channel
+function feed(framer: ReturnType<typeof createPcmFramer>, inputSampleRate: number, seconds: number, level = 0.5, channels = 1) {
+  const total = Math.round(inputSampleRate * seconds);
+  for (let offset = 0; offset < total; offset += QUANTUM) {
+    const length = Math.min(QUANTUM, total - offset);
+    framer.process(Array.from({ length: channels }, () => new Float32Array(length).fill(level)));
+  }
+}
+
+describe('createPcmFramer', () => {
+  it.each([48000, 44100])('cuts %i Hz input into full 20 ms frames at 16 kHz', inputSampleRate => {
+    const { framer, frames } = capture(inputSampleRate, 320);
+    feed(framer, inputSampleRate, 1);
+    framer.flush();
+    
+    const samples = frames.reduce((total, frame) => total + frame.length, 0);
+    expect(Math.abs(samples - 16000)).toBeLessThanOrEqual(1);
+    expect(frames.slice(0, 49).every(frame => frame.length === 320)).toBe(true);
+    expect(frames.length).toBeLessThanOrEqual(51);
+  });
+  
+  it('averages channels into one and scales to 16-bit', () => {
+    const { framer, frames } = capture(48000, 4);
+    framer.process([new Float32Array(12).fill(0.5), new Float32Array(12).fill(-0.5)]);
+    framer.process([new Float32Array(12).fill(1)]);
+    
+    expect(Array.from(frames[0])).toEqual([0, 0, 0, 0]);
+    expect(Array.from(frames[1])).toEqual([32767, 32767, 32767, 32767]);
+  });
+  
+  it('clamps samples outside -1..1', () => {
+    const { framer, frames } = capture(16000, 2);
+    framer.process([new Float32Array([2, -3])]);
+    
+    expect(Array.from(frames[0])).toEqual([32767, -32768]);
+  });
+  
+  it('emits the partial frame on flush, and nothing when it is empty', () => {
+    const { framer, frames } = capture(48000, 320);
+    feed(framer, 48000, 0.01); // 160 output samples
+    expect(frames).toHaveLength(0);
+    
+    framer.flush();
+    framer.flush();
+    expect(frames.map(frame => frame.length)).toEqual([160]);
+    expect(frames[0][0]).toBe(Math.trunc(0.5 * 0x7fff));
+  });
+  
+  it('works from its source text alone, as the worklet loads it', () => {
+    const rebuilt = new Function(`return ${createPcmFramer.toString()}`)() as typeof createPcmFramer;
+    const frames: Int16Array[] = [];
+    const framer = rebuilt(48000, 16000, 160, frame => frames.push(frame));
+    
+    framer.process([new Float32Array(480).fill(-1)]);
+    expect(frames.map(frame => frame.length)).toEqual([160]);
+    expect(frames[0][0]).toBe(-32768);
+  });
+});
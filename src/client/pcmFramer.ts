@@ -0,0 +1,57 @@
+// ABOUTME: Downmixes, resamples and cuts captured audio into fixed-size linear16 frames
+// ABOUTME: Self-contained so PcmCapture can run it inside its AudioWorklet from the function's source text
+
+export interface PcmFramer {
+  process(channels: Float32Array[]): void; // One render quantum, one array per input channel
+  flush(): void; // Emits the partially filled frame
+}
+
+// Each output sample averages the input samples it covers, which also acts as a simple low-pass when downsampling.
+// Must not reference anything outside its body: the worklet gets it through toString().
+export function createPcmFramer(
+  inputSampleRate: number,
+  targetSampleRate: number,
+  frameSamples: number,
+  onFrame: (frame: Int16Array) => void
+): PcmFramer {
+  const ratio = inputSampleRate / targetSampleRate;
+  const frame = new Int16Array(frameSamples);
+  let frameLength = 0;
+  let position = 0;
+  let sum = 0;
+  let count = 0;
+  let last = 0;
+  
+  const flush = () => {
+    if (frameLength === 0) return;
+    onFrame(frame.slice(0, frameLength));
+    frameLength = 0;
+  };
+  
+  const process = (channels: Float32Array[]) => {
+    if (channels.length === 0) return;
+    
+    const length = channels[0].length;
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) sample += channels[c][i];
+      sum += sample / channels.length;
+      count++;
+      position++;
+      
+      while (position >= ratio) {
+        position -= ratio;
+        if (count > 0) {
+          last = sum / count;
+          sum = 0;
+          count = 0;
+        }
+        const clamped = Math.max(-1, Math.min(1, last));
+        frame[frameLength++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+        if (frameLength === frame.length) flush();
+      }
+    }
+  };
+  
+  return { process, flush };
+}
@@ -0,0 +1,95 @@
+// ABOUTME: Tests for audio format normalization and negotiation against provider capabilities
+
+import {
+  isContainerFormat,
+  isLinearPcm,
+  negotiateAudioFormat,
+  normalizeAudioFormat,
+  parseMimeType,
+  sameAudioFormat
+} from './audioFormat';
+
+describe('parseMimeType', () => {
+  it('splits the base type from the codecs parameter', () => {
+    expect(parseMimeType('Audio/WebM; codecs="Opus"')).toEqual({ baseType: 'audio/webm', codecs: 'opus' });
+    expect(parseMimeType('audio/wav')).toEqual({ baseType: 'audio/wav' });
+  });
+});
+
+describe('normalizeAudioFormat', () => {
+  it('takes the encoding from the codecs parameter', () => {
+    expect(normalizeAudioFormat({ mimeType: 'audio/webm;codecs=opus' })).toEqual({
+      mimeType: 'audio/webm;codecs=opus',
+      encoding: 'opus'
+    });
+  });
+  
+  it('fills in linear PCM defaults', () => {
+    expect(normalizeAudioFormat({ mimeType: 'audio/pcm', sampleRate: 16000 })).toEqual({
+      mimeType: 'audio/pcm',
+      sampleRate: 16000,
+      encoding: 'linear16',
+      channels: 1,
+      bitDepth: 16
+    });
+  });
+  
+  it('defaults to WebM when no mime type is given', () => {
+    expect(normalizeAudioFormat({}).mimeType).toBe('audio/webm');
+  });
+});
+
+describe('format predicates', () => {
+  it('recognizes linear PCM and containers', () => {
+    expect(isLinearPcm({ mimeType: 'audio/l16' })).toBe(true);
+    expect(isLinearPcm({ mimeType: 'audio/wav', encoding: 'linear16' })).toBe(true);
+    expect(isLinearPcm({ mimeType: 'audio/webm' })).toBe(false);
+    expect(isContainerFormat({ mimeType: 'audio/ogg;codecs=opus' })).toBe(true);
+    expect(isContainerFormat({ mimeType: 'audio/pcm' })).toBe(false);
+  });
+  
+  it('compares formats on base type and stream parameters', () => {
+    const pcm = normalizeAudioFormat({ mimeType: 'audio/pcm', sampleRate: 16000 });
+    expect(sameAudioFormat(pcm, normalizeAudioFormat({ mimeType: 'audio/PCM', sampleRate: 16000 }))).toBe(true);
+    expect(sameAudioFormat(pcm, normalizeAudioFormat({ mimeType: 'audio/pcm', sampleRate: 48000 }))).toBe(false);
+  });
+});
+
+describe('negotiateAudioFormat', () => {
+  const capabilities = {
+    formats: [
+      { mimeType: 'audio/webm', encodings: ['opus'] },
+      { mimeType: 'audio/pcm', sampleRates: [16000], channels: [1] }
+    ]
+  };
+  
+  it('accepts anything when no capabilities are declared', () => {
+    expect(negotiateAudioFormat({ mimeType: 'audio/flac' })).toEqual({
+      accepted: true,
+      format: { mimeType: 'audio/flac' }
+    });
+  });
+  
+  it('accepts a format matching any declared entry', () => {
+    const result = negotiateAudioFormat({ mimeType: 'audio/pcm', sampleRate: 16000 }, capabilities);
+    expect(result.accepted).toBe(true);
+  });
+  
+  it('prefers the reason from the entry with the same mime type', () => {
+    expect(negotiateAudioFormat({ mimeType: 'audio/pcm', sampleRate: 44100 }, capabilities)).toEqual({
+      accepted: false,
+      reason: 'sample rate 44100 is not supported for audio/pcm'
+    });
+    expect(negotiateAudioFormat({ mimeType: 'audio/mpeg' }, capabilities)).toEqual({
+      accepted: false,
+      reason: 'mime type audio/mpeg is not supported'
+    });
+  });
+  
+  it('requires a sample rate for linear PCM', () => {
+    expect(negotiateAudioFormat({ mimeType: 'audio/pcm' })).toEqual({
+      accepted: false,
+      reason: 'Linear PCM audio requires a sample rate'
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// ABOUTME: Audio format helpers shared by the client, server and providers
+// ABOUTME: Normalizes announced formats and matches them against a provider's declared capabilities
+
+import { AudioFormat, AudioFormatSupport, ProviderCapabilities } from './types';
+
+export type AudioFormatNegotiation =
+  | { accepted: true; format: AudioFormat }
+  | { accepted: false; reason: string };
+
+// 'audio/webm;codecs=opus' -> { baseType: 'audio/webm', codecs: 'opus' }
+export function parseMimeType(mimeType: string): { baseType: string; codecs?: string } {
+  const [baseType, ...params] = mimeType.split(';').map(part => part.trim());
+  const codecs = params
+    .map(param => param.match(/^codecs="?([^"]*)"?$/i)?.[1])
+    .find((value): value is string => Boolean(value));
+  
+  return { baseType: baseType.toLowerCase(), ...(codecs && { codecs: codecs.toLowerCase() }) };
+}
+
+export function isLinearPcm(format: Partial<AudioFormat>): boolean {
+  const { baseType } = parseMimeType(format.mimeType || '');
+  return baseType === 'audio/pcm' || baseType === 'audio/l16' || format.encoding === 'linear16';
+}
+
+// Container formats carry their header in the first chunk of a recording
+export function isContainerFormat(format: Partial<AudioFormat>): boolean {
+  const { baseType } = parseMimeType(format.mimeType || '');
+  return /webm|ogg|mp4/.test(baseType);
+}
+
+// Whether two normalized formats describe the same audio stream
+export function sameAudioFormat(a: AudioFormat, b: AudioFormat): boolean {
+  return parseMimeType(a.mimeType).baseType === parseMimeType(b.mimeType).baseType &&
+    a.encoding === b.encoding &&
+    a.sampleRate === b.sampleRate &&
+    a.channels === b.channels &&
+    a.bitDepth === b.bitDepth;
+}
+
+// Fills in what can be derived from the announced format: encoding from the codecs parameter, PCM defaults
+export function normalizeAudioFormat(format: Partial<AudioFormat>): AudioFormat {
+  const mimeType = format.mimeType || 'audio/webm';
+  const { codecs } = parseMimeType(mimeType);
+  
+  if (isLinearPcm({ ...format, mimeType })) {
+    return {
+      ...format,
+      mimeType,
+      encoding: 'linear16',
+      channels: format.channels ?? 1,
+      bitDepth: format.bitDepth ?? 16
+    };
+  }
+  
+  return {
+    ...format,
+    mimeType,
+    ...(format.encoding || codecs ? { encoding: format.encoding || codecs } : {})
+  };
+}
+
+function matchesSupport(format: AudioFormat, support: AudioFormatSupport): string | null {
+  if (parseMimeType(support.mimeType).baseType !== parseMimeType(format.mimeType).baseType) {
+    return `mime type ${format.mimeType} is not supported`;
+  }
+  if (support.encodings && format.encoding && !support.encodings.includes(format.encoding)) {
+    return `encoding ${format.encoding} is not supported for ${support.mimeType}`;
+  }
+  if (support.sampleRates && format.sampleRate && !support.sampleRates.includes(format.sampleRate)) {
+    return `sample rate ${format.sampleRate} is not supported for ${support.mimeType}`;
+  }
+  if (support.channels && format.channels && !support.channels.includes(format.channels)) {
+    return `${format.channels} channel audio is not supported for ${support.mimeType}`;
+  }
+  return null;
+}
+
+// Accepts the format when no capabilities are declared or when any declared format matches it
+export function negotiateAudioFormat(
+  requested: Partial<AudioFormat>,
+  capabilities?: ProviderCapabilities
+): AudioFormatNegotiation {
+  const format = normalizeAudioFormat(requested);
+  
+  if (isLinearPcm(format) && !format.sampleRate) {
+    return { accepted: false, reason: 'Linear PCM audio requires a sample rate' };
+  }
+  
+  const supported = capabilities?.formats;
+  if (!supported || supported.length === 0) {
+    return { accepted: true, format };
+  }
+  
+  const mismatches: string[] = [];
+  for (const support of supported) {
+    const mismatch = matchesSupport(format, support);
+    if (!mismatch) return { accepted: true, format };
+    mismatches.push(mismatch);
+  }
+  
+  // Prefer the reason from an entry with the same mime type
+  const specific = mismatches.find(reason => !reason.startsWith('mime type'));
+  return { accepted: false, reason: specific || mismatches[0] };
+}
+
+export function supportsAudioFormat(capabilities: ProviderCapabilities | undefined, format: Partial<AudioFormat>): boolean {
+  return negotiateAudioFormat(format, capabilities).accepted;
+}
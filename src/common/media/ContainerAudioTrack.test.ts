@@ -0,0 +1,91 @@
+// ABOUTME: Tests for the per-session container audio timeline
+// ABOUTME: Uses small hand-built Ogg/Opus streams; the demuxers themselves are covered next to their modules
+
+import { ContainerAudioTrack, containerHeader, detectContainer } from './ContainerAudioTrack';
+import { OggDemuxer } from './OggDemuxer';
+
+function page(packet: Buffer, flags = 0, granule = 0): Buffer {
+  const header = Buffer.alloc(28);
+  header.write('OggS', 0, 'latin1');
+  header[5] = flags;
+  header.writeBigInt64LE(BigInt(granule), 6);
+  header[26] = 1;
+  header[27] = packet.length;
+  return Buffer.concat([header, packet]);
+}
+
+function oggStream(packets: number): Buffer {
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[9] = 1;
+  return Buffer.concat([
+    page(head, 0x02),
+    page(Buffer.from('OpusTags')),
+    ...Array.from({ length: packets }, (_, i) => page(Buffer.from([0x08, i]), 0, (i + 1) * 960))
+  ]);
+}
+
+describe('detectContainer', () => {
+  it('recognizes WebM and Ogg headers', () => {
+    expect(detectContainer(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f]))).toBe('webm');
+    expect(detectContainer(Buffer.from('OggS\0'))).toBe('ogg');
+    expect(detectContainer(Buffer.from('RIFF'))).toBeNull();
+    expect(detectContainer(Buffer.from('Og'))).toBeNull();
+  });
+});
+
+describe('containerHeader', () => {
+  it('cuts the Ogg header pages off the first chunk', () => {
+    const stream = oggStream(2);
+    const headerLength = 28 + 19 + 28 + 8;
+    
+    expect(containerHeader(stream)).toEqual(stream.subarray(0, headerLength));
+    expect(containerHeader(stream.subarray(0, headerLength))).toEqual(stream.subarray(0, headerLength));
+    expect(containerHeader(stream.subarray(0, 40))).toBeNull();
+  });
+  
+  it('returns null for other audio', () => {
+    expect(containerHeader(Buffer.from('RIFF....WAVE'))).toBeNull();
+  });
+});
+
+describe('ContainerAudioTrack', () => {
+  it('ignores data until a container header arrives', () => {
+    const track = new ContainerAudioTrack();
+    
+    expect(track.push(Buffer.from('not a header'))).toEqual([]);
+    expect(track.container).toBeNull();
+  });
+  
+  it('builds a session timeline and extracts time ranges as standalone files', () => {
+    const track = new ContainerAudioTrack();
+    track.push(oggStream(5));
+    
+    expect(track.container).toBe('ogg');
+    expect(track.duration).toBe(100);
+    expect(track.getFrames(30, 70).map(frame => frame.timestamp)).toEqual([20, 40, 60]);
+    
+    const reread = new OggDemuxer().push(track.extract(30, 70)!);
+    expect(reread.map(frame => frame.data[1])).toEqual([1, 2, 3]);
+    expect(track.extract(500)).toBeNull();
+  });
+  
+  it('continues the timeline across restarted recordings and keeps each file to one recording', () => {
+    const track = new ContainerAudioTrack();
+    track.push(oggStream(2));
+    const second = track.push(oggStream(2));
+    
+    expect(second.map(frame => frame.timestamp)).toEqual([40, 60]);
+    expect(track.duration).toBe(80);
+    
+    const reread = new OggDemuxer().push(track.extract(20, 80)!);
+    expect(reread.map(frame => frame.data[1])).toEqual([1]);
+  });
+  
+  it('drops frames older than retainMs', () => {
+    const track = new ContainerAudioTrack({ retainMs: 50 });
+    track.push(oggStream(5));
+    
+    expect(track.getFrames().map(frame => frame.timestamp)).toEqual([60, 80]);
+  });
+});
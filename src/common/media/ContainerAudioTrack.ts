@@ -0,0 +1,105 @@
+// ABOUTME: Per-session timeline of demuxed container audio
+// ABOUTME: Detects WebM or Ogg from the stream header, retains recent frames and cuts standalone files out of any time range
+
+import { ContainerDemuxer, ContainerType, MediaFrame } from './types';
+import { WebmDemuxer, webmHeader } from './WebmDemuxer';
+import { OggDemuxer, oggHeader } from './OggDemuxer';
+
+export interface ContainerAudioTrackOptions {
+  retainMs?: number; // Frames older than this are dropped (default 5 minutes)
+}
+
+interface FrameSource {
+  demuxer: ContainerDemuxer;
+  frame: MediaFrame; // The demuxer's own frame, which it needs to find the matching init segment
+}
+
+export function detectContainer(chunk: Buffer): ContainerType | null {
+  if (chunk.length < 4) return null;
+  if (chunk.readUInt32BE(0) === 0x1a45dfa3) return 'webm';
+  if (chunk.toString('latin1', 0, 4) === 'OggS') return 'ogg';
+  return null;
+}
+
+// The part of a stream's first chunk that a decoder needs before any audio, or null when it cannot be found
+export function containerHeader(chunk: Buffer): Buffer | null {
+  const container = detectContainer(chunk);
+  if (container === 'webm') return webmHeader(chunk);
+  if (container === 'ogg') return oggHeader(chunk);
+  return null;
+}
+
+export function createDemuxer(container: ContainerType): ContainerDemuxer {
+  return container === 'webm' ? new WebmDemuxer() : new OggDemuxer();
+}
+
+export class ContainerAudioTrack {
+  private demuxer: ContainerDemuxer | null = null;
+  private frames: MediaFrame[] = [];
+  private sources: WeakMap<MediaFrame, FrameSource> = new WeakMap();
+  private timeBase = 0; // Session time where the current demuxer's stream starts
+  private end = 0;
+  
+  constructor(private options: ContainerAudioTrackOptions = {}) {}
+  
+  get container(): ContainerType | null {
+    return this.demuxer?.container ?? null;
+  }
+  
+  // Session audio covered by the frames seen so far, in ms
+  get duration(): number {
+    return this.end;
+  }
+  
+  // Returns the chunk's frames on the session timeline. Data before the first header cannot be parsed and is ignored.
+  push(chunk: Buffer): MediaFrame[] {
+    const detected = detectContainer(chunk);
+    if (detected && detected !== this.demuxer?.container) {
+      this.demuxer = createDemuxer(detected);
+      this.timeBase = this.end;
+    }
+    
+    const demuxer = this.demuxer;
+    if (!demuxer) return [];
+    
+    const frames = demuxer.push(chunk).map(source => {
+      const frame = { ...source, timestamp: source.timestamp + this.timeBase };
+      this.sources.set(frame, { demuxer, frame: source });
+      return frame;
+    });
+    
+    for (const frame of frames) {
+      this.frames.push(frame);
+      this.end = Math.max(this.end, frame.timestamp + frame.duration);
+    }
+    
+    const retainMs = this.options.retainMs ?? 300000;
+    while (this.frames.length > 0 && this.end - this.frames[0].timestamp > retainMs) {
+      this.frames.shift();
+    }
+    
+    return frames;
+  }
+  
+  getFrames(startMs = 0, endMs = Infinity): MediaFrame[] {
+    return this.frames.filter(frame => frame.timestamp + frame.duration > startMs && frame.timestamp < endMs);
+  }
+  
+  // Standalone file for frames returned by push; frames from a different recording than the first are left out
+  wrap(frames: MediaFrame[]): Buffer | null {
+    if (frames.length === 0) return null;
+    
+    const owner = this.sources.get(frames[0])?.demuxer;
+    if (!owner) return null;
+    
+    const own = frames
+      .map(frame => this.sources.get(frame))
+      .filter((source): source is FrameSource => source?.demuxer === owner)
+      .map(source => source.frame);
+    return owner.mux(own);
+  }
+  
+  extract(startMs?: number, endMs?: number): Buffer | null {
+    return this.wrap(this.getFrames(startMs, endMs));
+  }
+}
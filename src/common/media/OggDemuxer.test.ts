@@ -0,0 +1,122 @@
+// ABOUTME: Tests for the incremental Ogg/Opus demuxer
+// ABOUTME: Builds Ogg pages by hand, including packets continued across pages and a restarted stream
+
+import { OggDemuxer } from './OggDemuxer';
+
+const OPUS_20MS = 0x08;
+
+function rawPage(lacing: number[], body: Buffer, flags = 0, serial = 1): Buffer {
+  const header = Buffer.alloc(27);
+  header.write('OggS', 0, 'latin1');
+  header[5] = flags;
+  header.writeUInt32LE(serial, 14);
+  header[26] = lacing.length;
+  return Buffer.concat([header, Buffer.from(lacing), body]);
+}
+
+function page(packets: Buffer[], flags = 0, serial = 1): Buffer {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+  return rawPage(lacing, Buffer.concat(packets), flags, serial);
+}
+
+function opusHead(preSkip = 0): Buffer {
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[8] = 1;
+  head[9] = 2;
+  head.writeUInt16LE(preSkip, 10);
+  head.writeUInt32LE(48000, 12);
+  return head;
+}
+
+function headerPages(preSkip = 0, serial = 1): Buffer {
+  return Buffer.concat([page([opusHead(preSkip)], 0x02, serial), page([Buffer.from('OpusTags')], 0, serial)]);
+}
+
+function packet(marker: number, length = 2): Buffer {
+  const data = Buffer.alloc(length, marker);
+  data[0] = OPUS_20MS;
+  return data;
+}
+
+describe('OggDemuxer', () => {
+  it('reads OpusHead and times packets from their TOC', () => {
+    const demuxer = new OggDemuxer();
+    expect(demuxer.push(headerPages())).toEqual([]);
+    expect(demuxer.track).toEqual({ codec: 'opus', sampleRate: 48000, channels: 2 });
+    
+    const frames = demuxer.push(page([packet(1), packet(2), packet(3)]));
+    expect(frames.map(frame => [frame.timestamp, frame.duration])).toEqual([[0, 20], [20, 20], [40, 20]]);
+  });
+  
+  it('subtracts the pre-skip from timestamps', () => {
+    const demuxer = new OggDemuxer();
+    demuxer.push(headerPages(480));
+    
+    expect(demuxer.push(page([packet(1), packet(2)])).map(frame => frame.timestamp)).toEqual([0, 10]);
+  });
+  
+  it('reassembles packets continued on the next page and pages split across chunks', () => {
+    const large = packet(7, 600);
+    // Two full lacing values leave the packet open at the end of the first page
+    const stream = Buffer.concat([
+      headerPages(),
+      rawPage([255, 255], large.subarray(0, 510)),
+      rawPage([90], large.subarray(510), 0x01)
+    ]);
+    
+    const demuxer = new OggDemuxer();
+    const frames = [];
+    for (let i = 0; i < stream.length; i += 50) {
+      frames.push(...demuxer.push(stream.subarray(i, i + 50)));
+    }
+    
+    expect(frames).toHaveLength(1);
+    expect(frames[0].data).toEqual(large);
+  });
+  
+  it('continues the timeline on a new logical stream', () => {
+    const demuxer = new OggDemuxer();
+    demuxer.push(Buffer.concat([headerPages(), page([packet(1), packet(2)])]));
+    const frames = demuxer.push(Buffer.concat([headerPages(0, 2), page([packet(3)], 0, 2)]));
+    
+    expect(frames.map(frame => frame.timestamp)).toEqual([40]);
+  });
+  
+  it('skips garbage before a page', () => {
+    const demuxer = new OggDemuxer();
+    demuxer.push(Buffer.concat([Buffer.from('garbage'), headerPages()]));
+    
+    expect(demuxer.track?.codec).toBe('opus');
+  });
+  
+  it('re-wraps packets into a standalone Ogg file', () => {
+    const demuxer = new OggDemuxer();
+    demuxer.push(headerPages());
+    const frames = demuxer.push(page([packet(1), packet(2), packet(3)]));
+    
+    const reader = new OggDemuxer();
+    const reread = reader.push(demuxer.mux(frames.slice(1)));
+    
+    expect(reader.track?.channels).toBe(2);
+    expect(reread.map(frame => frame.timestamp)).toEqual([0, 20]);
+    expect(reread.map(frame => frame.data)).toEqual([packet(2), packet(3)]);
+  });
+  
+  it('produces no frames for codecs other than Opus', () => {
+    const demuxer = new OggDemuxer();
+    demuxer.push(Buffer.concat([page([Buffer.from('\x01vorbis')], 0x02), page([Buffer.from('\x03vorbis')])]));
+    
+    expect(demuxer.track?.codec).toBe('unknown');
+    expect(demuxer.push(page([packet(1)]))).toEqual([]);
+    expect(() => demuxer.mux([])).toThrow('Ogg Opus headers have not been received');
+  });
+});
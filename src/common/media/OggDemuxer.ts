@@ -0,0 +1,232 @@
+// ABOUTME: Incremental Ogg/Opus demuxer for MediaRecorder audio streams
+// ABOUTME: Reassembles packets across pages, times them from the Opus TOC and re-wraps packets into standalone Ogg files
+
+import { opusPacketSamples, OPUS_SAMPLE_RATE } from './opus';
+import { AudioTrackInfo, ContainerDemuxer, MediaFrame } from './types';
+
+const CAPTURE_PATTERN = Buffer.from('OggS', 'latin1');
+const PAGE_HEADER_SIZE = 27;
+const FLAG_CONTINUED = 0x01;
+const FLAG_BOS = 0x02;
+const FLAG_EOS = 0x04;
+const SAMPLES_PER_MS = OPUS_SAMPLE_RATE / 1000;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(page: Buffer): number {
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) & 0xff) ^ byte]) >>> 0;
+  }
+  return crc;
+}
+
+function buildPage(packets: Buffer[], granule: number, serial: number, sequence: number, flags: number): Buffer {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+  
+  const header = Buffer.alloc(PAGE_HEADER_SIZE + lacing.length);
+  CAPTURE_PATTERN.copy(header, 0);
+  header[4] = 0; // Version
+  header[5] = flags;
+  header.writeBigInt64LE(BigInt(granule), 6);
+  header.writeUInt32LE(serial, 14);
+  header.writeUInt32LE(sequence, 18);
+  header[26] = lacing.length;
+  Buffer.from(lacing).copy(header, PAGE_HEADER_SIZE);
+  
+  const page = Buffer.concat([header, ...packets]);
+  page.writeUInt32LE(oggCrc(page), 22);
+  return page;
+}
+
+function laceCount(packet: Buffer): number {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+// Header pages at the start of a stream's first chunk; Opus header pages have granule position 0 and audio pages do not.
+// Returns null when the chunk does not start with complete Ogg pages.
+export function oggHeader(chunk: Buffer): Buffer | null {
+  let offset = 0;
+  while (offset < chunk.length) {
+    if (chunk.length - offset < PAGE_HEADER_SIZE || !chunk.subarray(offset, offset + 4).equals(CAPTURE_PATTERN)) {
+      return null;
+    }
+    if (chunk.readBigInt64LE(offset + 6) !== BigInt(0)) break;
+    
+    const segmentCount = chunk[offset + 26];
+    const lacing = chunk.subarray(offset + PAGE_HEADER_SIZE, offset + PAGE_HEADER_SIZE + segmentCount);
+    offset += PAGE_HEADER_SIZE + segmentCount + lacing.reduce((sum, value) => sum + value, 0);
+  }
+  
+  return offset > 0 && offset <= chunk.length ? chunk.subarray(0, offset) : null;
+}
+
+interface OggInit {
+  headers: Buffer[]; // OpusHead and OpusTags
+  serial: number;
+  preSkip: number;
+  track: AudioTrackInfo;
+}
+
+export class OggDemuxer implements ContainerDemuxer {
+  readonly container = 'ogg' as const;
+  private buffer: Buffer = Buffer.alloc(0);
+  private init: OggInit | null = null;
+  private pendingHeaders: Buffer[] = [];
+  private partialPacket: Buffer[] = [];
+  private samples = 0; // 48 kHz samples decoded in the current stream
+  private timeBase = 0;
+  private lastEnd = 0;
+  private initOf: WeakMap<MediaFrame, OggInit> = new WeakMap();
+  
+  get track(): AudioTrackInfo | null {
+    return this.init?.track ?? null;
+  }
+  
+  push(chunk: Buffer): MediaFrame[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const frames: MediaFrame[] = [];
+    let offset = 0;
+    
+    while (this.buffer.length - offset >= PAGE_HEADER_SIZE) {
+      if (!this.buffer.subarray(offset, offset + 4).equals(CAPTURE_PATTERN)) {
+        // Resynchronize on the next page
+        const next = this.buffer.indexOf(CAPTURE_PATTERN, offset + 1);
+        offset = next === -1 ? this.buffer.length - 3 : next;
+        continue;
+      }
+      
+      const segmentCount = this.buffer[offset + 26];
+      const headerLength = PAGE_HEADER_SIZE + segmentCount;
+      if (this.buffer.length - offset < headerLength) break;
+      
+      const lacing = this.buffer.subarray(offset + PAGE_HEADER_SIZE, offset + headerLength);
+      const bodyLength = lacing.reduce((sum, value) => sum + value, 0);
+      if (this.buffer.length - offset < headerLength + bodyLength) break;
+      
+      const flags = this.buffer[offset + 5];
+      const serial = this.buffer.readUInt32LE(offset + 14);
+      this.handlePage(flags, serial, lacing, this.buffer.subarray(offset + headerLength, offset + headerLength + bodyLength), frames);
+      offset += headerLength + bodyLength;
+    }
+    
+    this.buffer = Buffer.from(this.buffer.subarray(Math.max(offset, 0)));
+    return frames;
+  }
+  
+  private handlePage(flags: number, serial: number, lacing: Buffer, body: Buffer, frames: MediaFrame[]): void {
+    if (flags & FLAG_BOS) {
+      // A new logical stream; after a restarted recording the timeline continues
+      if (this.init) {
+        this.timeBase = this.lastEnd;
+      }
+      this.init = null;
+      this.pendingHeaders = [];
+      this.samples = 0;
+    }
+    
+    if (!(flags & FLAG_CONTINUED)) {
+      this.partialPacket = [];
+    }
+    
+    let position = 0;
+    for (const value of lacing) {
+      this.partialPacket.push(body.subarray(position, position + value));
+      position += value;
+      
+      if (value < 255) {
+        const packet = Buffer.concat(this.partialPacket);
+        this.partialPacket = [];
+        this.handlePacket(packet, serial, frames);
+      }
+    }
+  }
+  
+  private handlePacket(packet: Buffer, serial: number, frames: MediaFrame[]): void {
+    if (!this.init) {
+      this.pendingHeaders.push(packet);
+      if (this.pendingHeaders.length < 2) return;
+      
+      const head = this.pendingHeaders[0];
+      if (head.length < 19 || head.toString('latin1', 0, 8) !== 'OpusHead') {
+        // Only Opus is supported; other codecs pass through without frames
+        this.init = { headers: this.pendingHeaders, serial, preSkip: 0, track: { codec: 'unknown' } };
+        return;
+      }
+      
+      this.init = {
+        headers: this.pendingHeaders,
+        serial,
+        preSkip: head.readUInt16LE(10),
+        track: {
+          codec: 'opus',
+          sampleRate: head.readUInt32LE(12) || OPUS_SAMPLE_RATE,
+          channels: head[9]
+        }
+      };
+      return;
+    }
+    
+    if (this.init.track.codec !== 'opus') return;
+    
+    const samples = opusPacketSamples(packet);
+    const timestamp = this.timeBase + Math.max(0, this.samples - this.init.preSkip) / SAMPLES_PER_MS;
+    this.samples += samples;
+    
+    const frame: MediaFrame = { timestamp, duration: samples / SAMPLES_PER_MS, data: Buffer.from(packet) };
+    this.initOf.set(frame, this.init);
+    this.lastEnd = Math.max(this.lastEnd, timestamp + frame.duration);
+    frames.push(frame);
+  }
+  
+  mux(frames: MediaFrame[]): Buffer {
+    const init = frames.length > 0 ? this.initOf.get(frames[0]) ?? this.init : this.init;
+    if (!init || init.track.codec !== 'opus') {
+      throw new Error('Ogg Opus headers have not been received');
+    }
+    
+    const usable = frames.filter(frame => (this.initOf.get(frame) ?? init) === init);
+    const pages: Buffer[] = [
+      buildPage([init.headers[0]], 0, init.serial, 0, FLAG_BOS),
+      buildPage([init.headers[1]], 0, init.serial, 1, 0)
+    ];
+    
+    let sequence = 2;
+    let granule = init.preSkip;
+    let packets: Buffer[] = [];
+    let segments = 0;
+    
+    for (const { data: packet } of usable) {
+      if (segments + laceCount(packet) > 255) {
+        pages.push(buildPage(packets, granule, init.serial, sequence++, 0));
+        packets = [];
+        segments = 0;
+      }
+      
+      packets.push(packet);
+      segments += laceCount(packet);
+      granule += opusPacketSamples(packet);
+    }
+    pages.push(buildPage(packets, granule, init.serial, sequence, FLAG_EOS));
+    
+    return Buffer.concat(pages);
+  }
+}
@@ -0,0 +1,119 @@
+// ABOUTME: Tests for the incremental WebM demuxer
+// ABOUTME: Builds MediaRecorder-style live streams (unknown-size Segment and Clusters) from the EBML helpers
+
+import { WebmDemuxer, webmHeader } from './WebmDemuxer';
+import { ebmlElement, ebmlFloat, ebmlString, ebmlUint, encodeId } from './ebml';
+
+const UNKNOWN_SIZE = Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+const OPUS_20MS = 0x08; // TOC byte: SILK, 20 ms, one frame
+
+function ebmlHeader(): Buffer {
+  return ebmlElement(0x1a45dfa3, [ebmlUint(0x4286, 1), ebmlString(0x4282, 'webm')]);
+}
+
+function tracks(codec = 'A_OPUS'): Buffer {
+  return ebmlElement(0x1654ae6b, ebmlElement(0xae, [
+    ebmlUint(0xd7, 1),
+    ebmlUint(0x83, 2),
+    ebmlString(0x86, codec),
+    ebmlElement(0xe1, [ebmlFloat(0xb5, 48000), ebmlUint(0x9f, 1)])
+  ]));
+}
+
+function cluster(timecode: number, blockTimes: number[], payload = (i: number) => i): Buffer {
+  const blocks = blockTimes.map((time, i) => {
+    const header = Buffer.alloc(3);
+    header.writeInt16BE(time, 0);
+    header[2] = 0x80;
+    return ebmlElement(0xa3, [Buffer.from([0x81]), header, Buffer.from([OPUS_20MS, payload(i)])]);
+  });
+  return Buffer.concat([encodeId(0x1f43b675), UNKNOWN_SIZE, ebmlUint(0xe7, timecode), ...blocks]);
+}
+
+// What a MediaRecorder emits for its first timeslice
+function initSegment(codec?: string): Buffer {
+  return Buffer.concat([
+    ebmlHeader(),
+    encodeId(0x18538067),
+    UNKNOWN_SIZE,
+    ebmlElement(0x1549a966, ebmlUint(0x2ad7b1, 1000000)),
+    tracks(codec)
+  ]);
+}
+
+describe('WebmDemuxer', () => {
+  it('reads the audio track and times blocks from their cluster', () => {
+    const demuxer = new WebmDemuxer();
+    expect(demuxer.push(initSegment())).toEqual([]);
+    expect(demuxer.track).toEqual({ codec: 'opus', sampleRate: 48000, channels: 1 });
+    
+    const frames = demuxer.push(Buffer.concat([cluster(0, [0, 20, 40]), cluster(1000, [0, 20])]));
+    expect(frames.map(frame => [frame.timestamp, frame.duration])).toEqual([
+      [0, 20], [20, 20], [40, 20], [1000, 20], [1020, 20]
+    ]);
+    expect(frames[1].data).toEqual(Buffer.from([OPUS_20MS, 1]));
+  });
+  
+  it('waits for elements split across chunks', () => {
+    const demuxer = new WebmDemuxer();
+    const stream = Buffer.concat([initSegment(), cluster(0, [0, 20, 40])]);
+    const frames = [];
+    for (let i = 0; i < stream.length; i += 7) {
+      frames.push(...demuxer.push(stream.subarray(i, i + 7)));
+    }
+    
+    expect(frames.map(frame => frame.timestamp)).toEqual([0, 20, 40]);
+  });
+  
+  it('continues the timeline when the recorder restarts with a new header', () => {
+    const demuxer = new WebmDemuxer();
+    demuxer.push(Buffer.concat([initSegment(), cluster(0, [0, 20])]));
+    const frames = demuxer.push(Buffer.concat([initSegment(), cluster(0, [0])]));
+    
+    expect(frames.map(frame => frame.timestamp)).toEqual([40]);
+  });
+  
+  it('uses a fixed duration for codecs it cannot time', () => {
+    const demuxer = new WebmDemuxer();
+    demuxer.push(initSegment('A_VORBIS'));
+    
+    expect(demuxer.track?.codec).toBe('vorbis');
+    expect(demuxer.push(cluster(0, [0]))[0].duration).toBe(20);
+  });
+  
+  it('re-wraps frames into a standalone file timed from the first frame', () => {
+    const demuxer = new WebmDemuxer();
+    demuxer.push(initSegment());
+    const frames = demuxer.push(cluster(5000, [0, 20, 40, 60]));
+    
+    const file = demuxer.mux(frames.slice(2));
+    const reader = new WebmDemuxer();
+    const reread = reader.push(file);
+    
+    expect(reader.track?.codec).toBe('opus');
+    expect(reread.map(frame => frame.timestamp)).toEqual([0, 20]);
+    expect(reread.map(frame => frame.data)).toEqual(frames.slice(2).map(frame => frame.data));
+  });
+  
+  it('leaves frames from an earlier recording out of a re-wrapped file', () => {
+    const demuxer = new WebmDemuxer();
+    const first = demuxer.push(Buffer.concat([initSegment(), cluster(0, [0])]));
+    const second = demuxer.push(Buffer.concat([initSegment(), cluster(0, [0, 20], i => 10 + i)]));
+    
+    const reread = new WebmDemuxer().push(demuxer.mux([...second, ...first]));
+    expect(reread.map(frame => frame.data[1])).toEqual([10, 11]);
+  });
+  
+  it('finds the header in front of the first cluster', () => {
+    const header = initSegment();
+    
+    expect(webmHeader(Buffer.concat([header, cluster(0, [0, 20])]))).toEqual(header);
+    expect(webmHeader(header)).toEqual(header);
+    expect(webmHeader(header.subarray(0, header.length - 2))).toBeNull();
+    expect(webmHeader(cluster(0, [0]))).toBeNull();
+  });
+  
+  it('refuses to mux before the init segment arrives', () => {
+    expect(() => new WebmDemuxer().mux([])).toThrow('WebM init segment has not been received');
+  });
+});
@@ -0,0 +1,283 @@
+// ABOUTME: Incremental WebM demuxer for MediaRecorder audio streams
+// ABOUTME: Keeps the init segment, extracts audio blocks as timed frames and re-wraps frames into standalone WebM files
+
+import {
+  readElementHeader,
+  readChildren,
+  readVint,
+  readUint,
+  readFloat,
+  ebmlElement,
+  ebmlUint,
+  ebmlFloat,
+  ebmlString,
+  encodeVint
+} from './ebml';
+import { opusPacketDurationMs } from './opus';
+import { AudioTrackInfo, ContainerDemuxer, MediaFrame } from './types';
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1
+};
+
+// Containers whose children are parsed as they stream in rather than buffered whole
+const STREAMED_MASTERS = new Set([ID.Segment, ID.Cluster, ID.BlockGroup]);
+
+const CODECS: Record<string, string> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_AAC: 'aac'
+};
+
+const DEFAULT_FRAME_MS = 20;
+
+interface WebmInit {
+  ebmlHeader: Buffer;
+  tracks: Buffer; // Raw Tracks element, copied into re-wrapped files
+  trackNumber: number;
+  track: AudioTrackInfo;
+}
+
+// Bytes of a stream's first chunk before its first Cluster: the EBML header, Segment start, Info and Tracks.
+// Returns null when the chunk does not start with a complete header.
+export function webmHeader(chunk: Buffer): Buffer | null {
+  let offset = 0;
+  while (offset < chunk.length) {
+    const header = readElementHeader(chunk, offset);
+    if (!header) return null;
+    
+    if (offset === 0 && header.id !== ID.EBML) return null;
+    if (header.id === ID.Cluster) return chunk.subarray(0, offset);
+    if (header.id === ID.Segment) {
+      offset += header.headerLength;
+      continue;
+    }
+    
+    if (header.size === null) return null;
+    offset += header.headerLength + header.size;
+  }
+  
+  return offset === chunk.length ? chunk : null;
+}
+
+export class WebmDemuxer implements ContainerDemuxer {
+  readonly container = 'webm' as const;
+  private buffer: Buffer = Buffer.alloc(0);
+  private ebmlHeader: Buffer | null = null;
+  private init: WebmInit | null = null;
+  private timecodeScale = 1000000; // ns per timecode tick
+  private clusterTimecode = 0;
+  private timeBase = 0; // Shifts a restarted stream after the previous one
+  private lastEnd = 0;
+  private initOf: WeakMap<MediaFrame, WebmInit> = new WeakMap();
+  private warnedLacing = false;
+  
+  get track(): AudioTrackInfo | null {
+    return this.init?.track ?? null;
+  }
+  
+  push(chunk: Buffer): MediaFrame[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const frames: MediaFrame[] = [];
+    let offset = 0;
+    
+    while (offset < this.buffer.length) {
+      const header = readElementHeader(this.buffer, offset);
+      if (!header) break;
+      
+      if (STREAMED_MASTERS.has(header.id)) {
+        offset += header.headerLength;
+        continue;
+      }
+      
+      if (header.size === null) {
+        throw new Error(`Unexpected unknown-size WebM element 0x${header.id.toString(16)}`);
+      }
+      
+      const end = offset + header.headerLength + header.size;
+      if (end > this.buffer.length) break;
+      
+      this.handleElement(header.id, this.buffer.subarray(offset, end), this.buffer.subarray(offset + header.headerLength, end), frames);
+      offset = end;
+    }
+    
+    // Copy the unparsed tail so the consumed chunks can be released
+    this.buffer = Buffer.from(this.buffer.subarray(offset));
+    return frames;
+  }
+  
+  private handleElement(id: number, raw: Buffer, body: Buffer, frames: MediaFrame[]): void {
+    switch (id) {
+      case ID.EBML:
+        // A second header means the recorder restarted; continue the timeline after the previous stream
+        if (this.init) {
+          this.timeBase = this.lastEnd;
+          this.init = null;
+          this.timecodeScale = 1000000;
+          this.clusterTimecode = 0;
+        }
+        this.ebmlHeader = Buffer.from(raw);
+        break;
+        
+      case ID.Info:
+        for (const child of readChildren(body)) {
+          if (child.id === ID.TimecodeScale) {
+            this.timecodeScale = readUint(child.body);
+          }
+        }
+        break;
+        
+      case ID.Tracks:
+        this.init = this.parseTracks(Buffer.from(raw), body);
+        break;
+        
+      case ID.Timecode:
+        this.clusterTimecode = readUint(body);
+        break;
+        
+      case ID.SimpleBlock:
+      case ID.Block: {
+        const frame = this.parseBlock(body);
+        if (frame) frames.push(frame);
+        break;
+      }
+        
+      default:
+        // SeekHead, Cues, Tags, Void and the like are not needed for audio
+        break;
+    }
+  }
+  
+  private parseTracks(raw: Buffer, body: Buffer): WebmInit | null {
+    if (!this.ebmlHeader) return null;
+    
+    for (const entry of readChildren(body)) {
+      if (entry.id !== ID.TrackEntry) continue;
+      
+      let trackNumber = 1;
+      let trackType = 2;
+      let codecId = '';
+      let sampleRate: number | undefined;
+      let channels: number | undefined;
+      
+      for (const child of readChildren(entry.body)) {
+        if (child.id === ID.TrackNumber) trackNumber = readUint(child.body);
+        if (child.id === ID.TrackType) trackType = readUint(child.body);
+        if (child.id === ID.CodecID) codecId = child.body.toString('latin1');
+        if (child.id === ID.Audio) {
+          for (const audio of readChildren(child.body)) {
+            if (audio.id === ID.SamplingFrequency) sampleRate = readFloat(audio.body);
+            if (audio.id === ID.Channels) channels = readUint(audio.body);
+          }
+        }
+      }
+      
+      if (trackType !== 2) continue;
+      
+      return {
+        ebmlHeader: this.ebmlHeader,
+        tracks: raw,
+        trackNumber,
+        track: {
+          codec: CODECS[codecId] || codecId.toLowerCase(),
+          ...(sampleRate && { sampleRate }),
+          ...(channels && { channels })
+        }
+      };
+    }
+    
+    return null;
+  }
+  
+  private parseBlock(body: Buffer): MediaFrame | null {
+    const init = this.init;
+    const trackNumber = readVint(body, 0);
+    if (!init || !trackNumber || trackNumber.value !== init.trackNumber) return null;
+    
+    const flags = body[trackNumber.length + 2];
+    if ((flags & 0x06) !== 0) {
+      // MediaRecorder never laces audio blocks
+      if (!this.warnedLacing) {
+        console.warn('Skipping laced WebM blocks, which are not supported');
+        this.warnedLacing = true;
+      }
+      return null;
+    }
+    
+    const relative = body.readInt16BE(trackNumber.length);
+    const data = Buffer.from(body.subarray(trackNumber.length + 3));
+    const timestamp = this.timeBase + (this.clusterTimecode + relative) * this.timecodeScale / 1e6;
+    const duration = init.track.codec === 'opus' ? opusPacketDurationMs(data) : DEFAULT_FRAME_MS;
+    
+    const frame: MediaFrame = { timestamp, duration, data };
+    this.initOf.set(frame, init);
+    this.lastEnd = Math.max(this.lastEnd, timestamp + duration);
+    return frame;
+  }
+  
+  mux(frames: MediaFrame[]): Buffer {
+    const init = frames.length > 0 ? this.initOf.get(frames[0]) ?? this.init : this.init;
+    if (!init) {
+      throw new Error('WebM init segment has not been received');
+    }
+    
+    // Frames from a different recording cannot share this init segment
+    const usable = frames.filter(frame => (this.initOf.get(frame) ?? init) === init);
+    const base = usable.length > 0 ? usable[0].timestamp : 0;
+    const trackNumber = encodeVint(init.trackNumber);
+    
+    const clusters: Buffer[] = [];
+    let clusterStart = 0;
+    let blocks: Buffer[] = [];
+    const closeCluster = () => {
+      if (blocks.length === 0) return;
+      clusters.push(ebmlElement(ID.Cluster, [ebmlUint(ID.Timecode, clusterStart), ...blocks]));
+      blocks = [];
+    };
+    
+    for (const frame of usable) {
+      const time = Math.round(frame.timestamp - base);
+      
+      // Block timecodes are signed 16-bit offsets from the cluster
+      if (blocks.length === 0 || time - clusterStart > 30000) {
+        closeCluster();
+        clusterStart = time;
+      }
+      
+      const blockHeader = Buffer.alloc(3);
+      blockHeader.writeInt16BE(time - clusterStart, 0);
+      blockHeader[2] = 0x80; // Keyframe
+      blocks.push(ebmlElement(ID.SimpleBlock, [trackNumber, blockHeader, frame.data]));
+    }
+    closeCluster();
+    
+    const last = usable[usable.length - 1];
+    const info = ebmlElement(ID.Info, [
+      ebmlUint(ID.TimecodeScale, 1000000),
+      ebmlFloat(ID.Duration, last ? last.timestamp + last.duration - base : 0),
+      ebmlString(ID.MuxingApp, 'audio-stream-transcribe'),
+      ebmlString(ID.WritingApp, 'audio-stream-transcribe')
+    ]);
+    
+    return Buffer.concat([init.ebmlHeader, ebmlElement(ID.Segment, [info, init.tracks, ...clusters])]);
+  }
+}
@@ -0,0 +1,129 @@
+// ABOUTME: Minimal EBML reading and writing helpers for the WebM demuxer
+// ABOUTME: Handles variable-length integers, element headers and the few value types WebM audio needs
+
+export interface ElementHeader {
+  id: number;
+  size: number | null; // null for unknown-size elements (live Segments and Clusters)
+  headerLength: number;
+}
+
+function vintLength(firstByte: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  throw new Error('Invalid EBML variable-length integer');
+}
+
+// Reads a size-style vint (marker bit removed); returns null when the buffer is too short
+export function readVint(buffer: Buffer, offset: number): { value: number; length: number; unknown: boolean } | null {
+  if (offset >= buffer.length) return null;
+  
+  const length = vintLength(buffer[offset]);
+  if (offset + length > buffer.length) return null;
+  
+  let value = buffer[offset] & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes = allOnes && buffer[offset + i] === 0xff;
+  }
+  
+  return { value, length, unknown: allOnes };
+}
+
+export function readElementHeader(buffer: Buffer, offset: number): ElementHeader | null {
+  if (offset >= buffer.length) return null;
+  
+  // IDs keep their marker bits
+  const idLength = vintLength(buffer[offset]);
+  if (idLength > 4) throw new Error('Invalid EBML element ID');
+  if (offset + idLength > buffer.length) return null;
+  
+  let id = 0;
+  for (let i = 0; i < idLength; i++) {
+    id = id * 256 + buffer[offset + i];
+  }
+  
+  const size = readVint(buffer, offset + idLength);
+  if (!size) return null;
+  
+  return {
+    id,
+    size: size.unknown ? null : size.value,
+    headerLength: idLength + size.length
+  };
+}
+
+// Iterates the children of a fully buffered master element
+export function* readChildren(body: Buffer): Generator<{ id: number; body: Buffer }> {
+  let offset = 0;
+  while (offset < body.length) {
+    const header = readElementHeader(body, offset);
+    if (!header || header.size === null) return;
+    
+    const start = offset + header.headerLength;
+    yield { id: header.id, body: body.subarray(start, start + header.size) };
+    offset = start + header.size;
+  }
+}
+
+export function readUint(body: Buffer): number {
+  let value = 0;
+  for (const byte of body) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+export function readFloat(body: Buffer): number {
+  if (body.length === 4) return body.readFloatBE(0);
+  if (body.length === 8) return body.readDoubleBE(0);
+  return 0;
+}
+
+export function encodeId(id: number): Buffer {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return Buffer.from(bytes);
+}
+
+export function encodeVint(value: number): Buffer {
+  let length = 1;
+  while (length < 8 && value >= Math.pow(2, 7 * length) - 1) {
+    length++;
+  }
+  
+  const bytes = Buffer.alloc(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+export function ebmlElement(id: number, payload: Buffer | Buffer[]): Buffer {
+  const body = Array.isArray(payload) ? Buffer.concat(payload) : payload;
+  return Buffer.concat([encodeId(id), encodeVint(body.length), body]);
+}
+
+export function ebmlUint(id: number, value: number): Buffer {
+  const bytes: number[] = [];
+  for (let remaining = Math.round(value); remaining > 0 || bytes.length === 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining % 256);
+  }
+  return ebmlElement(id, Buffer.from(bytes));
+}
+
+export function ebmlFloat(id: number, value: number): Buffer {
+  const body = Buffer.alloc(8);
+  body.writeDoubleBE(value, 0);
+  return ebmlElement(id, body);
+}
+
+export function ebmlString(id: number, value: string): Buffer {
+  return ebmlElement(id, Buffer.from(value, 'utf8'));
+}
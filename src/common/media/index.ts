@@ -0,0 +1,9 @@
+// ABOUTME: Container handling for MediaRecorder audio, shared by the server and the providers
+// ABOUTME: Re-exports the WebM/Ogg demuxers and the per-session container audio track
+
+export { ContainerAudioTrack, containerHeader, detectContainer, createDemuxer } from './ContainerAudioTrack';
+export { WebmDemuxer } from './WebmDemuxer';
+export { OggDemuxer } from './OggDemuxer';
+export { opusPacketSamples, opusPacketDurationMs } from './opus';
+export type { ContainerAudioTrackOptions } from './ContainerAudioTrack';
+export type { ContainerType, ContainerDemuxer, MediaFrame, AudioTrackInfo } from './types';
@@ -0,0 +1,34 @@
+// ABOUTME: Opus packet helpers used to time demuxed frames
+// ABOUTME: Reads the frame configuration from an Opus packet's TOC byte (RFC 6716, section 3.1)
+
+export const OPUS_SAMPLE_RATE = 48000; // Opus timestamps are always counted at 48 kHz
+
+const SILK_FRAME_SAMPLES = [480, 960, 1920, 2880];
+const HYBRID_FRAME_SAMPLES = [480, 960];
+const CELT_FRAME_SAMPLES = [120, 240, 480, 960];
+
+// Number of 48 kHz samples the packet decodes to
+export function opusPacketSamples(packet: Buffer): number {
+  if (packet.length === 0) return 0;
+  
+  const toc = packet[0];
+  const config = toc >> 3;
+  const frameSamples = config < 12
+    ? SILK_FRAME_SAMPLES[config % 4]
+    : config < 16
+      ? HYBRID_FRAME_SAMPLES[config % 2]
+      : CELT_FRAME_SAMPLES[config % 4];
+  
+  const code = toc & 0x03;
+  const frameCount = code === 0
+    ? 1
+    : code === 3
+      ? (packet.length > 1 ? packet[1] & 0x3f : 0)
+      : 2;
+  
+  return frameSamples * frameCount;
+}
+
+export function opusPacketDurationMs(packet: Buffer): number {
+  return opusPacketSamples(packet) / (OPUS_SAMPLE_RATE / 1000);
+}
@@ -0,0 +1,27 @@
+// ABOUTME: Shared types for the container demuxers
+// ABOUTME: Frames are codec packets with millisecond timing that a demuxer can re-wrap into standalone files
+
+export type ContainerType = 'webm' | 'ogg';
+
+export interface AudioTrackInfo {
+  codec: string; // 'opus', 'vorbis', ...
+  sampleRate?: number;
+  channels?: number;
+}
+
+export interface MediaFrame {
+  timestamp: number; // ms from the start of the stream
+  duration: number; // ms
+  data: Buffer; // One codec packet, e.g. an Opus packet
+}
+
+export interface ContainerDemuxer {
+  readonly container: ContainerType;
+  readonly track: AudioTrackInfo | null; // Known once the init segment has been parsed
+  
+  // Parses as much of the stream as possible; incomplete elements wait for the next chunk
+  push(chunk: Buffer): MediaFrame[];
+  
+  // Builds a standalone file from frames returned by push, timed from the first frame
+  mux(frames: MediaFrame[]): Buffer;
+}
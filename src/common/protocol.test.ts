@@ -0,0 +1,124 @@
+// ABOUTME: Tests for the wire protocol validators and version negotiation
+// ABOUTME: Covers the structured errors the server sends back for malformed control messages
+
+import {
+  negotiateProtocolVersion,
+  parseClientMessage,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  ProtocolError
+} from './protocol';
+
+function protocolError(parse: () => unknown): ProtocolError {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof ProtocolError) return error;
+    throw error;
+  }
+  throw new Error('Expected a ProtocolError');
+}
+
+describe('parseClientMessage', () => {
+  it('accepts raw JSON and already parsed messages', () => {
+    expect(parseClientMessage('{"type":"ping"}')).toEqual({ type: 'ping' });
+    expect(parseClientMessage({ type: 'hello', protocolVersion: PROTOCOL_VERSION })).toEqual({
+      type: 'hello',
+      protocolVersion: PROTOCOL_VERSION
+    });
+  });
+  
+  it('allows optional fields to be left out and unknown fields to be added', () => {
+    const message = parseClientMessage({ type: 'start-recording', extra: true });
+    expect(message).toEqual({ type: 'start-recording', extra: true });
+  });
+  
+  it('reports invalid JSON', () => {
+    const error = protocolError(() => parseClientMessage('{nope'));
+    expect(error.code).toBe('invalid-json');
+  });
+  
+  it('reports messages that are not objects or have no type', () => {
+    expect(protocolError(() => parseClientMessage('[1]')).code).toBe('invalid-message');
+    expect(protocolError(() => parseClientMessage({ kind: 'ping' })).code).toBe('invalid-message');
+  });
+  
+  it('reports unknown message types with the offending type', () => {
+    const error = protocolError(() => parseClientMessage({ type: 'bogus' }));
+    expect(error.code).toBe('unknown-message-type');
+    expect(error.messageType).toBe('bogus');
+  });
+  
+  it('does not treat inherited properties as message types', () => {
+    expect(protocolError(() => parseClientMessage({ type: 'toString' })).code).toBe('unknown-message-type');
+  });
+  
+  it('reports missing and mistyped fields', () => {
+    const missing = protocolError(() => parseClientMessage({ type: 'resume-session' }));
+    expect(missing.code).toBe('invalid-message');
+    expect(missing.messageType).toBe('resume-session');
+    expect(missing.message).toBe('"resumeToken" must be a string');
+    
+    const fractional = protocolError(() => parseClientMessage({ type: 'start-recording', sequenceBase: 1.5 }));
+    expect(fractional.message).toBe('"sequenceBase" must be an integer');
+    
+    const array = protocolError(() => parseClientMessage({ type: 'start-recording', format: [] }));
+    expect(array.message).toBe('"format" must be an object');
+  });
+  
+  it('reports mistyped audio format fields by their path', () => {
+    const mimeType = protocolError(() => parseClientMessage({ type: 'start-recording', format: { mimeType: 5 } }));
+    expect(mimeType.code).toBe('invalid-message');
+    expect(mimeType.messageType).toBe('start-recording');
+    expect(mimeType.message).toBe('"format.mimeType" must be a string');
+    
+    const sampleRate = protocolError(() => parseClientMessage({
+      type: 'start-recording',
+      format: { mimeType: 'audio/pcm', sampleRate: '16000' }
+    }));
+    expect(sampleRate.message).toBe('"format.sampleRate" must be a number');
+    
+    expect(parseClientMessage({ type: 'start-recording', format: { mimeType: 'audio/pcm', channels: 2 } }))
+      .toEqual({ type: 'start-recording', format: { mimeType: 'audio/pcm', channels: 2 } });
+  });
+});
+
+describe('parseServerMessage', () => {
+  it('validates server messages', () => {
+    const message = parseServerMessage(JSON.stringify({
+      type: 'ack',
+      received: 3,
+      processed: 2,
+      bufferedBytes: 100,
+      maxBufferedBytes: 1000
+    }));
+    expect(message.type).toBe('ack');
+    
+    expect(protocolError(() => parseServerMessage({ type: 'transcription' })).message)
+      .toBe('"data" must be an object');
+  });
+  
+  it('checks the payloads nested in server messages', () => {
+    expect(protocolError(() => parseServerMessage({ type: 'transcription', data: { transcript: 7 } })).message)
+      .toBe('"data.transcript" must be a string');
+    expect(protocolError(() => parseServerMessage({ type: 'transcription', data: { transcript: 'hi', isFinal: 'yes' } })).message)
+      .toBe('"data.isFinal" must be a boolean');
+    expect(protocolError(() => parseServerMessage({ type: 'recording-started', format: { sampleRate: 16000 } })).message)
+      .toBe('"format.mimeType" must be a string');
+  });
+  
+  it('rejects client message types', () => {
+    expect(protocolError(() => parseServerMessage({ type: 'ping' })).code).toBe('unknown-message-type');
+  });
+});
+
+describe('negotiateProtocolVersion', () => {
+  it('picks the highest version both sides speak', () => {
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION)).toBe(PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION + 5)).toBe(PROTOCOL_VERSION);
+  });
+  
+  it('returns undefined when the client is too old', () => {
+    expect(negotiateProtocolVersion(0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,334 @@
+// ABOUTME: Wire protocol between clients and AudioStreamServer: every JSON control message, versioned and typed
+// ABOUTME: Audio travels as binary frames; parse functions validate incoming messages for both sides at runtime
+
+import { AudioFormat, AudioFormatSupport, SpeechEvent, TranscriptionResult } from './types';
+
+// Raised for incompatible changes; older versions stay listed while servers still speak them
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+export type ProtocolFeature = 'sequencing' | 'session-resume' | 'flow-control';
+
+export type ProtocolErrorCode =
+  | 'invalid-json'
+  | 'invalid-message'
+  | 'unknown-message-type'
+  | 'unsupported-version'
+  | 'internal-error';
+
+// Client to server
+
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number; // Highest version the client speaks
+  client?: string; // Name and version of the client, for server logs
+}
+
+export interface PingMessage {
+  type: 'ping';
+}
+
+export interface StartRecordingMessage {
+  type: 'start-recording';
+  format?: Partial<AudioFormat>;
+  sequenceBase?: number; // Binary frames carry sequence numbers starting here (see encodeSequencedChunk)
+  resume?: boolean; // Continue the session's open recording after a reconnect
+}
+
+export interface StopRecordingMessage {
+  type: 'stop-recording';
+}
+
+export interface PauseRecordingMessage {
+  type: 'pause-recording';
+}
+
+export interface ResumeRecordingMessage {
+  type: 'resume-recording';
+}
+
+export interface ResumeSessionMessage {
+  type: 'resume-session';
+  resumeToken: string;
+  lastTranscriptSequence?: number; // Sequence of the last transcription received; later ones are resent
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | PingMessage
+  | StartRecordingMessage
+  | StopRecordingMessage
+  | PauseRecordingMessage
+  | ResumeRecordingMessage
+  | ResumeSessionMessage;
+
+// Server to client
+
+interface ServerMessageBase {
+  timestamp?: number; // Milliseconds since the epoch when the server sent it
+}
+
+export interface WelcomeMessage extends ServerMessageBase {
+  type: 'welcome';
+  protocolVersion: number; // Version used for the rest of the connection
+  sessionId: string;
+  features: ProtocolFeature[];
+}
+
+export interface PongMessage extends ServerMessageBase {
+  type: 'pong';
+}
+
+export interface ErrorMessage extends ServerMessageBase {
+  type: 'error';
+  code: ProtocolErrorCode;
+  message: string;
+  messageType?: string; // Type of the client message that caused it, when known
+}
+
+export interface SessionStartedMessage extends ServerMessageBase {
+  type: 'session-started';
+  sessionId: string;
+  resumeToken: string;
+  gracePeriodMs: number;
+}
+
+export interface SessionResumedMessage extends ServerMessageBase {
+  type: 'session-resumed';
+  sessionId: string;
+  resumeToken: string;
+  missedTranscripts: number; // Transcription messages resent right after this one
+}
+
+export interface SessionResumeFailedMessage extends ServerMessageBase {
+  type: 'session-resume-failed';
+  reason: string;
+}
+
+export interface RecordingStartedMessage extends ServerMessageBase {
+  type: 'recording-started';
+  format: AudioFormat;
+  sequenceBase?: number; // Next sequence number the server expects
+  resumed?: boolean;
+  maxBufferedBytes?: number; // Present when the server applies flow control
+}
+
+export interface RecordingRejectedMessage extends ServerMessageBase {
+  type: 'recording-rejected';
+  reason: string;
+  supportedFormats?: AudioFormatSupport[];
+}
+
+export interface RecordingStoppedMessage extends ServerMessageBase {
+  type: 'recording-stopped';
+}
+
+export interface RecordingPausedMessage extends ServerMessageBase {
+  type: 'recording-paused';
+}
+
+export interface RecordingResumedMessage extends ServerMessageBase {
+  type: 'recording-resumed';
+}
+
+export interface TranscriptionMessage extends ServerMessageBase {
+  type: 'transcription';
+  data: TranscriptionResult;
+  sequence?: number; // Numbered on resumable sessions
+}
+
+export interface SpeechStartedMessage extends ServerMessageBase {
+  type: 'speech-started';
+  data: SpeechEvent;
+}
+
+export interface UtteranceEndMessage extends ServerMessageBase {
+  type: 'utterance-end';
+  data: SpeechEvent;
+}
+
+export interface AckMessage extends ServerMessageBase {
+  type: 'ack';
+  received: number; // Audio chunks received on this recording
+  processed: number; // Of those, handed to the provider or dropped
+  bufferedBytes: number;
+  maxBufferedBytes: number;
+}
+
+export interface OverloadMessage extends ServerMessageBase {
+  type: 'overload';
+  bufferedBytes: number;
+  maxBufferedBytes: number;
+}
+
+export interface OverloadClearedMessage extends ServerMessageBase {
+  type: 'overload-cleared';
+  bufferedBytes: number;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | PongMessage
+  | ErrorMessage
+  | SessionStartedMessage
+  | SessionResumedMessage
+  | SessionResumeFailedMessage
+  | RecordingStartedMessage
+  | RecordingRejectedMessage
+  | RecordingStoppedMessage
+  | RecordingPausedMessage
+  | RecordingResumedMessage
+  | TranscriptionMessage
+  | SpeechStartedMessage
+  | UtteranceEndMessage
+  | AckMessage
+  | OverloadMessage
+  | OverloadClearedMessage;
+
+export class ProtocolError extends Error {
+  constructor(readonly code: ProtocolErrorCode, message: string, readonly messageType?: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// Validation
+
+type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+// A trailing ? marks an optional field; fields not listed are allowed so either side can add to a message.
+// An object field may list its own fields, which are checked the same way.
+type FieldSpec = FieldType | `${FieldType}?` | { fields: MessageSchema; optional?: boolean };
+type MessageSchema = { [name: string]: FieldSpec };
+
+const AUDIO_FORMAT_FIELDS: MessageSchema = {
+  mimeType: 'string?',
+  encoding: 'string?',
+  sampleRate: 'number?',
+  channels: 'number?',
+  bitDepth: 'number?'
+};
+
+const CLIENT_SCHEMAS: Record<ClientMessage['type'], MessageSchema> = {
+  'hello': { protocolVersion: 'integer', client: 'string?' },
+  'ping': {},
+  'start-recording': {
+    format: { fields: AUDIO_FORMAT_FIELDS, optional: true },
+    sequenceBase: 'integer?',
+    resume: 'boolean?'
+  },
+  'stop-recording': {},
+  'pause-recording': {},
+  'resume-recording': {},
+  'resume-session': { resumeToken: 'string', lastTranscriptSequence: 'integer?' }
+};
+
+const SERVER_SCHEMAS: Record<ServerMessage['type'], MessageSchema> = {
+  'welcome': { protocolVersion: 'integer', sessionId: 'string', features: 'array' },
+  'pong': {},
+  'error': { code: 'string', message: 'string', messageType: 'string?' },
+  'session-started': { sessionId: 'string', resumeToken: 'string', gracePeriodMs: 'number' },
+  'session-resumed': { sessionId: 'string', resumeToken: 'string', missedTranscripts: 'integer' },
+  'session-resume-failed': { reason: 'string' },
+  'recording-started': {
+    format: { fields: { ...AUDIO_FORMAT_FIELDS, mimeType: 'string' } },
+    sequenceBase: 'integer?',
+    resumed: 'boolean?',
+    maxBufferedBytes: 'number?'
+  },
+  'recording-rejected': { reason: 'string', supportedFormats: 'array?' },
+  'recording-stopped': {},
+  'recording-paused': {},
+  'recording-resumed': {},
+  'transcription': {
+    data: { fields: { transcript: 'string', isFinal: 'boolean?', words: 'array?' } },
+    sequence: 'integer?'
+  },
+  'speech-started': { data: 'object' },
+  'utterance-end': { data: 'object' },
+  'ack': { received: 'integer', processed: 'integer', bufferedBytes: 'number', maxBufferedBytes: 'number' },
+  'overload': { bufferedBytes: 'number', maxBufferedBytes: 'number' },
+  'overload-cleared': { bufferedBytes: 'number' }
+};
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function parseMessage<T>(data: unknown, schemas: Record<string, MessageSchema>): T {
+  let message = data;
+  if (typeof data === 'string') {
+    try {
+      message = JSON.parse(data);
+    } catch {
+      throw new ProtocolError('invalid-json', 'Message is not valid JSON');
+    }
+  }
+  
+  if (!matchesType(message, 'object')) {
+    throw new ProtocolError('invalid-message', 'Message must be a JSON object');
+  }
+  
+  const fields = message as Record<string, unknown>;
+  const type = fields.type;
+  if (typeof type !== 'string') {
+    throw new ProtocolError('invalid-message', 'Message has no type');
+  }
+  
+  const schema = Object.prototype.hasOwnProperty.call(schemas, type) ? schemas[type] : undefined;
+  if (!schema) {
+    throw new ProtocolError('unknown-message-type', `Unknown message type "${type}"`, type);
+  }
+  
+  checkFields(fields, schema, type);
+  return message as T;
+}
+
+// Nested fields are reported by their path, e.g. "format.sampleRate"
+function checkFields(fields: Record<string, unknown>, schema: MessageSchema, type: string, path = ''): void {
+  for (const [name, spec] of Object.entries(schema)) {
+    const nested = typeof spec === 'object' ? spec : null;
+    const optional = nested ? !!nested.optional : (spec as string).endsWith('?');
+    const fieldType = (nested ? 'object' : optional ? (spec as string).slice(0, -1) : spec) as FieldType;
+    const value = fields[name];
+    
+    if (value === undefined && optional) continue;
+    if (!matchesType(value, fieldType)) {
+      const expected = fieldType === 'integer' || fieldType === 'array' || fieldType === 'object'
+        ? `an ${fieldType}`
+        : `a ${fieldType}`;
+      throw new ProtocolError('invalid-message', `"${path}${name}" must be ${expected}`, type);
+    }
+    
+    if (nested) {
+      checkFields(value as Record<string, unknown>, nested.fields, type, `${path}${name}.`);
+    }
+  }
+}
+
+// Validates a message sent by a client, either raw JSON text or already parsed; throws ProtocolError
+export function parseClientMessage(data: unknown): ClientMessage {
+  return parseMessage<ClientMessage>(data, CLIENT_SCHEMAS);
+}
+
+// Validates a message sent by a server, either raw JSON text or already parsed; throws ProtocolError
+export function parseServerMessage(data: unknown): ServerMessage {
+  return parseMessage<ServerMessage>(data, SERVER_SCHEMAS);
+}
+
+// Highest version both sides speak, or undefined when there is none
+export function negotiateProtocolVersion(clientVersion: number): number | undefined {
+  const usable = SUPPORTED_PROTOCOL_VERSIONS.filter(version => version <= clientVersion);
+  return usable.length > 0 ? Math.max(...usable) : undefined;
+}
@@ -0,0 +1,20 @@
+// ABOUTME: Framing for sequence-numbered audio chunks, shared by the client and server
+// ABOUTME: Each binary message starts with its chunk's sequence number as a big-endian uint32
+
+export const SEQUENCE_HEADER_SIZE = 4;
+
+export function encodeSequencedChunk(sequence: number, data: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(SEQUENCE_HEADER_SIZE + data.byteLength);
+  new DataView(frame.buffer).setUint32(0, sequence >>> 0, false);
+  frame.set(data, SEQUENCE_HEADER_SIZE);
+  return frame;
+}
+
+export function decodeSequencedChunk(frame: Uint8Array): { sequence: number; data: Uint8Array } {
+  if (frame.byteLength < SEQUENCE_HEADER_SIZE) {
+    throw new Error('Sequenced audio chunk is shorter than its header');
+  }
+  
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  return { sequence: view.getUint32(0, false), data: frame.subarray(SEQUENCE_HEADER_SIZE) };
+}
@@ -0,0 +1,58 @@
+// ABOUTME: Tests for splitting results by speaker and looking up words by audio time
+
+import { findWordAt, splitBySpeaker } from './transcript';
+import { TranscriptionResult } from './types';
+
+const mixed: TranscriptionResult = {
+  transcript: 'hello there general kenobi',
+  confidence: 0.9,
+  timestamp: 1000,
+  start: 0,
+  end: 2,
+  words: [
+    { word: 'hello', start: 0, end: 0.4, confidence: 0.8, speaker: 0 },
+    { word: 'there', punctuatedWord: 'there.', start: 0.5, end: 0.9, confidence: 1, speaker: 0 },
+    { word: 'general', start: 1, end: 1.5, confidence: 0.6, speaker: 1 },
+    { word: 'kenobi', start: 1.6, end: 2, confidence: 0.8, speaker: 1 }
+  ]
+};
+
+describe('splitBySpeaker', () => {
+  it('returns one result per run of words from the same speaker', () => {
+    const [first, second] = splitBySpeaker(mixed);
+    
+    expect(first).toMatchObject({ transcript: 'hello there.', speaker: 0, start: 0, end: 0.9, confidence: 0.9 });
+    expect(second).toMatchObject({ transcript: 'general kenobi', speaker: 1, start: 1, end: 2, confidence: 0.7 });
+    expect(second.words).toHaveLength(2);
+  });
+  
+  it('keeps results without word speakers unchanged', () => {
+    const plain: TranscriptionResult = { transcript: 'hi', confidence: 1, timestamp: 0 };
+    expect(splitBySpeaker(plain)).toEqual([plain]);
+  });
+  
+  it('takes the speaker from the words when there is only one', () => {
+    const single = { ...mixed, words: mixed.words!.slice(0, 2) };
+    expect(splitBySpeaker(single)).toEqual([{ ...single, speaker: 0 }]);
+  });
+});
+
+describe('findWordAt', () => {
+  it('finds the word spoken at a time', () => {
+    const other: TranscriptionResult = {
+      transcript: 'later',
+      confidence: 1,
+      timestamp: 2000,
+      start: 3,
+      end: 4,
+      words: [{ word: 'later', start: 3, end: 4 }]
+    };
+    
+    expect(findWordAt([mixed, other], 1.2)).toMatchObject({ resultIndex: 0, wordIndex: 2, word: { word: 'general' } });
+    expect(findWordAt([mixed, other], 3.5)).toMatchObject({ resultIndex: 1, wordIndex: 0 });
+  });
+  
+  it('returns null between words', () => {
+    expect(findWordAt([mixed], 0.45)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+// ABOUTME: Helpers for working with word-level transcription results
+// ABOUTME: Splits mixed-speaker segments and looks up words by audio time for highlighted, seekable transcripts
+
+import { TranscriptionResult, TranscriptionWord } from './types';
+
+function joinWords(words: TranscriptionWord[]): string {
+  return words.map(w => w.punctuatedWord ?? w.word).join(' ');
+}
+
+function averageConfidence(words: TranscriptionWord[]): number | undefined {
+  const values = words.map(w => w.confidence).filter((v): v is number => typeof v === 'number');
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Splits a result into one result per run of consecutive words from the same speaker.
+// Results without word-level speakers are returned unchanged.
+export function splitBySpeaker(result: TranscriptionResult): TranscriptionResult[] {
+  const words = result.words || [];
+  if (words.length === 0 || !words.some(w => w.speaker !== undefined)) {
+    return [result];
+  }
+  
+  const runs: TranscriptionWord[][] = [];
+  for (const word of words) {
+    const run = runs[runs.length - 1];
+    if (run && run[0].speaker === word.speaker) {
+      run.push(word);
+    } else {
+      runs.push([word]);
+    }
+  }
+  
+  if (runs.length === 1) {
+    return [{ ...result, speaker: runs[0][0].speaker ?? result.speaker }];
+  }
+  
+  return runs.map(run => ({
+    ...result,
+    transcript: joinWords(run),
+    speaker: run[0].speaker ?? result.speaker,
+    confidence: averageConfidence(run) ?? result.confidence,
+    start: run[0].start,
+    end: run[run.length - 1].end,
+    words: run
+  }));
+}
+
+// Finds the word being spoken at `time` (seconds of session audio), e.g. to highlight it during playback
+export function findWordAt(
+  results: TranscriptionResult[],
+  time: number
+): { result: TranscriptionResult; word: TranscriptionWord; resultIndex: number; wordIndex: number } | null {
+  for (let resultIndex = 0; resultIndex < results.length; resultIndex++) {
+    const result = results[resultIndex];
+    if (result.start !== undefined && result.end !== undefined && (time < result.start || time > result.end)) {
+      continue;
+    }
+    
+    const words = result.words || [];
+    for (let wordIndex = 0; wordIndex < words.length; wordIndex++) {
+      const word = words[wordIndex];
+      if (time >= word.start && time <= word.end) {
+        return { result, word, resultIndex, wordIndex };
+      }
+    }
+  }
+  
+  return null;
+}
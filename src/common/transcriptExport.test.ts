@@ -0,0 +1,146 @@
+// ABOUTME: Tests for the SRT, WebVTT, JSON and plain-text transcript exporters
+// ABOUTME: Checks cue splitting against the line-length and duration rules and speaker labeling
+
+import { buildCaptionCues, exportTranscript, toPlainText, toSrt, toTranscriptJson, toWebVtt } from './transcriptExport';
+import { TranscriptionResult, TranscriptionWord } from './types';
+
+function timedWords(text: string, start: number, speaker?: number): TranscriptionWord[] {
+  return text.split(' ').map((word, index) => ({
+    word: word.replace(/[.?!,]$/, ''),
+    punctuatedWord: word,
+    start: start + index * 0.5,
+    end: start + index * 0.5 + 0.4,
+    confidence: 1,
+    ...(speaker !== undefined && { speaker })
+  }));
+}
+
+function result(text: string, start: number, speaker?: number): TranscriptionResult {
+  const words = timedWords(text, start, speaker);
+  return {
+    transcript: text,
+    confidence: 1,
+    timestamp: 0,
+    start,
+    end: words[words.length - 1].end,
+    words,
+    ...(speaker !== undefined && { speaker })
+  };
+}
+
+const conversation = [
+  result('Hello there.', 0, 0),
+  result('General Kenobi!', 2, 1)
+];
+
+describe('buildCaptionCues', () => {
+  it('cuts cues from word timings', () => {
+    expect(buildCaptionCues(conversation)).toEqual([
+      { start: 0, end: 1, speaker: 0, lines: ['Hello there.'] },
+      { start: 2, end: 3, speaker: 1, lines: ['General Kenobi!'] }
+    ]);
+  });
+  
+  it('starts a new cue when the text no longer fits', () => {
+    const long = result('one two three four five six seven eight', 0);
+    const cues = buildCaptionCues([long], { maxLineLength: 10, maxLines: 1 });
+    
+    expect(cues.map(cue => cue.lines)).toEqual([
+      ['one two'], ['three four'], ['five six'], ['seven'], ['eight']
+    ]);
+    expect(cues.every(cue => cue.lines.every(line => line.length <= 10))).toBe(true);
+  });
+  
+  it('keeps cues within the maximum duration', () => {
+    const long = result('a b c d e f g h i j', 0);
+    const cues = buildCaptionCues([long], { maxCueDuration: 2, minCueDuration: 0 });
+    
+    expect(cues.length).toBeGreaterThan(1);
+    expect(cues.every(cue => cue.end - cue.start <= 2)).toBe(true);
+  });
+  
+  it('splits results with several speakers', () => {
+    const mixed: TranscriptionResult = {
+      transcript: 'yes no',
+      confidence: 1,
+      timestamp: 0,
+      words: [...timedWords('yes', 0, 0), ...timedWords('no', 1, 1)]
+    };
+    expect(buildCaptionCues([mixed]).map(cue => cue.speaker)).toEqual([0, 1]);
+  });
+  
+  it('spreads segment text over the segment when there are no word timings', () => {
+    const segment: TranscriptionResult = { transcript: 'aaaa bbbb', confidence: 1, timestamp: 0, start: 10, end: 14 };
+    const cues = buildCaptionCues([segment], { maxLineLength: 4, maxLines: 1 });
+    
+    expect(cues).toEqual([
+      { start: 10, end: 12, speaker: undefined, lines: ['aaaa'] },
+      { start: 12, end: 14, speaker: undefined, lines: ['bbbb'] }
+    ]);
+  });
+  
+  it('refuses results it cannot place on the timeline', () => {
+    const untimed: TranscriptionResult = { transcript: 'when was this', confidence: 1, timestamp: 0 };
+    
+    expect(() => buildCaptionCues([result('Hello there.', 0), untimed, { ...untimed, start: 3 }]))
+      .toThrow('2 result(s) have no start and end times');
+    expect(() => exportTranscript([untimed], 'srt')).toThrow('export txt or json instead');
+    expect(exportTranscript([untimed], 'txt')).toBe('when was this\n');
+  });
+  
+  it('ignores interim and empty results', () => {
+    expect(buildCaptionCues([
+      { ...result('not yet', 0), isFinal: false },
+      { transcript: ' ', confidence: 1, timestamp: 0, start: 0, end: 1 }
+    ])).toEqual([]);
+  });
+});
+
+describe('toSrt', () => {
+  it('numbers cues and labels speakers', () => {
+    expect(toSrt(conversation)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,000\nSpeaker 0: Hello there.\n\n' +
+      '2\n00:00:02,000 --> 00:00:03,000\nSpeaker 1: General Kenobi!\n'
+    );
+  });
+  
+  it('uses custom speaker labels', () => {
+    expect(toSrt(conversation, { speakerLabel: speaker => `S${speaker}` })).toContain('S1: General Kenobi!');
+  });
+});
+
+describe('toWebVtt', () => {
+  it('writes voice tags and escapes markup', () => {
+    const vtt = toWebVtt([result('a<b', 0, 0)], { speakerLabel: () => 'Ann & Bo' });
+    expect(vtt).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<v Ann &amp; Bo>a&lt;b\n');
+  });
+});
+
+describe('toTranscriptJson', () => {
+  it('lists segments, speakers and the duration', () => {
+    const json = JSON.parse(toTranscriptJson(conversation));
+    
+    expect(json.duration).toBe(2.9);
+    expect(json.speakers).toEqual(['Speaker 0', 'Speaker 1']);
+    expect(json.segments[1]).toMatchObject({ speaker: 'Speaker 1', start: 2, text: 'General Kenobi!' });
+    expect(json.segments[0].words[1]).toEqual({ word: 'there.', start: 0.5, end: 0.9, confidence: 1 });
+  });
+});
+
+describe('toPlainText', () => {
+  it('joins consecutive results of a speaker into paragraphs', () => {
+    const text = toPlainText([...conversation, result('Kill him.', 4, 1)], { timestamps: true });
+    expect(text).toBe('[00:00:00] Speaker 0: Hello there.\n\n[00:00:02] Speaker 1: General Kenobi! Kill him.\n');
+  });
+  
+  it('leaves out speakers when asked', () => {
+    expect(toPlainText(conversation, { includeSpeakers: false })).toBe('Hello there.\n\nGeneral Kenobi!\n');
+  });
+});
+
+describe('exportTranscript', () => {
+  it('dispatches on the format', () => {
+    expect(exportTranscript(conversation, 'vtt')).toBe(toWebVtt(conversation));
+    expect(() => exportTranscript(conversation, 'doc' as any)).toThrow('Unsupported transcript export format');
+  });
+});
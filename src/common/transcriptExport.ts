@@ -0,0 +1,260 @@
+// ABOUTME: Exports transcription results as SRT, WebVTT, JSON or speaker-labeled plain text
+// ABOUTME: Captions are cut from word timings so cues respect line length, line count and duration limits
+
+import { TranscriptionResult, TranscriptionWord } from './types';
+import { splitBySpeaker } from './transcript';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'json' | 'txt';
+
+export interface TranscriptExportOptions {
+  maxLineLength?: number; // Characters per caption line (default 42)
+  maxLines?: number; // Lines per caption cue (default 2)
+  maxCueDuration?: number; // Seconds (default 7)
+  minCueDuration?: number; // Seconds; short cues are extended up to the next one (default 1)
+  includeSpeakers?: boolean; // Label speakers where known (default true)
+  speakerLabel?: (speaker: string | number) => string; // Default `Speaker <n>` for numeric IDs, names as-is
+  timestamps?: boolean; // Prefix plain-text paragraphs with their start time (default false)
+}
+
+export interface CaptionCue {
+  start: number; // Seconds
+  end: number;
+  speaker?: string | number;
+  lines: string[];
+}
+
+function speakerLabel(speaker: string | number, options: TranscriptExportOptions): string {
+  if (options.speakerLabel) return options.speakerLabel(speaker);
+  return typeof speaker === 'number' ? `Speaker ${speaker}` : speaker;
+}
+
+function wordText(word: TranscriptionWord): string {
+  return word.punctuatedWord ?? word.word;
+}
+
+// Greedy word wrap; a single word longer than the limit gets a line of its own
+function wrapLines(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxLineLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+function finalResults(results: TranscriptionResult[]): TranscriptionResult[] {
+  return results
+    .filter(result => result.isFinal !== false && result.transcript.trim())
+    .flatMap(result => splitBySpeaker(result));
+}
+
+// Splits results into caption cues. `prefixFor` returns text shown before the cue (e.g. an SRT speaker label),
+// which counts towards the first line's length. Every result needs word timings or a start and end; there is
+// nothing to place the others on the timeline by, so they are refused rather than given made-up times.
+export function buildCaptionCues(
+  results: TranscriptionResult[],
+  options: TranscriptExportOptions = {},
+  prefixFor: (speaker?: string | number) => string = () => ''
+): CaptionCue[] {
+  const maxLineLength = options.maxLineLength ?? 42;
+  const maxLines = options.maxLines ?? 2;
+  const maxCueDuration = options.maxCueDuration ?? 7;
+  const minCueDuration = options.minCueDuration ?? 1;
+  
+  const fits = (text: string, speaker?: string | number) =>
+    wrapLines(prefixFor(speaker) + text, maxLineLength).length <= maxLines;
+  
+  const finals = finalResults(results);
+  const untimed = finals.filter(result =>
+    !(result.words || []).some(word => wordText(word)) && (result.start === undefined || result.end === undefined)
+  ).length;
+  if (untimed > 0) {
+    throw new Error(`${untimed} result(s) have no start and end times, so they cannot be captioned; export txt or json instead`);
+  }
+  
+  const cues: CaptionCue[] = [];
+  const texts: string[] = [];
+  
+  const push = (start: number, end: number, text: string, speaker?: string | number) => {
+    cues.push({ start, end: Math.max(end, start + 0.001), speaker, lines: [] });
+    texts.push(text);
+  };
+  
+  for (const result of finals) {
+    const words = (result.words || []).filter(word => wordText(word));
+    
+    if (words.length > 0) {
+      let text = '';
+      let start = words[0].start;
+      let end = words[0].end;
+      let previous = '';
+      
+      for (const word of words) {
+        const candidate = text ? `${text} ${wordText(word)}` : wordText(word);
+        const sentenceBreak = /[.?!]$/.test(previous) && end - start >= minCueDuration;
+        if (text && (sentenceBreak || !fits(candidate, result.speaker) || word.end - start > maxCueDuration)) {
+          push(start, end, text, result.speaker);
+          text = wordText(word);
+          start = word.start;
+        } else {
+          text = candidate;
+        }
+        end = word.end;
+        previous = wordText(word);
+      }
+      push(start, end, text, result.speaker);
+      continue;
+    }
+    
+    // Without word timings the segment is cut into pieces timed by their share of the text
+    const segmentStart = result.start as number;
+    const segmentEnd = result.end as number;
+    const pieces: string[] = [];
+    for (const word of result.transcript.split(/\s+/).filter(Boolean)) {
+      const last = pieces[pieces.length - 1];
+      if (last !== undefined && fits(`${last} ${word}`, result.speaker)) {
+        pieces[pieces.length - 1] = `${last} ${word}`;
+      } else {
+        pieces.push(word);
+      }
+    }
+    
+    const totalChars = pieces.reduce((sum, piece) => sum + piece.length, 0);
+    let pieceStart = segmentStart;
+    for (const piece of pieces) {
+      const pieceEnd = pieceStart + (segmentEnd - segmentStart) * (piece.length / totalChars);
+      push(pieceStart, pieceEnd, piece, result.speaker);
+      pieceStart = pieceEnd;
+    }
+  }
+  
+  // Short cues stay up longer, but never over the next one
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1];
+    const limit = next ? Math.max(next.start, cue.end) : Infinity;
+    cue.end = Math.min(Math.max(cue.end, cue.start + minCueDuration), limit);
+    cue.lines = wrapLines(texts[index], maxLineLength);
+  });
+  
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: string): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function toSrt(results: TranscriptionResult[], options: TranscriptExportOptions = {}): string {
+  const includeSpeakers = options.includeSpeakers ?? true;
+  const prefixFor = (speaker?: string | number) =>
+    includeSpeakers && speaker !== undefined ? `${speakerLabel(speaker, options)}: ` : '';
+  
+  // The label is wrapped together with the text so it counts towards the line length
+  return buildCaptionCues(results, options, prefixFor)
+    .map((cue, index) => {
+      const lines = wrapLines(prefixFor(cue.speaker) + cue.lines.join(' '), options.maxLineLength ?? 42);
+      return `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${lines.join('\n')}\n`;
+    })
+    .join('\n');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toWebVtt(results: TranscriptionResult[], options: TranscriptExportOptions = {}): string {
+  const includeSpeakers = options.includeSpeakers ?? true;
+  
+  const cues = buildCaptionCues(results, options).map(cue => {
+    const lines = cue.lines.map(escapeVtt);
+    if (includeSpeakers && cue.speaker !== undefined) {
+      lines[0] = `<v ${escapeVtt(speakerLabel(cue.speaker, options))}>${lines[0]}`;
+    }
+    return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${lines.join('\n')}\n`;
+  });
+  
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function toTranscriptJson(results: TranscriptionResult[], options: TranscriptExportOptions = {}): string {
+  const includeSpeakers = options.includeSpeakers ?? true;
+  const segments = finalResults(results).map(result => ({
+    speaker: includeSpeakers && result.speaker !== undefined ? speakerLabel(result.speaker, options) : undefined,
+    start: result.start,
+    end: result.end,
+    text: result.transcript,
+    confidence: result.confidence,
+    words: result.words?.map(word => ({
+      word: wordText(word),
+      start: word.start,
+      end: word.end,
+      confidence: word.confidence
+    }))
+  }));
+  
+  const speakers = Array.from(new Set(segments.map(segment => segment.speaker).filter(Boolean)));
+  const ends = segments.map(segment => segment.end).filter((end): end is number => end !== undefined);
+  
+  return JSON.stringify({
+    duration: ends.length > 0 ? Math.max(...ends) : undefined,
+    speakers,
+    segments
+  }, null, 2);
+}
+
+export function toPlainText(results: TranscriptionResult[], options: TranscriptExportOptions = {}): string {
+  const includeSpeakers = options.includeSpeakers ?? true;
+  const paragraphs: { speaker?: string | number; start?: number; texts: string[] }[] = [];
+  
+  // Consecutive results from the same speaker form one paragraph
+  for (const result of finalResults(results)) {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === result.speaker) {
+      last.texts.push(result.transcript.trim());
+    } else {
+      paragraphs.push({ speaker: result.speaker, start: result.start, texts: [result.transcript.trim()] });
+    }
+  }
+  
+  if (paragraphs.length === 0) return '';
+  
+  return paragraphs
+    .map(paragraph => {
+      const time = options.timestamps && paragraph.start !== undefined
+        ? `[${formatTimestamp(paragraph.start, '.').slice(0, 8)}] `
+        : '';
+      const label = includeSpeakers && paragraph.speaker !== undefined
+        ? `${speakerLabel(paragraph.speaker, options)}: `
+        : '';
+      return `${time}${label}${paragraph.texts.join(' ')}`;
+    })
+    .join('\n\n') + '\n';
+}
+
+export function exportTranscript(
+  results: TranscriptionResult[],
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(results, options);
+    case 'vtt':
+      return toWebVtt(results, options);
+    case 'json':
+      return toTranscriptJson(results, options);
+    case 'txt':
+      return toPlainText(results, options);
+    default:
+      throw new Error(`Unsupported transcript export format: ${format}`);
+  }
+}
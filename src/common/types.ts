@@ -1,11 +1,26 @@
 // ABOUTME: Type definitions for the audio-stream-transcribe module
 // ABOUTME: Provides common interfaces and types used across the package
 
+import type { EventEmitter } from 'eventemitter3';
+
+export interface TranscriptionWord {
+  word: string;
+  punctuatedWord?: string;
+  start: number; // Seconds from the start of the session audio
+  end: number;
+  confidence?: number;
+  speaker?: string | number;
+}
+
 export interface TranscriptionResult {
   transcript: string;
   speaker?: string | number;
   confidence?: number;
   timestamp?: number;
+  isFinal?: boolean;
+  start?: number; // Segment start in seconds of session audio
+  end?: number;
+  words?: TranscriptionWord[];
   metadata?: Record<string, any>;
 }
 
@@ -15,6 +30,8 @@ export interface AudioChunk {
   format: AudioFormat;
   sessionId: string;
   sequenceNumber?: number;
+  startTime?: number; // ms of session audio covered by the chunk, when the container could be parsed
+  endTime?: number;
 }
 
 export interface AudioFormat {
@@ -22,6 +39,19 @@ export interface AudioFormat {
   sampleRate?: number;
   channels?: number;
   bitDepth?: number;
+  encoding?: string; // Codec or sample encoding, e.g. 'opus' or 'linear16'
+}
+
+// One audio format a provider accepts; omitted lists accept any value
+export interface AudioFormatSupport {
+  mimeType: string; // Matched on the base type, parameters are ignored
+  encodings?: string[];
+  sampleRates?: number[];
+  channels?: number[];
+}
+
+export interface ProviderCapabilities {
+  formats?: AudioFormatSupport[]; // Omitted or empty accepts any format
 }
 
 export interface ConnectionParams {
@@ -32,12 +62,143 @@ export interface ConnectionParams {
 }
 
 export interface ServerOptions {
-  transcriptionProvider: TranscriptionProvider;
+  transcriptionProvider: TranscriptionProvider | StreamingTranscriptionProvider;
   enableLLMProcessing?: boolean;
   maxConnectionsPerUser?: number;
   connectionTimeout?: number;
   pingInterval?: number;
   pongTimeout?: number;
+  audioRetentionMs?: number; // Demuxed WebM/Ogg audio kept per session for getSessionAudio (default 5 minutes)
+  vad?: VadOptions | boolean; // Gate silence before it reaches the provider (off by default)
+  recording?: RecordingOptions; // Persist each recording's audio (off by default)
+  transcriptStore?: TranscriptStore; // Keeps every final result for later retrieval
+  sessionResume?: SessionResumeOptions | boolean; // Keep sessions through reconnects (off by default)
+  flowControl?: ServerFlowControlOptions | boolean; // Acks and per-session buffer limits (default on)
+}
+
+export interface ServerFlowControlOptions {
+  maxBufferedBytes?: number; // Audio a session may have waiting for the provider before new chunks are dropped (default 2 MiB)
+  ackIntervalMs?: number; // Time between ack messages while audio arrives (default 250)
+}
+
+// A disconnected session keeps its provider stream, recording and LLM batch until a client resumes it with its token
+export interface SessionResumeOptions {
+  gracePeriodMs?: number; // How long a disconnected session waits for its client (default 30000)
+  maxMissedTranscripts?: number; // Recent final results kept for resending to a resumed client (default 100)
+}
+
+export interface StoredTranscript extends TranscriptionResult {
+  sessionId: string;
+  userId?: string;
+  storedAt: number; // ms since epoch
+}
+
+export interface TranscriptQuery {
+  sessionId?: string;
+  userId?: string;
+  from?: number; // Inclusive, ms since epoch (storedAt)
+  to?: number; // Exclusive
+  limit?: number; // Page size (default 100)
+  cursor?: string; // nextCursor from the previous page
+}
+
+export interface TranscriptPage {
+  results: StoredTranscript[];
+  nextCursor?: string; // Absent on the last page
+}
+
+export interface TranscriptSessionSummary {
+  sessionId: string;
+  userId?: string;
+  resultCount: number;
+  firstAt: number;
+  lastAt: number;
+}
+
+export interface TranscriptStore {
+  append(transcript: StoredTranscript): Promise<void>;
+  getSession(sessionId: string): Promise<StoredTranscript[]>;
+  listSessions(userId: string): Promise<TranscriptSessionSummary[]>; // Most recent first
+  query(query: TranscriptQuery): Promise<TranscriptPage>; // Oldest first
+}
+
+export interface RecordingStorage {
+  // Calls for one key are made in order, each after the previous one settled
+  create(key: string, contentType: string): Promise<void>;
+  append(key: string, data: Buffer): Promise<void>;
+  // `header` overwrites the first bytes, e.g. a WAV header whose sizes are only known now; returns the location
+  complete(key: string, header?: Buffer): Promise<string>;
+  abort(key: string): Promise<void>;
+  read(key: string): Promise<Buffer | null>;
+}
+
+export interface RecordingOptions {
+  storage: RecordingStorage;
+  keyPrefix?: string; // Prepended to `<sessionId>/<startedAt>.<ext>`
+  maxSavedRecordings?: number; // Recordings remembered for getRecording (default 1000)
+}
+
+export interface RecordingInfo {
+  sessionId: string;
+  key: string;
+  location: string;
+  format: AudioFormat;
+  contentType: string;
+  bytes: number;
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface VoiceActivityDetector {
+  // Whether audio in this format can be analyzed; unsupported audio is forwarded without detection
+  supports(format: AudioFormat): boolean;
+  // Called with consecutive frames of session audio (PCM is split into `frameMs` frames, other formats per chunk)
+  isSpeech(frame: Buffer, format: AudioFormat): boolean | Promise<boolean>;
+}
+
+export interface VadOptions {
+  detector?: () => VoiceActivityDetector; // Called once per recording; defaults to the energy detector
+  frameMs?: number; // Analysis frame for PCM audio (default 20)
+  minSpeechMs?: number; // Speech needed before speech-start, so clicks do not open the gate (default 100)
+  hangoverMs?: number; // Silence still forwarded after speech before speech-end (default 800)
+  preRollMs?: number; // Silence before speech-start that is forwarded with it, so onsets are not clipped (default 300)
+  gateAudio?: boolean; // Drop silence outside the pre-roll and hangover (PCM only, default true)
+}
+
+export interface VadStats {
+  audioMs: number;
+  speechMs: number;
+  silenceMs: number;
+  suppressedMs: number; // Audio not forwarded to the provider
+  silenceRatio: number;
+  speaking: boolean;
+}
+
+export interface AudioSequencerStats {
+  duplicates: number; // Chunks dropped because they were already received
+  reordered: number; // Chunks that arrived ahead of a missing one
+  missing: number; // Chunks skipped because they never arrived
+}
+
+export interface SessionStats {
+  sessionId: string;
+  bytesReceived: number;
+  chunksReceived: number;
+  vad?: VadStats;
+  sequencing?: AudioSequencerStats; // Current or last recording, for clients that number their chunks
+  flow?: FlowStats;
+}
+
+export interface FlowStats {
+  bufferedBytes: number; // Received audio not yet transcribed, including the provider's backlog
+  peakBufferedBytes: number;
+  received: number; // Sequence number (or index, for unnumbered chunks) of the last chunk received in order
+  processed: number; // Last chunk handed to the provider or discarded
+  lagChunks: number; // received - processed
+  droppedChunks: number; // Discarded because the session's buffer was full
+  droppedBytes: number;
+  overloads: number; // Times the buffer limit was reached
+  overloaded: boolean;
 }
 
 export interface ClientOptions {
@@ -47,10 +208,93 @@ export interface ClientOptions {
   reconnectDelay?: number;
   maxReconnectAttempts?: number;
   audioFormat?: Partial<AudioFormat>;
+  deviceId?: string; // Audio input to record from; see listAudioInputs (default device when unset)
+  audioConstraints?: MediaTrackConstraints; // Merged over echoCancellation/noiseSuppression/autoGainControl: true
+  captureMode?: CaptureMode;
+  pcmSampleRate?: number; // Output rate in 'pcm' mode (default 16000)
+  frameDurationMs?: number; // Frame size in 'pcm' mode, 20-100 ms (default 40)
+  levelMetering?: LevelMeteringOptions | boolean; // audio-level events while recording (default on)
+  offlineBuffer?: OfflineBufferOptions | boolean; // Keep recording through reconnects and replay the audio (default on)
+  flowControl?: ClientFlowControlOptions; // When and how to back off from a slow connection or server
   pingInterval?: number;
   pongTimeout?: number;
 }
 
+// 'media-recorder' streams compressed 1 s container chunks; 'pcm' streams small linear16 mono frames
+export type CaptureMode = 'media-recorder' | 'pcm';
+
+// What startRecording captures; several sources are mixed into one recording
+export type RecordingSource = 'microphone' | MediaStream | HTMLMediaElement;
+
+export interface AudioInputDevice {
+  deviceId: string;
+  groupId: string;
+  label: string; // Empty until the user has granted microphone access
+}
+
+// Audio is kept until it is older or larger than these limits, sent or not, so it can be replayed after a reconnect
+export interface OfflineBufferOptions {
+  maxBytes?: number; // Default 5 MiB
+  maxDurationMs?: number; // Default 60000
+}
+
+export interface SessionResumedEvent {
+  sessionId: string;
+  missedTranscripts: number; // Final results produced while disconnected, delivered as transcription events
+}
+
+// 'throttle' holds audio back in the offline buffer until the connection catches up; 'drop' discards it.
+// Dropping suits 'pcm' capture, where every frame stands alone.
+export type BackpressurePolicy = 'throttle' | 'drop';
+
+export interface ClientFlowControlOptions {
+  policy?: BackpressurePolicy; // Default 'throttle'; 'drop' is used when the offline buffer is disabled
+  maxBufferedAmount?: number; // WebSocket.bufferedAmount above which sending backs off (default 256 KiB)
+  maxAckLagMs?: number; // Age of the oldest unacknowledged chunk above which sending backs off (default 5000)
+}
+
+export interface ClientFlowStats {
+  bufferedAmount: number; // Bytes queued in the WebSocket
+  unsentChunks: number; // Held back by throttling or while disconnected
+  unackedChunks: number; // Sent but not yet acknowledged by the server
+  ackLagMs: number; // Age of the oldest unacknowledged chunk
+  droppedChunks: number; // Discarded by the 'drop' policy or a full offline buffer
+  droppedBytes: number;
+  throttled: boolean;
+  serverOverloaded: boolean;
+}
+
+export interface BackpressureEvent {
+  active: boolean;
+  stats: ClientFlowStats;
+}
+
+export interface AudioDroppedEvent {
+  chunks: number; // Unsent chunks discarded by a full offline buffer, by backpressure, or while offline without a buffer
+  bytes: number;
+}
+
+export interface LevelMeteringOptions {
+  intervalMs?: number; // Time between audio-level events (default 100)
+  silenceThreshold?: number; // RMS (0..1) below which input counts as silent (default 0.003, about -50 dBFS)
+  silenceTimeoutMs?: number; // Silence before a silence-warning (default 3000)
+}
+
+export interface AudioLevel {
+  rms: number; // 0..1
+  peak: number; // 0..1
+  db: number; // RMS in dBFS, -Infinity for digital silence
+  clipping: boolean; // Peak reached full scale
+  silent: boolean; // Input has stayed below the silence threshold for silenceTimeoutMs
+  timestamp: number;
+}
+
+export interface SilenceWarning {
+  durationMs: number;
+  muted: boolean; // The track is muted or disabled, e.g. by the OS or hardware switch
+  timestamp: number;
+}
+
 export abstract class TranscriptionProvider {
   abstract initialize(): Promise<void>;
   abstract processAudio(audioData: Buffer | ArrayBuffer, metadata?: any): Promise<TranscriptionResult>;
@@ -59,6 +303,60 @@ export abstract class TranscriptionProvider {
   // Optional methods
   updateConfiguration?(config: any): Promise<void>;
   getStats?(): any;
+  getCapabilities?(): ProviderCapabilities;
+}
+
+export interface TranscriptionStreamOptions {
+  sessionId: string;
+  userId?: string;
+  metadata?: Record<string, any>;
+}
+
+// Turn-taking signal; audioTime is seconds of session audio when the provider reports it
+export interface SpeechEvent {
+  timestamp: number;
+  audioTime?: number;
+  source?: 'provider' | 'vad';
+}
+
+export type TranscriptionStreamEvent =
+  | { type: 'result'; result: TranscriptionResult }
+  | ({ type: 'speech-start' } & SpeechEvent)
+  | ({ type: 'utterance-end' } & SpeechEvent);
+
+export interface ProviderSwitchEvent {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface TranscriptionStreamEvents {
+  result: (result: TranscriptionResult) => void;
+  'speech-start': (params: SpeechEvent) => void;
+  'utterance-end': (params: SpeechEvent) => void;
+  'provider-switch': (params: ProviderSwitchEvent) => void;
+  error: (error: Error) => void;
+  close: () => void;
+}
+
+export interface TranscriptionStream
+  extends EventEmitter<TranscriptionStreamEvents>, AsyncIterable<TranscriptionStreamEvent> {
+  readonly sessionId: string;
+  readonly bufferedBytes?: number; // Audio written but not yet transcribed, for streams that queue it
+  write(audioData: Buffer | ArrayBuffer): void;
+  finalize(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export abstract class StreamingTranscriptionProvider {
+  abstract initialize(): Promise<void>;
+  abstract createStream(options: TranscriptionStreamOptions): Promise<TranscriptionStream>;
+  abstract cleanup(): Promise<void>;
+  
+  // Optional methods
+  updateConfiguration?(config: any): Promise<void>;
+  getStats?(): any;
+  getCapabilities?(): ProviderCapabilities;
 }
 
 export enum ConnectionState {
@@ -78,18 +376,35 @@ export enum RecordingState {
 
 export interface ServerEvents {
   connection: (params: { sessionId: string; userId?: string }) => void;
-  disconnection: (params: { sessionId: string; userId?: string; reason?: string }) => void;
+  disconnection: (params: { sessionId: string; userId?: string; reason?: string; resumable?: boolean }) => void;
+  'session-resumed': (params: { sessionId: string; userId?: string; missedTranscripts: number }) => void;
+  'session-expired': (params: { sessionId: string; userId?: string }) => void; // Not resumed within the grace period
+  overload: (params: { sessionId: string; bufferedBytes: number; maxBufferedBytes: number }) => void;
   transcription: (params: TranscriptionResult & { sessionId: string }) => void;
   'audio-chunk': (chunk: AudioChunk) => void;
+  'speech-start': (params: SpeechEvent & { sessionId: string }) => void;
+  'utterance-end': (params: SpeechEvent & { sessionId: string }) => void;
+  'speech-end': (params: SpeechEvent & { sessionId: string }) => void;
+  'recording-saved': (recording: RecordingInfo) => void;
   error: (params: { sessionId: string; error: Error }) => void;
   'llm-request': (params: { sessionId: string; audio?: Buffer; metadata?: any }) => void;
+  'provider-switch': (params: ProviderSwitchEvent & { sessionId: string }) => void;
 }
 
 export interface ClientEvents {
   connected: () => void;
   disconnected: (reason?: string) => void;
   transcription: (result: TranscriptionResult) => void;
+  'speech-start': (event: SpeechEvent) => void;
+  'utterance-end': (event: SpeechEvent) => void;
   error: (error: Error) => void;
   'connection-state': (state: ConnectionState) => void;
   'recording-state': (state: RecordingState) => void;
+  'audio-level': (level: AudioLevel) => void;
+  'silence-warning': (warning: SilenceWarning) => void;
+  'devices-changed': (devices: AudioInputDevice[]) => void;
+  'input-device': (device: AudioInputDevice | null) => void; // The device being recorded from changed
+  'audio-dropped': (event: AudioDroppedEvent) => void;
+  'session-resumed': (event: SessionResumedEvent) => void;
+  backpressure: (event: BackpressureEvent) => void; // Sending started or stopped backing off
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+// ABOUTME: Tests for the WAV header writer and parser and the PCM level helper
+
+import { createWavHeader, parseWavHeader, pcm16Rms, WAV_HEADER_SIZE } from './wav';
+
+describe('WAV headers', () => {
+  it('round-trips through the parser', () => {
+    const header = createWavHeader(3200, { sampleRate: 16000, channels: 2 });
+    
+    expect(header.byteLength).toBe(WAV_HEADER_SIZE);
+    expect(parseWavHeader(header)).toEqual({
+      sampleRate: 16000,
+      channels: 2,
+      bitDepth: 16,
+      dataOffset: WAV_HEADER_SIZE,
+      dataLength: 3200
+    });
+  });
+  
+  it('waits for more bytes before the data chunk', () => {
+    expect(parseWavHeader(createWavHeader(0, { sampleRate: 8000 }).subarray(0, 30))).toBeNull();
+  });
+  
+  it('rejects files that are not WAV', () => {
+    expect(() => parseWavHeader(new TextEncoder().encode('OggS0000000000000'))).toThrow('Not a WAV file');
+  });
+});
+
+describe('pcm16Rms', () => {
+  it('measures the level of 16-bit samples', () => {
+    const samples = new Int16Array([16384, -16384, 16384, -16384]);
+    expect(pcm16Rms(new Uint8Array(samples.buffer))).toBeCloseTo(0.5);
+    expect(pcm16Rms(new Uint8Array(0))).toBe(0);
+  });
+});
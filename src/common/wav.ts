@@ -0,0 +1,104 @@
+// ABOUTME: Minimal WAV container helpers for linear PCM audio
+// ABOUTME: Shared by the browser client and server-side providers, so it only relies on typed arrays
+
+export interface WavOptions {
+  sampleRate: number;
+  channels?: number;
+  bitDepth?: number;
+}
+
+export const WAV_HEADER_SIZE = 44;
+
+export function createWavHeader(dataLength: number, options: WavOptions): Uint8Array {
+  const channels = options.channels ?? 1;
+  const bitDepth = options.bitDepth ?? 16;
+  const blockAlign = channels * (bitDepth / 8);
+  const byteRate = options.sampleRate * blockAlign;
+  
+  const header = new Uint8Array(WAV_HEADER_SIZE);
+  const view = new DataView(header.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header[offset + i] = value.charCodeAt(i);
+    }
+  };
+  
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, options.sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+  
+  return header;
+}
+
+// Root-mean-square level of 16-bit little-endian PCM, normalized to 0..1
+export function pcm16Rms(data: Uint8Array): number {
+  const samples = Math.floor(data.byteLength / 2);
+  if (samples === 0) return 0;
+  
+  const view = new DataView(data.buffer, data.byteOffset, samples * 2);
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = view.getInt16(i * 2, true) / 32768;
+    sum += sample * sample;
+  }
+  
+  return Math.sqrt(sum / samples);
+}
+
+export interface WavHeaderInfo extends Required<WavOptions> {
+  dataOffset: number; // Byte offset of the sample data
+  dataLength: number; // As declared; streaming writers often leave this at 0 or 0xFFFFFFFF
+}
+
+// Parses a WAV header from the start of a file. Returns null until enough bytes are available
+// to reach the data chunk, and throws for files that are not linear PCM WAV.
+export function parseWavHeader(data: Uint8Array): WavHeaderInfo | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const readString = (offset: number) => String.fromCharCode(...Array.from(data.subarray(offset, offset + 4)));
+  
+  if (data.byteLength < 12) return null;
+  if (readString(0) !== 'RIFF' || readString(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+  
+  let format: Required<WavOptions> | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const id = readString(offset);
+    const size = view.getUint32(offset + 4, true);
+    
+    if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk precedes its fmt chunk');
+      return { ...format, dataOffset: offset + 8, dataLength: size };
+    }
+    
+    if (id === 'fmt ') {
+      if (offset + 24 > data.byteLength) return null;
+      const audioFormat = view.getUint16(offset + 8, true);
+      // 0xFFFE is WAVE_FORMAT_EXTENSIBLE, used for PCM with more than two channels or 24-bit samples
+      if (audioFormat !== 1 && audioFormat !== 0xfffe) {
+        throw new Error(`Unsupported WAV encoding ${audioFormat}; only linear PCM is supported`);
+      }
+      format = {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitDepth: view.getUint16(offset + 22, true)
+      };
+    }
+    
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+  
+  return null;
+}
@@ -6,4 +6,5 @@ export * from './server';
 
 // Note: Client-side and React exports should be imported from their specific paths:
 // - Client: 'audio-stream-transcribe/client'
-// - React: 'audio-stream-transcribe/react'
\ No newline at end of file
+// - React: 'audio-stream-transcribe/react'
+// - Node.js client: 'audio-stream-transcribe/node'
\ No newline at end of file
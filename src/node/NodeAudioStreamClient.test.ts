@@ -0,0 +1,176 @@
+// ABOUTME: Tests for the Node.js streaming client against a real AudioStreamServer on a local port
+// ABOUTME: Covers WAV detection, numbered chunks and acks, pacing, format rejection, early stops and server errors
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import WebSocket from 'ws';
+import { NodeAudioStreamClient } from './NodeAudioStreamClient';
+import { AudioStreamServer } from '../server/AudioStreamServer';
+import { MockTranscriptionProvider, MockTranscriptionProviderOptions } from '../providers/MockTranscriptionProvider';
+import { createWavHeader } from '../common/wav';
+import { ConnectionState, RecordingState, ServerOptions } from '../common/types';
+
+const PCM = { mimeType: 'audio/pcm', encoding: 'linear16', sampleRate: 16000, channels: 1, bitDepth: 16 };
+
+interface Harness {
+  url: string;
+  server: AudioStreamServer;
+  provider: MockTranscriptionProvider;
+  close(): Promise<void>;
+}
+
+async function start(
+  providerOptions: MockTranscriptionProviderOptions = { text: 'chunk' },
+  options: Partial<ServerOptions> = {}
+): Promise<Harness> {
+  const provider = new MockTranscriptionProvider(providerOptions);
+  const server = new AudioStreamServer({ transcriptionProvider: provider, ...options });
+  const wss = new WebSocket.Server({ port: 0, host: '127.0.0.1' });
+  await new Promise(resolve => wss.once('listening', resolve));
+  wss.on('connection', ws => {
+    server.handleConnection({ websocket: ws, sessionId: 'node-session' });
+  });
+  
+  return {
+    url: `ws://127.0.0.1:${(wss.address() as { port: number }).port}`,
+    server,
+    provider,
+    close: async () => {
+      await server.cleanup();
+      await new Promise(resolve => wss.close(resolve));
+    }
+  };
+}
+
+describe('NodeAudioStreamClient', () => {
+  let harness: Harness;
+  let client: NodeAudioStreamClient;
+  
+  afterEach(async () => {
+    client?.disconnect();
+    await harness?.close();
+    jest.restoreAllMocks();
+  });
+  
+  async function connect(options: Partial<ServerOptions> = {}, providerOptions?: MockTranscriptionProviderOptions) {
+    harness = await start(providerOptions, options);
+    client = new NodeAudioStreamClient({ websocketUrl: harness.url });
+    await client.connect();
+  }
+  
+  it('streams a WAV file using the format from its header', async () => {
+    await connect();
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'node-client-'));
+    const file = path.join(directory, 'speech.wav');
+    const audio = Buffer.alloc(16000, 1); // 0.5 s at 16 kHz mono
+    await fs.writeFile(file, Buffer.concat([Buffer.from(createWavHeader(audio.length, { sampleRate: 16000 })), audio]));
+    
+    try {
+      const result = await client.streamFile(file, { pace: 'fast' });
+      
+      expect(result.format).toMatchObject({ mimeType: 'audio/pcm', sampleRate: 16000, channels: 1 });
+      expect(result.bytesSent).toBe(audio.length);
+      expect(result.results).toHaveLength(5);
+      expect(result.transcript).toBe('chunk chunk chunk chunk chunk');
+      expect(result.stopped).toBe(false);
+      expect(harness.provider.getReceivedAudio('node-session')).toEqual(audio);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+  
+  it('numbers its chunks and waits for acks when the server\'s buffer is full', async () => {
+    await connect({ flowControl: { maxBufferedBytes: 8000, ackIntervalMs: 10 } });
+    const send = jest.spyOn(WebSocket.prototype, 'send');
+    const audio = Buffer.alloc(32000, 1); // 1 s at 16 kHz mono, four times the server's buffer
+    
+    const result = await client.stream(Readable.from([audio]), { format: PCM, pace: 'fast' });
+    
+    const start = send.mock.calls.map(([data]) => String(data)).find(data => data.includes('"start-recording"'));
+    expect(JSON.parse(start as string)).toMatchObject({ sequenceBase: 0 });
+    expect(result.bytesSent).toBe(audio.length);
+    expect(harness.provider.getReceivedAudio('node-session')).toEqual(audio);
+  });
+  
+  it('paces audio at the requested speed', async () => {
+    await connect();
+    const started = Date.now();
+    const result = await client.stream(Readable.from([Buffer.alloc(6400)]), { format: PCM, pace: 2 });
+    
+    // 200 ms of audio at double speed; the last chunk goes out without waiting
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    expect(result.bytesSent).toBe(6400);
+  });
+  
+  it('requires a format for raw sources and fails when the server rejects it', async () => {
+    await connect({}, { text: 'x', formats: [{ mimeType: 'audio/pcm' }] });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    
+    await expect(client.stream(Readable.from([Buffer.alloc(10)]))).rejects.toThrow('Audio format is required');
+    await expect(client.stream(Readable.from([Buffer.alloc(10)]), { format: { mimeType: 'audio/webm' } }))
+      .rejects.toThrow('Recording rejected by server');
+    expect(client.getRecordingState()).toBe(RecordingState.IDLE);
+  });
+  
+  it('resolves with the transcript so far when stopped early', async () => {
+    await connect();
+    const source = new Readable({ read() { this.push(Buffer.alloc(3200)); } });
+    const streaming = client.stream(source, { format: PCM, pace: 'realtime' });
+    setTimeout(() => client.stop(), 250);
+    
+    const result = await streaming;
+    expect(result.stopped).toBe(true);
+    expect(result.bytesSent).toBeGreaterThan(0);
+    expect(result.bytesSent).toBeLessThan(3200 * 5);
+    expect(source.destroyed).toBe(false);
+  });
+  
+  it('pauses and resumes a stream', async () => {
+    await connect();
+    const states: RecordingState[] = [];
+    client.on('recording-state', state => states.push(state));
+    const streaming = client.stream(Readable.from([Buffer.alloc(9600)]), { format: PCM, pace: 'realtime' });
+    
+    await new Promise(resolve => setTimeout(resolve, 50));
+    client.pause();
+    expect(() => client.pause()).toThrow('Not currently recording');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    client.resume();
+    
+    expect((await streaming).bytesSent).toBe(9600);
+    expect(states).toEqual([
+      RecordingState.RECORDING,
+      RecordingState.PAUSED,
+      RecordingState.RECORDING,
+      RecordingState.STOPPING,
+      RecordingState.IDLE
+    ]);
+  });
+  
+  it('fails a stream when the connection drops', async () => {
+    await connect();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const streaming = client.stream(new Readable({ read() { this.push(Buffer.alloc(3200)); } }), {
+      format: PCM,
+      pace: 'realtime'
+    });
+    setTimeout(() => harness.server.cleanup(), 100);
+    
+    await expect(streaming).rejects.toThrow('Disconnected');
+    expect(client.getConnectionState()).toBe(ConnectionState.DISCONNECTED);
+  });
+  
+  it('rejects connect when the server is unreachable', async () => {
+    harness = await start();
+    const url = harness.url;
+    await harness.close();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    client = new NodeAudioStreamClient({ websocketUrl: url });
+    await expect(client.connect()).rejects.toThrow('Failed to connect');
+    expect(client.getConnectionState()).toBe(ConnectionState.ERROR);
+    harness = await start();
+  });
+});
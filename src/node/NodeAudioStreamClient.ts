@@ -0,0 +1,697 @@
+// ABOUTME: Node.js streaming client for files, stdin and server-to-server use
+// ABOUTME: Speaks the same WebSocket protocol as the browser client and paces audio at real-time or faster
+
+import { createReadStream } from 'fs';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import WebSocket from 'ws';
+import { EventEmitter } from 'eventemitter3';
+import {
+  AudioFormat,
+  ClientEvents,
+  ConnectionState,
+  RecordingState,
+  TranscriptionResult
+} from '../common/types';
+import { isLinearPcm, normalizeAudioFormat } from '../common/audioFormat';
+import { parseWavHeader } from '../common/wav';
+import { encodeSequencedChunk } from '../common/sequence';
+import {
+  ClientMessage,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  ServerMessage,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from '../common/protocol';
+
+export interface NodeClientOptions {
+  websocketUrl: string;
+  authToken?: string; // Sent as the `token` query parameter, like the browser client
+  headers?: Record<string, string>; // Extra handshake headers, e.g. for server-to-server auth
+  connectTimeout?: number; // ms (default 10000)
+  pingInterval?: number;
+  pongTimeout?: number;
+}
+
+// 'realtime' sends audio as fast as it plays, 'fast' as fast as the connection drains, a number is a speed multiplier
+export type StreamPace = 'realtime' | 'fast' | number;
+
+export interface StreamOptions {
+  format?: Partial<AudioFormat>; // Required for raw PCM and unrecognized files; WAV headers are read automatically
+  pace?: StreamPace; // Default 'realtime'
+  chunkMs?: number; // Audio per message (default 100)
+  bitrate?: number; // Bits per second used to pace compressed audio (default 128000)
+  finalizeTimeout?: number; // ms to wait for the last transcripts after the audio ends (default 30000)
+}
+
+export interface StreamResult {
+  transcript: string; // Final results joined with spaces
+  results: TranscriptionResult[]; // Final results in arrival order
+  format: AudioFormat; // Format accepted by the server
+  bytesSent: number;
+  stopped: boolean; // stop() was called before the source ended
+}
+
+interface ActiveStream {
+  results: TranscriptionResult[];
+  paused: boolean;
+  stopped: boolean;
+  overloaded: boolean; // The server is dropping audio until its provider catches up
+  sequenceBase: number | null; // First chunk's sequence number when the server accepted numbered chunks
+  sentBytes: number[]; // Total bytes sent after each chunk, to relate acks to bytes
+  ack: { received: number; bufferedBytes: number; maxBufferedBytes: number } | null;
+  wake: (() => void) | null; // Resumes a paused or pacing stream early
+  progress: (() => void) | null; // Resumes a stream waiting for an ack or for the socket to drain
+  fail: (error: Error) => void;
+}
+
+interface PendingReply {
+  request: ClientMessage['type'];
+  types: ServerMessage['type'][];
+  resolve: (message: ServerMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Keeps 'fast' streams from queueing the whole file in the socket's send buffer
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.webm': 'audio/webm',
+  '.weba': 'audio/webm',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'audio/mp4',
+  '.flac': 'audio/flac',
+  '.pcm': 'audio/pcm',
+  '.raw': 'audio/pcm'
+};
+
+export class NodeAudioStreamClient extends EventEmitter<ClientEvents> {
+  private ws: WebSocket | null = null;
+  private connectionState: ConnectionState = ConnectionState.DISCONNECTED;
+  private recordingState: RecordingState = RecordingState.IDLE;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private pongTimer: NodeJS.Timeout | null = null;
+  private pendingReply: PendingReply | null = null;
+  private active: ActiveStream | null = null;
+  
+  constructor(private options: NodeClientOptions) {
+    super();
+  }
+  
+  async connect(): Promise<void> {
+    if (this.connectionState === ConnectionState.CONNECTED) {
+      return;
+    }
+    
+    this.setConnectionState(ConnectionState.CONNECTING);
+    
+    try {
+      await this.establishConnection();
+    } catch (error) {
+      this.setConnectionState(ConnectionState.ERROR);
+      throw error;
+    }
+  }
+  
+  private establishConnection(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(this.options.websocketUrl);
+      if (this.options.authToken) {
+        url.searchParams.set('token', this.options.authToken);
+      }
+      
+      const ws = new WebSocket(url.toString(), { headers: this.options.headers });
+      this.ws = ws;
+      
+      const timer = setTimeout(() => {
+        if (this.connectionState === ConnectionState.CONNECTING) {
+          ws.terminate();
+          reject(new Error('Connection timeout'));
+        }
+      }, this.options.connectTimeout ?? 10000);
+      
+      ws.on('open', () => {
+        clearTimeout(timer);
+        this.setConnectionState(ConnectionState.CONNECTED);
+        this.sendMessage({ type: 'hello', protocolVersion: PROTOCOL_VERSION, client: 'audio-stream-transcribe-node' });
+        this.startPingInterval();
+        this.emit('connected');
+        resolve();
+      });
+      
+      ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+        if (!isBinary) {
+          this.handleMessage(data.toString());
+        }
+      });
+      
+      ws.on('error', (error: Error) => {
+        console.error('WebSocket error:', error);
+        if (this.connectionState === ConnectionState.CONNECTING) {
+          clearTimeout(timer);
+          reject(new Error(`Failed to connect: ${error.message}`));
+        } else {
+          this.emit('error', error);
+        }
+      });
+      
+      ws.on('close', (code: number, reason: Buffer) => {
+        clearTimeout(timer);
+        if (this.ws !== ws) return;
+        const wasConnecting = this.connectionState === ConnectionState.CONNECTING;
+        this.handleDisconnection(reason.toString() || `Connection closed (${code})`);
+        if (wasConnecting) {
+          reject(new Error('Failed to connect'));
+        }
+      });
+    });
+  }
+  
+  disconnect(): void {
+    this.stopPingInterval();
+    
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close(1000, 'Client disconnect');
+      this.handleDisconnection('Client disconnect');
+    }
+    
+    this.setConnectionState(ConnectionState.DISCONNECTED);
+  }
+  
+  private handleDisconnection(reason: string): void {
+    this.stopPingInterval();
+    this.ws = null;
+    this.settleReply(new Error(`Disconnected: ${reason}`));
+    this.active?.fail(new Error(`Disconnected while streaming: ${reason}`));
+    this.setConnectionState(ConnectionState.DISCONNECTED);
+    this.emit('disconnected', reason);
+  }
+  
+  private handleMessage(data: string): void {
+    let message: ServerMessage;
+    try {
+      message = parseServerMessage(data);
+    } catch (error) {
+      console.warn('Ignoring invalid server message:', (error as Error).message);
+      return;
+    }
+    
+    if (this.pendingReply?.types.includes(message.type)) {
+      this.settleReply(null, message);
+    }
+    
+    switch (message.type) {
+      case 'welcome':
+        if (!SUPPORTED_PROTOCOL_VERSIONS.includes(message.protocolVersion)) {
+          this.emit('error', new ProtocolError(
+            'unsupported-version',
+            `Server chose unsupported protocol version ${message.protocolVersion}`
+          ));
+          this.disconnect();
+        }
+        break;
+        
+      case 'pong':
+        this.handlePong();
+        break;
+        
+      case 'transcription':
+        if (message.data.isFinal !== false) {
+          this.active?.results.push(message.data);
+        }
+        this.emit('transcription', message.data);
+        break;
+        
+      case 'speech-started':
+        this.emit('speech-start', message.data);
+        break;
+        
+      case 'utterance-end':
+        this.emit('utterance-end', message.data);
+        break;
+        
+      case 'recording-started':
+      case 'recording-rejected':
+      case 'recording-stopped':
+      case 'recording-paused':
+      case 'recording-resumed':
+        // Handled through pending replies
+        break;
+        
+      case 'error': {
+        const error = new ProtocolError(message.code, message.message, message.messageType);
+        // A request the server could not accept fails instead of waiting for its timeout
+        if (this.pendingReply && message.messageType === this.pendingReply.request) {
+          this.settleReply(error);
+        } else {
+          this.emit('error', error);
+        }
+        break;
+      }
+        
+      case 'overload':
+        if (this.active) this.active.overloaded = true;
+        break;
+        
+      case 'overload-cleared':
+        if (this.active) this.active.overloaded = false;
+        this.active?.progress?.();
+        break;
+        
+      case 'ack':
+        if (this.active) {
+          this.active.ack = {
+            received: message.received,
+            bufferedBytes: message.bufferedBytes,
+            maxBufferedBytes: message.maxBufferedBytes
+          };
+          this.active.progress?.();
+        }
+        break;
+        
+      case 'session-started':
+      case 'session-resumed':
+      case 'session-resume-failed':
+        // This client does not resume sessions
+        break;
+    }
+  }
+  
+  // Sends a control message and waits for the first reply of one of the given types
+  private request<T extends ServerMessage['type']>(
+    message: ClientMessage,
+    types: T[],
+    timeout: number
+  ): Promise<Extract<ServerMessage, { type: T }>> {
+    return new Promise((resolve, reject) => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+      if (this.pendingReply) {
+        reject(new Error(`Still waiting for ${this.pendingReply.types.join(' or ')}`));
+        return;
+      }
+      
+      const timer = setTimeout(() => {
+        this.settleReply(new Error(`Server did not reply to ${message.type}`));
+      }, timeout);
+      
+      // Only replies of the requested types settle it, so the cast holds
+      this.pendingReply = {
+        request: message.type,
+        types,
+        resolve: resolve as (message: ServerMessage) => void,
+        reject,
+        timer
+      };
+      this.sendMessage(message);
+    });
+  }
+  
+  private settleReply(error: Error | null, message?: ServerMessage): void {
+    const pending = this.pendingReply;
+    if (!pending) return;
+    
+    this.pendingReply = null;
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else if (message) {
+      pending.resolve(message);
+    }
+  }
+  
+  // Streams an audio file; the format is taken from the WAV header or the file extension unless given
+  streamFile(path: string, options: StreamOptions = {}): Promise<StreamResult> {
+    let format = options.format;
+    if (!format?.mimeType) {
+      const mimeType = EXTENSION_MIME_TYPES[extname(path).toLowerCase()];
+      format = mimeType ? { ...format, mimeType } : format;
+    }
+    
+    return this.streamSource(createReadStream(path), { ...options, format }, true);
+  }
+  
+  // Streams audio piped into this process, e.g. `ffmpeg ... -f wav - | node job.js`
+  streamStdin(options: StreamOptions = {}): Promise<StreamResult> {
+    return this.stream(process.stdin, options);
+  }
+  
+  // Streams audio from any Readable and resolves with the transcript once the server has finalized it.
+  // Streams passed in are left open when streaming stops early.
+  stream(source: Readable, options: StreamOptions = {}): Promise<StreamResult> {
+    return this.streamSource(source, options, false);
+  }
+  
+  private async streamSource(source: Readable, options: StreamOptions, ownsSource: boolean): Promise<StreamResult> {
+    if (this.recordingState !== RecordingState.IDLE) {
+      throw new Error('Recording already in progress');
+    }
+    
+    if (this.connectionState !== ConnectionState.CONNECTED) {
+      throw new Error('Not connected to server');
+    }
+    
+    let failure: Error | null = null;
+    const active: ActiveStream = {
+      results: [],
+      paused: false,
+      stopped: false,
+      overloaded: false,
+      sequenceBase: null,
+      sentBytes: [],
+      ack: null,
+      wake: null,
+      progress: null,
+      fail: (error) => {
+        failure = failure || error;
+        active.wake?.();
+      }
+    };
+    this.active = active;
+    this.setRecordingState(RecordingState.RECORDING);
+    
+    const chunks = source.iterator({ destroyOnReturn: ownsSource }) as AsyncIterator<Buffer | string>;
+    let format: AudioFormat | null = null;
+    let bytesSent = 0;
+    
+    try {
+      // Look at the start of the audio before announcing the format, in case it is a WAV file
+      const { head, wav } = await this.readHead(chunks, active);
+      const requested = wav ? {
+        mimeType: 'audio/pcm',
+        encoding: 'linear16',
+        sampleRate: wav.sampleRate,
+        channels: wav.channels,
+        bitDepth: wav.bitDepth
+      } : options.format;
+      
+      if (!requested?.mimeType) {
+        throw new Error('Audio format is required for this source; pass options.format');
+      }
+      
+      // Numbered chunks let the server acknowledge exactly which audio it has
+      const reply = await this.request(
+        { type: 'start-recording', format: normalizeAudioFormat(requested), sequenceBase: 0 },
+        ['recording-started', 'recording-rejected'],
+        10000
+      );
+      if (reply.type === 'recording-rejected') {
+        throw new Error(`Recording rejected by server: ${reply.reason || 'unsupported audio format'}`);
+      }
+      format = reply.format;
+      active.sequenceBase = reply.sequenceBase ?? null;
+      if (reply.maxBufferedBytes !== undefined) {
+        // Nothing is acknowledged yet, so the first burst is limited to the server's buffer
+        const received = (active.sequenceBase ?? 0) - 1;
+        active.ack = { received, bufferedBytes: 0, maxBufferedBytes: reply.maxBufferedBytes };
+      }
+      
+      bytesSent = await this.pump(head, chunks, format, options, active, () => failure);
+      
+      if (failure) throw failure;
+      
+      this.setRecordingState(RecordingState.STOPPING);
+      // The server replies once the provider has flushed its last transcripts
+      await this.request({ type: 'stop-recording' }, ['recording-stopped'], options.finalizeTimeout ?? 30000)
+        .catch(error => {
+          if (failure) throw failure;
+          console.warn('Transcript may be incomplete:', (error as Error).message);
+        });
+      
+      return {
+        transcript: active.results.map(result => result.transcript).filter(Boolean).join(' '),
+        results: active.results,
+        format,
+        bytesSent,
+        stopped: active.stopped
+      };
+    } catch (error) {
+      if (format && this.ws?.readyState === WebSocket.OPEN) {
+        this.sendMessage({ type: 'stop-recording' });
+      }
+      throw error;
+    } finally {
+      this.active = null;
+      await chunks.return?.().catch(() => undefined);
+      this.setRecordingState(RecordingState.IDLE);
+    }
+  }
+  
+  // Reads until a WAV header is complete, or returns the first chunk unchanged for other audio
+  private async readHead(
+    chunks: AsyncIterator<Buffer | string>,
+    active: ActiveStream
+  ): Promise<{ head: Buffer; wav: ReturnType<typeof parseWavHeader> }> {
+    let head = Buffer.alloc(0);
+    
+    while (!active.stopped) {
+      const next = await chunks.next();
+      if (next.done) break;
+      head = Buffer.concat([head, Buffer.from(next.value)]);
+      
+      if (head.length < 4 || head.toString('latin1', 0, 4) !== 'RIFF') {
+        if (head.length >= 4) break;
+        continue;
+      }
+      
+      const wav = parseWavHeader(head);
+      if (wav) {
+        return { head: head.subarray(wav.dataOffset), wav };
+      }
+    }
+    
+    if (head.toString('latin1', 0, 4) === 'RIFF') {
+      throw new Error('WAV file ended before its data chunk');
+    }
+    return { head, wav: null };
+  }
+  
+  private async pump(
+    head: Buffer,
+    chunks: AsyncIterator<Buffer | string>,
+    format: AudioFormat,
+    options: StreamOptions,
+    active: ActiveStream,
+    failed: () => Error | null
+  ): Promise<number> {
+    const pace = options.pace ?? 'realtime';
+    const speed = pace === 'realtime' ? 1 : pace === 'fast' ? Infinity : pace;
+    if (!(speed > 0)) {
+      throw new Error(`Invalid pace: ${pace}`);
+    }
+    
+    // PCM is cut on sample boundaries so every message holds whole frames
+    const pcm = isLinearPcm(format);
+    const blockAlign = pcm ? (format.channels || 1) * ((format.bitDepth || 16) / 8) : 1;
+    const bytesPerSecond = pcm
+      ? (format.sampleRate || 16000) * blockAlign
+      : (options.bitrate ?? 128000) / 8;
+    const chunkBytes = Math.max(
+      blockAlign,
+      Math.floor((bytesPerSecond * (options.chunkMs ?? 100)) / 1000 / blockAlign) * blockAlign
+    );
+    
+    let pending = head;
+    let bytesSent = 0;
+    let ended = false;
+    let startedAt = Date.now();
+    
+    while (!active.stopped && !failed()) {
+      if (active.paused) {
+        // Pacing restarts from the resume point so paused time is not made up with a burst
+        const pausedAt = Date.now();
+        await this.waitForWake(active);
+        startedAt += Date.now() - pausedAt;
+        continue;
+      }
+      
+      if (pending.length < chunkBytes && !ended) {
+        const next = await chunks.next();
+        if (next.done) {
+          ended = true;
+        } else {
+          pending = Buffer.concat([pending, Buffer.from(next.value)]);
+        }
+        continue;
+      }
+      
+      if (pending.length === 0) break;
+      
+      // The last chunk may hold a partial frame; it is dropped rather than sent misaligned
+      const size = ended ? Math.min(pending.length, chunkBytes) : chunkBytes;
+      const aligned = size - (size % blockAlign);
+      if (aligned === 0) break;
+      
+      const chunk = pending.subarray(0, aligned);
+      pending = pending.subarray(aligned);
+      
+      await this.drain(active, failed, bytesSent, chunk.length);
+      if (active.stopped || failed()) break;
+      const index = active.sentBytes.length;
+      const frame = active.sequenceBase === null ? chunk : encodeSequencedChunk(active.sequenceBase + index, chunk);
+      // The callback fires once the frame has left the socket's buffer
+      this.ws!.send(frame, () => active.progress?.());
+      bytesSent += chunk.length;
+      active.sentBytes.push(bytesSent);
+      
+      if (speed !== Infinity) {
+        const due = startedAt + (bytesSent / bytesPerSecond) * 1000 / speed;
+        const delay = due - Date.now();
+        if (delay > 0) {
+          await this.waitForWake(active, delay);
+        }
+      }
+    }
+    
+    return bytesSent;
+  }
+  
+  // Resolves after `ms`, or with no timeout once woken by pause, stop or a failure
+  private waitForWake(active: ActiveStream, ms?: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        if (timer) clearTimeout(timer);
+        active.wake = null;
+        resolve();
+      };
+      const timer = ms === undefined ? null : setTimeout(done, ms);
+      active.wake = done;
+    });
+  }
+  
+  // Waits for acks, overload-cleared or the socket's send callbacks rather than polling
+  private async drain(active: ActiveStream, failed: () => Error | null, bytesSent: number, next: number): Promise<void> {
+    while (this.ws && (this.ws.bufferedAmount > MAX_BUFFERED_BYTES || active.overloaded ||
+                       this.serverBacklog(active, bytesSent, next)) &&
+           !active.stopped && !failed()) {
+      const waiting = this.waitForWake(active);
+      active.progress = active.wake;
+      await waiting;
+      active.progress = null;
+    }
+  }
+  
+  // Whether the next chunk would not fit in the server's buffer, counting audio it has not acknowledged yet
+  private serverBacklog(active: ActiveStream, bytesSent: number, next: number): boolean {
+    if (!active.ack) return false;
+    
+    // Acks count chunks by sequence number on numbered streams and by index otherwise
+    const { bufferedBytes, maxBufferedBytes } = active.ack;
+    const received = active.ack.received - (active.sequenceBase ?? 0);
+    const unacknowledged = bytesSent - (received >= 0 ? active.sentBytes[received] ?? bytesSent : 0);
+    const backlog = bufferedBytes + unacknowledged;
+    return backlog > 0 && backlog + next > maxBufferedBytes;
+  }
+  
+  pause(): void {
+    if (!this.active || this.recordingState !== RecordingState.RECORDING) {
+      throw new Error('Not currently recording');
+    }
+    
+    this.active.paused = true;
+    this.active.wake?.();
+    this.setRecordingState(RecordingState.PAUSED);
+    this.sendMessage({ type: 'pause-recording' });
+  }
+  
+  resume(): void {
+    if (!this.active || this.recordingState !== RecordingState.PAUSED) {
+      throw new Error('Recording not paused');
+    }
+    
+    this.active.paused = false;
+    this.active.wake?.();
+    this.setRecordingState(RecordingState.RECORDING);
+    this.sendMessage({ type: 'resume-recording' });
+  }
+  
+  // Ends the stream early; the pending stream() call still resolves with the transcript so far
+  stop(): void {
+    if (!this.active) return;
+    
+    this.active.stopped = true;
+    this.active.paused = false;
+    this.active.wake?.();
+  }
+  
+  private sendMessage(message: ClientMessage): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+  
+  private startPingInterval(): void {
+    const interval = this.options.pingInterval || 30000; // 30 seconds
+    
+    this.pingTimer = setInterval(() => {
+      this.sendPing();
+    }, interval);
+  }
+  
+  private stopPingInterval(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+  
+  private sendPing(): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.sendMessage({ type: 'ping' });
+      
+      const timeout = this.options.pongTimeout || 5000; // 5 seconds
+      this.pongTimer = setTimeout(() => {
+        console.warn('Pong not received, closing connection');
+        this.ws?.terminate();
+      }, timeout);
+    }
+  }
+  
+  private handlePong(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+  
+  private setConnectionState(state: ConnectionState): void {
+    if (this.connectionState !== state) {
+      this.connectionState = state;
+      this.emit('connection-state', state);
+    }
+  }
+  
+  private setRecordingState(state: RecordingState): void {
+    if (this.recordingState !== state) {
+      this.recordingState = state;
+      this.emit('recording-state', state);
+    }
+  }
+  
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+  
+  getRecordingState(): RecordingState {
+    return this.recordingState;
+  }
+  
+  isConnected(): boolean {
+    return this.connectionState === ConnectionState.CONNECTED;
+  }
+}
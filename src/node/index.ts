@@ -0,0 +1,28 @@
+// ABOUTME: Node.js exports for the audio-stream-transcribe module
+// ABOUTME: Provides the streaming client for files, stdin and server-to-server use
+
+export { NodeAudioStreamClient } from './NodeAudioStreamClient';
+export type { NodeClientOptions, StreamOptions, StreamPace, StreamResult } from './NodeAudioStreamClient';
+export { splitBySpeaker, findWordAt } from '../common/transcript';
+export {
+  exportTranscript,
+  toSrt,
+  toWebVtt,
+  toTranscriptJson,
+  toPlainText,
+  buildCaptionCues
+} from '../common/transcriptExport';
+export type { TranscriptExportFormat, TranscriptExportOptions, CaptionCue } from '../common/transcriptExport';
+export { PROTOCOL_VERSION, ProtocolError, parseServerMessage } from '../common/protocol';
+export type { ClientMessage, ServerMessage, ProtocolErrorCode, ProtocolFeature } from '../common/protocol';
+
+// Re-export common types needed by clients
+export {
+  ConnectionState,
+  RecordingState,
+  TranscriptionResult,
+  TranscriptionWord,
+  SpeechEvent,
+  AudioFormat,
+  ClientEvents
+} from '../common/types';
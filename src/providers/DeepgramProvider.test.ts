@@ -0,0 +1,245 @@
+// ABOUTME: Tests for the Deepgram provider against a fake live connection in place of the SDK's socket
+// ABOUTME: Drives Deepgram's events by hand to check result mapping, finalize handling and reconnect replay
+
+import { EventEmitter } from 'events';
+import { createClient, LiveTranscriptionEvents } from '@deepgram/sdk';
+import { DeepgramProvider, DeepgramProviderOptions } from './DeepgramProvider';
+import { ebmlElement, ebmlString, encodeId } from '../common/media/ebml';
+import { TranscriptionResult, TranscriptionStream } from '../common/types';
+
+jest.mock('@deepgram/sdk', () => ({
+  ...jest.requireActual('@deepgram/sdk'),
+  createClient: jest.fn()
+}));
+
+class FakeLiveClient extends EventEmitter {
+  sent: Buffer[] = [];
+  send = jest.fn((data: ArrayBuffer) => this.sent.push(Buffer.from(data)));
+  finalize = jest.fn();
+  keepAlive = jest.fn();
+  requestClose = jest.fn();
+  
+  constructor(readonly options: Record<string, any>) {
+    super();
+  }
+  
+  results(transcript: string, start: number, duration: number, extra: Record<string, any> = {}): void {
+    const words = transcript ? transcript.split(' ').map((word, i, all) => ({
+      word,
+      start: start + (duration * i) / all.length,
+      end: start + (duration * (i + 1)) / all.length,
+      confidence: 0.9
+    })) : [];
+    this.emit(LiveTranscriptionEvents.Transcript, {
+      is_final: true,
+      start,
+      duration,
+      channel: { alternatives: [{ transcript, confidence: 0.9, words }] },
+      ...extra
+    });
+  }
+}
+
+describe('DeepgramProvider', () => {
+  let connections: FakeLiveClient[];
+  let provider: DeepgramProvider;
+  
+  beforeEach(() => {
+    connections = [];
+    (createClient as jest.Mock).mockReturnValue({
+      listen: {
+        live: (options: Record<string, any>) => {
+          const live = new FakeLiveClient(options);
+          connections.push(live);
+          setImmediate(() => live.emit(LiveTranscriptionEvents.Open));
+          return live;
+        }
+      }
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+  
+  afterEach(async () => {
+    await provider?.cleanup();
+    jest.restoreAllMocks();
+  });
+  
+  async function openStream(options: Partial<DeepgramProviderOptions> = {}, metadata?: Record<string, any>) {
+    provider = new DeepgramProvider({ apiKey: 'key', keepAliveInterval: 0, ...options });
+    const stream = await provider.createStream({ sessionId: 's1', metadata });
+    const results: TranscriptionResult[] = [];
+    stream.on('result', result => results.push(result));
+    return { stream, results, live: connections[connections.length - 1] };
+  }
+  
+  const PCM = { audioFormat: { mimeType: 'audio/pcm', encoding: 'linear16', sampleRate: 16000, channels: 1 } };
+  
+  it('tells Deepgram how to read raw PCM and maps results with word timings', async () => {
+    const { stream, results, live } = await openStream({}, PCM);
+    stream.write(Buffer.alloc(3200));
+    
+    expect(live.options).toMatchObject({ encoding: 'linear16', sample_rate: 16000, channels: 1, model: 'nova-3' });
+    expect(live.sent).toEqual([Buffer.alloc(3200)]);
+    
+    live.results('hello world', 0, 1);
+    expect(results).toEqual([expect.objectContaining({
+      transcript: 'hello world',
+      isFinal: true,
+      start: 0,
+      end: 1,
+      words: [
+        expect.objectContaining({ word: 'hello', start: 0, end: 0.5 }),
+        expect.objectContaining({ word: 'world', start: 0.5, end: 1 })
+      ]
+    })]);
+  });
+  
+  describe('finalize', () => {
+    async function pending(promise: Promise<unknown>): Promise<boolean> {
+      let settled = false;
+      promise.then(() => { settled = true; }, () => { settled = true; });
+      await new Promise(resolve => setImmediate(resolve));
+      return !settled;
+    }
+    
+    it('waits for the results Deepgram sends in answer to Finalize', async () => {
+      const { stream, results, live } = await openStream({}, PCM);
+      stream.write(Buffer.alloc(3200));
+      
+      const finalizing = stream.finalize();
+      expect(live.finalize).toHaveBeenCalledTimes(1);
+      expect(await pending(finalizing)).toBe(true);
+      
+      live.results('not yet', 0, 0.5);
+      expect(await pending(finalizing)).toBe(true);
+      
+      live.results('last words', 0.5, 0.5, { from_finalize: true });
+      await finalizing;
+      expect(results.map(result => result.transcript)).toEqual(['not yet', 'last words']);
+    });
+    
+    it('also accepts an empty answer', async () => {
+      const { stream, live } = await openStream({}, PCM);
+      const finalizing = stream.finalize();
+      
+      live.results('', 0, 0, { from_finalize: true });
+      await finalizing;
+    });
+    
+    it('stops waiting when the connection closes or the stream is closed', async () => {
+      const { stream, live } = await openStream({ reconnect: false }, PCM);
+      const finalizing = stream.finalize();
+      expect(await pending(finalizing)).toBe(true);
+      
+      live.emit(LiveTranscriptionEvents.Close, { code: 1000 });
+      await finalizing;
+      
+      const second = await openStream({}, PCM);
+      const closing = second.stream.finalize();
+      await second.stream.close();
+      await closing;
+    });
+    
+    it('gives up after finalizeTimeout', async () => {
+      const { stream } = await openStream({ finalizeTimeout: 30 }, PCM);
+      await stream.finalize();
+      
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('did not answer Finalize for session s1 within 30ms'));
+    });
+  });
+  
+  it('fails createStream as soon as the connection errors instead of waiting for the timeout', async () => {
+    (createClient as jest.Mock).mockReturnValue({
+      listen: {
+        live: (options: Record<string, any>) => {
+          const live = new FakeLiveClient(options);
+          connections.push(live);
+          setImmediate(() => live.emit(LiveTranscriptionEvents.Error, new Error('401 Unauthorized')));
+          return live;
+        }
+      }
+    });
+    provider = new DeepgramProvider({ apiKey: 'key', keepAliveInterval: 0, reconnectDelay: 60000 });
+    
+    const started = Date.now();
+    await expect(provider.createStream({ sessionId: 's1' })).rejects.toThrow('Failed to connect to Deepgram: 401 Unauthorized');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(provider.getStats()).toMatchObject({ activeConnections: 0 });
+  });
+  
+  it('reconnects after a dropped connection and keeps results on the session clock', async () => {
+    const { stream, results } = await openStream({ reconnectDelay: 1 }, PCM);
+    const first = connections[0];
+    stream.write(Buffer.alloc(32000, 1)); // 1 s
+    first.results('one', 0, 1);
+    stream.write(Buffer.alloc(32000, 2)); // 1 s, not finalized yet
+    
+    first.emit(LiveTranscriptionEvents.Close, { code: 1006 });
+    await waitFor(() => connections.length === 2 && (stream as TranscriptionStream & { isConnected: boolean }).isConnected);
+    const second = connections[1];
+    
+    // Only the unfinalized second is replayed, so Deepgram's zero is at 1 s
+    expect(second.sent).toEqual([Buffer.alloc(32000, 2)]);
+    second.results('two', 0, 1);
+    expect(results.map(result => [result.transcript, result.start, result.end])).toEqual([['one', 0, 1], ['two', 1, 2]]);
+    expect(provider.getStats()).toMatchObject({ connections: [{ sessionId: 's1', reconnects: 1 }] });
+  });
+  
+  describe('reconnecting a containerized stream', () => {
+    const UNKNOWN_SIZE = Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+    const WEBM_HEADER = Buffer.concat([
+      ebmlElement(0x1a45dfa3, ebmlString(0x4282, 'webm')),
+      encodeId(0x18538067),
+      UNKNOWN_SIZE,
+      ebmlElement(0x1654ae6b, ebmlElement(0xae, ebmlString(0x86, 'A_OPUS')))
+    ]);
+    const cluster = (marker: number) => Buffer.concat([encodeId(0x1f43b675), UNKNOWN_SIZE, Buffer.alloc(16, marker)]);
+    
+    // MediaRecorder-style chunks one second apart; the first carries the header and the first second of audio
+    async function recordThreeChunks(first: Buffer) {
+      let now = 1000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      const opened = await openStream({ reconnectDelay: 1 }, { audioFormat: { mimeType: 'audio/webm', encoding: 'opus' } });
+      opened.stream.write(first);
+      now += 1000;
+      opened.stream.write(cluster(2));
+      now += 1000;
+      opened.stream.write(cluster(3));
+      
+      // Deepgram finalized the audio of the first two chunks
+      opened.live.results('one two', 0, 2);
+      opened.live.emit(LiveTranscriptionEvents.Close, { code: 1006 });
+      await waitFor(() => connections.length === 2 && (opened.stream as TranscriptionStream & { isConnected: boolean }).isConnected);
+      return { ...opened, second: connections[1] };
+    }
+    
+    it('sends only the WebM header before the replayed audio', async () => {
+      const { results, second } = await recordThreeChunks(Buffer.concat([WEBM_HEADER, cluster(1)]));
+      
+      expect(second.sent).toEqual([WEBM_HEADER, cluster(3)]);
+      second.results('three', 0, 0.5);
+      expect(results.map(result => [result.transcript, result.start])).toEqual([['one two', 0], ['three', 2]]);
+    });
+    
+    it('drops results for the resent first chunk when the container header cannot be cut out', async () => {
+      const first = Buffer.from('unparseable first chunk');
+      const { results, second } = await recordThreeChunks(first);
+      
+      expect(second.sent).toEqual([first, cluster(3)]);
+      // The first chunk's second of audio comes first on the new connection, then the replayed chunk
+      second.results('one again', 0, 0.8);
+      second.results('three', 1, 0.5);
+      expect(results.map(result => [result.transcript, result.start])).toEqual([['one two', 0], ['three', 2]]);
+    });
+  });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
@@ -2,7 +2,16 @@
 // ABOUTME: Provides real-time transcription using Deepgram's API
 
 import { createClient, LiveTranscriptionEvents, DeepgramClient, LiveClient } from '@deepgram/sdk';
-import { TranscriptionProvider, TranscriptionResult } from '../common/types';
+import {
+  ProviderCapabilities,
+  StreamingTranscriptionProvider,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+  TranscriptionWord
+} from '../common/types';
+import { BaseTranscriptionStream } from './TranscriptionStream';
+import { isLinearPcm } from '../common/audioFormat';
+import { containerHeader } from '../common/media';
 
 export interface DeepgramProviderOptions {
   apiKey: string;
@@ -15,20 +24,431 @@ export interface DeepgramProviderOptions {
   numerals?: boolean;
   profanityFilter?: boolean;
   redact?: boolean;
-  utteranceEndMs?: number;
+  utteranceEndMs?: number; // UtteranceEnd events also require interimResults
   interimResults?: boolean;
+  vadEvents?: boolean; // Emit speech-start as soon as Deepgram detects speech (default true)
+  keepAliveInterval?: number; // ms between KeepAlive messages while no audio flows (0 disables)
+  reconnect?: boolean; // Reopen dropped connections (default true)
+  maxReconnectAttempts?: number;
+  reconnectDelay?: number; // Base delay for exponential backoff
+  maxReconnectDelay?: number;
+  replayBufferSeconds?: number; // Unfinalized audio replayed after a reconnect
+  finalizeTimeout?: number; // ms finalize() waits for Deepgram's last results (default 5000)
 }
 
-interface ActiveConnection {
-  deepgramLive: LiveClient;
-  isConnected: boolean;
-  pendingTranscripts: TranscriptionResult[];
-  resolvers: Array<(result: TranscriptionResult) => void>;
+interface DeepgramStreamSettings {
+  diarize: boolean;
+  speakerOf: (words: any[]) => string | number;
+  keepAliveInterval: number;
+  reconnect: boolean;
+  maxReconnectAttempts: number;
+  reconnectDelay: number;
+  maxReconnectDelay: number;
+  replayBufferSeconds: number;
+  finalizeTimeout: number;
+  bytesPerSecond: number | null; // Known for linear PCM; compressed audio is timed by arrival
+  containerized: boolean; // Whether the first chunk holds a container header
 }
 
-export class DeepgramProvider extends TranscriptionProvider {
+interface SentAudio {
+  data: Buffer;
+  start: number; // Session audio seconds
+  end: number;
+}
+
+class DeepgramStream extends BaseTranscriptionStream {
+  isConnected = false;
+  reconnects = 0;
+  private deepgramLive: LiveClient | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private lastAudioAt = Date.now();
+  private lastChunkAt: number | null = null;
+  private chunkGaps: number[] = [];
+  private finalizeWaiters: (() => void)[] = []; // flush() calls waiting for Deepgram to answer Finalize
+  private openWaiters: ((error: Error | null) => void)[] = []; // waitForOpen() calls waiting for the first Open
+  
+  // Session audio clock and replay state
+  private audioClock = 0;
+  private connectionOffset = 0;
+  private lastFinalEnd = 0;
+  private speaking = false;
+  private initChunk: Buffer | null = null;
+  private initHeader: Buffer | null = null; // The init chunk's container header alone, for WebM and Ogg
+  private recentAudio: SentAudio[] = [];
+  private untimedChunk: SentAudio | null = null; // First compressed chunk, until the second shows its duration
+  
+  constructor(
+    sessionId: string,
+    private connect: () => LiveClient,
+    private settings: DeepgramStreamSettings
+  ) {
+    super(sessionId);
+    
+    this.openConnection();
+    
+    if (settings.keepAliveInterval > 0) {
+      this.keepAliveTimer = setInterval(() => this.sendKeepAlive(), settings.keepAliveInterval);
+    }
+  }
+  
+  private openConnection(): void {
+    const deepgramLive = this.connect();
+    this.deepgramLive = deepgramLive;
+    
+    // Setup event listeners
+    deepgramLive.on(LiveTranscriptionEvents.Open, () => {
+      if (this.deepgramLive !== deepgramLive) return;
+      
+      this.isConnected = true;
+      console.log(`Deepgram connection opened for session ${this.sessionId}`);
+      this.settleOpen(null);
+      
+      if (this.reconnectAttempts > 0) {
+        this.reconnectAttempts = 0;
+        this.reconnects++;
+        this.replayRecentAudio();
+      }
+    });
+    
+    deepgramLive.on(LiveTranscriptionEvents.Transcript, (data) => {
+      if (this.deepgramLive !== deepgramLive) return;
+      this.handleTranscript(data);
+      
+      // The response to Finalize comes after every result for the audio sent before it
+      if (data?.from_finalize) {
+        this.settleFinalize();
+      }
+    });
+    
+    deepgramLive.on(LiveTranscriptionEvents.SpeechStarted, (data) => {
+      if (this.deepgramLive !== deepgramLive) return;
+      this.markSpeechStart((data?.timestamp ?? 0) + this.connectionOffset);
+    });
+    
+    deepgramLive.on(LiveTranscriptionEvents.UtteranceEnd, (data) => {
+      if (this.deepgramLive !== deepgramLive) return;
+      this.markUtteranceEnd(
+        data?.last_word_end !== undefined ? data.last_word_end + this.connectionOffset : undefined
+      );
+    });
+    
+    deepgramLive.on(LiveTranscriptionEvents.Close, (event) => {
+      if (this.deepgramLive !== deepgramLive) return;
+      
+      this.isConnected = false;
+      console.log(`Deepgram connection closed for session ${this.sessionId}:`, event);
+      this.settleOpen(new Error('Deepgram connection closed before it opened'));
+      this.settleFinalize();
+      this.handleUnexpectedClose('connection closed');
+    });
+    
+    deepgramLive.on(LiveTranscriptionEvents.Error, (error) => {
+      if (this.deepgramLive !== deepgramLive) return;
+      
+      console.error(`Deepgram error for session ${this.sessionId}:`, error);
+      this.isConnected = false;
+      this.settleOpen(new Error(`Failed to connect to Deepgram: ${error?.message || 'Deepgram error'}`));
+      this.settleFinalize();
+      this.handleUnexpectedClose(error?.message || 'Deepgram error');
+    });
+  }
+  
+  private handleTranscript(data: any): void {
+    const alternatives = data?.channel?.alternatives;
+    if (!alternatives || alternatives.length === 0) return;
+    
+    const alternative = alternatives[0];
+    if (!alternative.transcript) {
+      if (data.speech_final) this.markUtteranceEnd();
+      return;
+    }
+    
+    // Deepgram times are relative to the current connection; shift them onto the session clock
+    const offset = this.connectionOffset;
+    const start = (data.start ?? 0) + offset;
+    const end = start + (data.duration ?? 0);
+    
+    // Covers connections opened without vad_events
+    this.markSpeechStart(start);
+    
+    // After a reconnect the replayed audio can repeat speech that was already finalized
+    const rawWords: any[] = (alternative.words || []).filter((word: any) => word.end + offset > this.lastFinalEnd);
+    if (data.is_final && rawWords.length === 0 && end <= this.lastFinalEnd) return;
+    const trimmed = rawWords.length < (alternative.words || []).length;
+    
+    const speaker = this.settings.diarize ? this.settings.speakerOf(rawWords) : undefined;
+    this.pushResult({
+      transcript: trimmed
+        ? rawWords.map(word => word.punctuated_word ?? word.word).join(' ')
+        : alternative.transcript,
+      confidence: alternative.confidence,
+      timestamp: Date.now(),
+      isFinal: Boolean(data.is_final),
+      start,
+      end,
+      words: rawWords.map((word): TranscriptionWord => ({
+        word: word.word,
+        start: word.start + offset,
+        end: word.end + offset,
+        confidence: word.confidence,
+        ...(word.punctuated_word && { punctuatedWord: word.punctuated_word }),
+        ...(word.speaker !== undefined && { speaker: word.speaker })
+      })),
+      ...(speaker !== undefined && { speaker }),
+      metadata: {
+        isFinal: data.is_final,
+        speechFinal: data.speech_final,
+        duration: data.duration,
+        ...(speaker !== undefined && { speaker })
+      }
+    });
+    
+    if (data.is_final) {
+      this.lastFinalEnd = Math.max(this.lastFinalEnd, end);
+      // Audio fully covered by a final result never needs replaying
+      this.recentAudio = this.recentAudio.filter(chunk => chunk.end > this.lastFinalEnd);
+    }
+    
+    // Deepgram's endpointing marks the end of an utterance on the final segment
+    if (data.speech_final) {
+      this.markUtteranceEnd(end);
+    }
+  }
+  
+  // Endpointing and UtteranceEnd can both fire for the same pause, so only state changes are emitted
+  private markSpeechStart(audioTime?: number): void {
+    if (this.speaking) return;
+    this.speaking = true;
+    this.pushSpeechStart(audioTime);
+  }
+  
+  private markUtteranceEnd(audioTime?: number): void {
+    if (!this.speaking) return;
+    this.speaking = false;
+    this.pushUtteranceEnd(audioTime);
+  }
+  
+  private handleUnexpectedClose(reason: string): void {
+    if (this.closed || this.reconnectTimer) return;
+    
+    const settings = this.settings;
+    if (!settings.reconnect || this.reconnectAttempts >= settings.maxReconnectAttempts) {
+      this.fail(new Error(`Deepgram connection lost for session ${this.sessionId}: ${reason}`));
+      this.close().catch(console.error);
+      return;
+    }
+    
+    const delay = Math.min(
+      settings.reconnectDelay * Math.pow(2, this.reconnectAttempts),
+      settings.maxReconnectDelay
+    );
+    this.reconnectAttempts++;
+    console.log(`Reconnecting Deepgram for session ${this.sessionId} in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    
+    const previous = this.deepgramLive;
+    this.deepgramLive = null;
+    try {
+      previous?.requestClose();
+    } catch {
+      // Socket is already gone
+    }
+    
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.closed) return;
+      
+      try {
+        this.openConnection();
+      } catch (error) {
+        this.handleUnexpectedClose((error as Error).message);
+      }
+    }, delay);
+  }
+  
+  private replayRecentAudio(): void {
+    const replay = this.recentAudio;
+    
+    // The new connection's time zero is the start of the oldest replayed chunk
+    const replayStart = replay.length > 0 ? replay[0].start : this.audioClock;
+    this.connectionOffset = replayStart;
+    
+    // Later chunks cannot be decoded without the container header from the first one
+    if (this.initChunk && replay[0]?.data !== this.initChunk) {
+      if (this.initHeader) {
+        this.sendToDeepgram(this.initHeader);
+      } else {
+        // Other containers resend the whole first chunk, whose audio then comes first on the new connection.
+        // It lasts about one timeslice; anything transcribed from it falls before the replay and is dropped.
+        this.sendToDeepgram(this.initChunk);
+        this.connectionOffset = replayStart - this.typicalChunkGap() / 1000;
+        this.lastFinalEnd = Math.max(this.lastFinalEnd, replayStart);
+      }
+    }
+    for (const chunk of replay) {
+      this.sendToDeepgram(chunk.data);
+    }
+    
+    console.log(`Replayed ${replay.length} audio chunks to Deepgram for session ${this.sessionId}`);
+  }
+  
+  private sendKeepAlive(): void {
+    if (!this.isConnected || !this.deepgramLive) return;
+    
+    // Deepgram closes idle sockets after about ten seconds without audio
+    if (Date.now() - this.lastAudioAt >= this.settings.keepAliveInterval) {
+      this.deepgramLive.keepAlive();
+    }
+  }
+  
+  // Resolves on Deepgram's Open event; rejects when the connection errors or closes first, or on timeout
+  async waitForOpen(timeoutMs: number): Promise<void> {
+    if (this.isConnected) return;
+    
+    await new Promise<void>((resolve, reject) => {
+      const done = (error: Error | null) => {
+        clearTimeout(timer);
+        this.openWaiters = this.openWaiters.filter(waiter => waiter !== done);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const timer = setTimeout(() => done(new Error('Connection timeout')), timeoutMs);
+      
+      this.openWaiters.push(done);
+    });
+  }
+  
+  private settleOpen(error: Error | null): void {
+    for (const done of [...this.openWaiters]) {
+      done(error);
+    }
+  }
+  
+  private chunkDuration(audioData: Buffer): number {
+    if (this.settings.bytesPerSecond) {
+      return audioData.length / this.settings.bytesPerSecond;
+    }
+    
+    // Compressed chunks arrive in real time, so the gap between chunks approximates their duration.
+    // Gaps are capped so pauses in the stream do not advance the clock.
+    const now = Date.now();
+    const previous = this.lastChunkAt;
+    this.lastChunkAt = now;
+    if (previous === null) return 0; // Timed by sendAudio once the next chunk shows the gap
+    
+    const gap = now - previous;
+    const typicalGap = this.chunkGaps.length > 0 ? this.typicalChunkGap() : gap;
+    this.chunkGaps.push(gap);
+    if (this.chunkGaps.length > 10) this.chunkGaps.shift();
+    
+    return Math.min(gap, typicalGap * 1.5) / 1000;
+  }
+  
+  // Median ms between recent compressed chunks, i.e. the recorder's timeslice
+  private typicalChunkGap(): number {
+    const sorted = [...this.chunkGaps].sort((a, b) => a - b);
+    return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+  }
+  
+  protected sendAudio(audioData: Buffer): void {
+    if (this.settings.containerized && !this.initChunk) {
+      this.initChunk = audioData;
+      this.initHeader = containerHeader(audioData);
+    }
+    
+    const firstCompressed = !this.settings.bytesPerSecond && this.lastChunkAt === null;
+    const duration = this.chunkDuration(audioData);
+    
+    // The first compressed chunk covers one timeslice too, known only once the second arrives
+    if (this.untimedChunk) {
+      this.untimedChunk.end += duration;
+      this.audioClock += duration;
+      this.untimedChunk = null;
+    }
+    
+    const start = this.audioClock;
+    this.audioClock += duration;
+    this.lastAudioAt = Date.now();
+    
+    // Keep unfinalized audio for replay after a reconnect
+    const chunk = { data: audioData, start, end: this.audioClock };
+    this.recentAudio.push(chunk);
+    if (firstCompressed) this.untimedChunk = chunk;
+    while (this.recentAudio.length > 1 &&
+           this.audioClock - this.recentAudio[0].start > this.settings.replayBufferSeconds) {
+      this.recentAudio.shift();
+    }
+    
+    // While reconnecting the chunk waits in the replay buffer
+    if (this.isConnected) {
+      this.sendToDeepgram(audioData);
+    }
+  }
+  
+  private sendToDeepgram(audioData: Buffer): void {
+    // Convert to ArrayBuffer for Deepgram compatibility
+    this.deepgramLive?.send(
+      audioData.buffer.slice(audioData.byteOffset, audioData.byteOffset + audioData.byteLength)
+    );
+  }
+  
+  // Resolves once Deepgram has sent its results for the audio so far, the connection closes or the timeout passes
+  protected async flush(): Promise<void> {
+    const deepgramLive = this.deepgramLive;
+    if (!this.isConnected || !deepgramLive) return;
+    
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.finalizeWaiters = this.finalizeWaiters.filter(waiter => waiter !== done);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        console.warn(`Deepgram did not answer Finalize for session ${this.sessionId} within ${this.settings.finalizeTimeout}ms`);
+        done();
+      }, this.settings.finalizeTimeout);
+      
+      this.finalizeWaiters.push(done);
+      deepgramLive.finalize();
+    });
+  }
+  
+  private settleFinalize(): void {
+    for (const done of [...this.finalizeWaiters]) {
+      done();
+    }
+  }
+  
+  protected async shutdown(): Promise<void> {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    
+    this.recentAudio = [];
+    this.settleOpen(new Error('Stream closed before Deepgram connected'));
+    this.settleFinalize();
+    const deepgramLive = this.deepgramLive;
+    this.deepgramLive = null;
+    
+    if (this.isConnected && deepgramLive) {
+      this.isConnected = false;
+      deepgramLive.requestClose();
+    }
+  }
+}
+
+export class DeepgramProvider extends StreamingTranscriptionProvider {
   private deepgram: DeepgramClient;
-  private connections: Map<string, ActiveConnection> = new Map();
+  private streams: Map<string, DeepgramStream> = new Map();
   private defaultOptions: any;
   
   constructor(private options: DeepgramProviderOptions) {
@@ -47,6 +467,7 @@ export class DeepgramProvider extends TranscriptionProvider {
       redact: options.redact ?? false,
       utterance_end_ms: options.utteranceEndMs ?? 1000,
       interim_results: options.interimResults ?? false,
+      vad_events: options.vadEvents ?? true,
       ...(options.keywords && { keywords: options.keywords })
     };
   }
@@ -62,41 +483,9 @@ export class DeepgramProvider extends TranscriptionProvider {
     }
   }
   
-  async processAudio(audioData: Buffer | ArrayBuffer, metadata?: any): Promise<TranscriptionResult> {
-    const sessionId = metadata?.sessionId || 'default';
+  async createStream(params: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    const { sessionId, metadata } = params;
     
-    // Get or create connection for this session
-    let connection = this.connections.get(sessionId);
-    if (!connection || !connection.isConnected) {
-      connection = await this.createConnection(sessionId, metadata);
-    }
-    
-    // Return promise that resolves when transcription is received
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Transcription timeout'));
-      }, 30000); // 30 second timeout
-      
-      connection!.resolvers.push((result) => {
-        clearTimeout(timeout);
-        resolve(result);
-      });
-      
-      // Send audio data
-      try {
-        // Convert to ArrayBuffer for Deepgram compatibility
-        const dataToSend = Buffer.isBuffer(audioData) 
-          ? audioData.buffer.slice(audioData.byteOffset, audioData.byteOffset + audioData.byteLength)
-          : audioData;
-        connection!.deepgramLive.send(dataToSend);
-      } catch (error) {
-        clearTimeout(timeout);
-        reject(error);
-      }
-    });
-  }
-  
-  private async createConnection(sessionId: string, metadata?: any): Promise<ActiveConnection> {
     // Create live transcription connection with options
     const options = { ...this.defaultOptions };
     
@@ -105,90 +494,65 @@ export class DeepgramProvider extends TranscriptionProvider {
       Object.assign(options, metadata.transcriptionOptions);
     }
     
-    const deepgramLive = this.deepgram.listen.live(options);
-    
-    const connection: ActiveConnection = {
-      deepgramLive,
-      isConnected: false,
-      pendingTranscripts: [],
-      resolvers: []
-    };
+    const audioFormat = metadata?.audioFormat;
+    const pcm = options.encoding === 'linear16' || (audioFormat && isLinearPcm(audioFormat));
+    const sampleRate = options.sample_rate || audioFormat?.sampleRate;
+    const channels = options.channels || audioFormat?.channels || 1;
     
-    // Setup event listeners
-    deepgramLive.on(LiveTranscriptionEvents.Open, () => {
-      connection.isConnected = true;
-      console.log(`Deepgram connection opened for session ${sessionId}`);
-    });
+    // Raw audio has no header, so Deepgram must be told how to read it
+    if (pcm) {
+      Object.assign(options, { encoding: 'linear16', sample_rate: sampleRate, channels });
+    }
     
-    deepgramLive.on(LiveTranscriptionEvents.Transcript, (data) => {
-      const alternatives = data?.channel?.alternatives;
-      if (!alternatives || alternatives.length === 0) return;
-      
-      const alternative = alternatives[0];
-      if (!alternative.transcript) return;
-      
-      const result: TranscriptionResult = {
-        transcript: alternative.transcript,
-        confidence: alternative.confidence,
-        timestamp: Date.now(),
-        metadata: {
-          isFinal: data.is_final,
-          duration: data.duration,
-          ...(options.diarize && {
-            speaker: this.extractSpeaker(alternative.words || [])
-          })
-        }
-      };
-      
-      // Handle any queued resolvers
-      if (connection.resolvers.length > 0) {
-        const resolver = connection.resolvers.shift()!;
-        resolver(result);
-      } else {
-        // Store for future use
-        connection.pendingTranscripts.push(result);
+    const stream = new DeepgramStream(
+      sessionId,
+      () => this.deepgram.listen.live(options),
+      {
+        diarize: Boolean(options.diarize),
+        speakerOf: (words) => this.extractSpeaker(words),
+        keepAliveInterval: this.options.keepAliveInterval ?? 5000,
+        reconnect: this.options.reconnect ?? true,
+        maxReconnectAttempts: this.options.maxReconnectAttempts ?? 5,
+        reconnectDelay: this.options.reconnectDelay ?? 500,
+        maxReconnectDelay: this.options.maxReconnectDelay ?? 10000,
+        replayBufferSeconds: this.options.replayBufferSeconds ?? 15,
+        finalizeTimeout: this.options.finalizeTimeout ?? 5000,
+        bytesPerSecond: pcm && sampleRate ? sampleRate * channels * 2 : null,
+        containerized: !pcm
       }
-    });
-    
-    deepgramLive.on(LiveTranscriptionEvents.Close, (event) => {
-      connection.isConnected = false;
-      console.log(`Deepgram connection closed for session ${sessionId}:`, event);
-      this.connections.delete(sessionId);
-    });
+    );
     
-    deepgramLive.on(LiveTranscriptionEvents.Error, (error) => {
-      console.error(`Deepgram error for session ${sessionId}:`, error);
-      connection.isConnected = false;
-      
-      // Reject any pending resolvers
-      for (const resolver of connection.resolvers) {
-        resolver({
-          transcript: '',
-          metadata: { error: error.message }
-        });
+    // Store stream
+    this.streams.set(sessionId, stream);
+    stream.on('close', () => {
+      if (this.streams.get(sessionId) === stream) {
+        this.streams.delete(sessionId);
       }
-      connection.resolvers = [];
     });
     
-    // Store connection
-    this.connections.set(sessionId, connection);
-    
     // Wait for connection to open
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Connection timeout'));
-      }, 10000);
-      
-      const checkConnection = setInterval(() => {
-        if (connection.isConnected) {
-          clearInterval(checkConnection);
-          clearTimeout(timeout);
-          resolve();
-        }
-      }, 100);
-    });
+    try {
+      await stream.waitForOpen(10000);
+    } catch (error) {
+      await stream.close();
+      throw error;
+    }
     
-    return connection;
+    return stream;
+  }
+  
+  getCapabilities(): ProviderCapabilities {
+    return {
+      formats: [
+        { mimeType: 'audio/webm', encodings: ['opus', 'vorbis'] },
+        { mimeType: 'audio/ogg', encodings: ['opus', 'vorbis'] },
+        { mimeType: 'audio/mp4' },
+        { mimeType: 'audio/mpeg' },
+        { mimeType: 'audio/wav' },
+        { mimeType: 'audio/flac' },
+        { mimeType: 'audio/pcm', encodings: ['linear16'] }
+      ]
+    };
   }
   
   private extractSpeaker(words: any[]): string | number {
@@ -235,34 +599,32 @@ export class DeepgramProvider extends TranscriptionProvider {
       ...(config.profanityFilter !== undefined && { profanity_filter: config.profanityFilter }),
       ...(config.redact !== undefined && { redact: config.redact }),
       ...(config.utteranceEndMs !== undefined && { utterance_end_ms: config.utteranceEndMs }),
-      ...(config.interimResults !== undefined && { interim_results: config.interimResults })
+      ...(config.interimResults !== undefined && { interim_results: config.interimResults }),
+      ...(config.vadEvents !== undefined && { vad_events: config.vadEvents })
     });
   }
   
   getStats(): any {
     return {
-      activeConnections: this.connections.size,
-      connections: Array.from(this.connections.entries()).map(([sessionId, conn]) => ({
+      activeConnections: this.streams.size,
+      connections: Array.from(this.streams.entries()).map(([sessionId, stream]) => ({
         sessionId,
-        isConnected: conn.isConnected,
-        pendingTranscripts: conn.pendingTranscripts.length,
-        queuedResolvers: conn.resolvers.length
+        isConnected: stream.isConnected,
+        reconnects: stream.reconnects
       }))
     };
   }
   
   async cleanup(): Promise<void> {
     // Close all active connections
-    for (const [sessionId, connection] of this.connections.entries()) {
+    for (const [sessionId, stream] of Array.from(this.streams.entries())) {
       try {
-        if (connection.isConnected) {
-          connection.deepgramLive.requestClose();
-        }
+        await stream.close();
       } catch (error) {
         console.error(`Error closing connection for session ${sessionId}:`, error);
       }
     }
     
-    this.connections.clear();
+    this.streams.clear();
   }
 }
\ No newline at end of file
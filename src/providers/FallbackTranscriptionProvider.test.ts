@@ -0,0 +1,132 @@
+// ABOUTME: Tests for failing over between providers with per-provider circuit breakers
+// ABOUTME: Covers health taken from the providers' own request counts, half-open trials and the stats report
+
+import { FallbackTranscriptionProvider } from './FallbackTranscriptionProvider';
+import { MockTranscriptionProvider } from './MockTranscriptionProvider';
+import { BaseTranscriptionStream } from './TranscriptionStream';
+import { StreamingTranscriptionProvider, TranscriptionStream, TranscriptionStreamOptions } from '../common/types';
+
+class FakeStream extends BaseTranscriptionStream {
+  protected sendAudio(): void {}
+  protected async flush(): Promise<void> {}
+  protected async shutdown(): Promise<void> {}
+  
+  result(transcript: string): void {
+    this.pushResult({ transcript, confidence: 1, timestamp: Date.now(), isFinal: true });
+  }
+  
+  error(message: string): void {
+    this.fail(new Error(message));
+  }
+}
+
+// Counts its requests like HttpBatchTranscriptionProvider, so failed attempts it retried are visible in its stats
+class CountingProvider extends StreamingTranscriptionProvider {
+  counts: { successes: number; failures: number; retries: number } | null = { successes: 0, failures: 0, retries: 0 };
+  streams: FakeStream[] = [];
+  
+  async initialize(): Promise<void> {}
+  
+  async createStream(params: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    const stream = new FakeStream(params.sessionId);
+    this.streams.push(stream);
+    return stream;
+  }
+  
+  getStats() {
+    return { activeStreams: this.streams.length, ...this.counts };
+  }
+  
+  async cleanup(): Promise<void> {}
+}
+
+async function fallback(primary: StreamingTranscriptionProvider, options = {}) {
+  const backup = new MockTranscriptionProvider({ text: 'backup' });
+  const provider = new FallbackTranscriptionProvider({
+    providers: [{ name: 'primary', provider: primary }, { name: 'backup', provider: backup }],
+    failureThreshold: 3,
+    ...options
+  });
+  await provider.initialize();
+  return provider;
+}
+
+function providerOf(stream: TranscriptionStream): string | undefined {
+  return (stream as TranscriptionStream & { providerName?: string }).providerName;
+}
+
+describe('FallbackTranscriptionProvider', () => {
+  it('opens a circuit on the failures a provider counts, even when its streams never fail', async () => {
+    const primary = new CountingProvider();
+    primary.counts = { successes: 5, failures: 0, retries: 0 };
+    const provider = await fallback(primary);
+    
+    expect(providerOf(await provider.createStream({ sessionId: 's1' }))).toBe('primary');
+    
+    primary.counts = { successes: 5, failures: 0, retries: 3 };
+    expect(providerOf(await provider.createStream({ sessionId: 's2' }))).toBe('backup');
+    expect(provider.getStats().providers[0]).toMatchObject({
+      name: 'primary',
+      state: 'open',
+      consecutiveFailures: 3,
+      stats: { successes: 5, retries: 3 }
+    });
+    
+    await provider.cleanup();
+  });
+  
+  it('does not count a stream error twice for a provider that counts its requests', async () => {
+    const primary = new CountingProvider();
+    const provider = await fallback(primary);
+    const stream = await provider.createStream({ sessionId: 's1' });
+    stream.on('error', () => undefined);
+    
+    primary.counts = { successes: 0, failures: 1, retries: 0 };
+    primary.streams[0].error('upload failed');
+    
+    expect(provider.getStats().providers[0]).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+    await provider.cleanup();
+  });
+  
+  it('lets a single trial stream through a half-open circuit', async () => {
+    const primary = new CountingProvider();
+    primary.counts = null;
+    const provider = await fallback(primary, { failureThreshold: 1, cooldownMs: 0 });
+    
+    const first = await provider.createStream({ sessionId: 's1' });
+    first.on('error', () => undefined);
+    primary.streams[0].error('connection lost');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(providerOf(first)).toBe('backup');
+    
+    // The cooldown is over: one stream tries the primary, the next goes to the backup meanwhile
+    const trial = await provider.createStream({ sessionId: 's2' });
+    const during = await provider.createStream({ sessionId: 's3' });
+    expect([providerOf(trial), providerOf(during)]).toEqual(['primary', 'backup']);
+    expect(provider.getStats().providers[0].state).toBe('half-open');
+    
+    primary.streams[1].result('it works');
+    expect(provider.getStats().providers[0].state).toBe('closed');
+    expect(providerOf(await provider.createStream({ sessionId: 's4' }))).toBe('primary');
+    
+    await provider.cleanup();
+  });
+  
+  it('hands the trial to the next stream when the trial ends without a verdict', async () => {
+    const primary = new CountingProvider();
+    primary.counts = null;
+    const provider = await fallback(primary, { failureThreshold: 1, cooldownMs: 0 });
+    
+    const first = await provider.createStream({ sessionId: 's1' });
+    first.on('error', () => undefined);
+    primary.streams[0].error('connection lost');
+    await new Promise(resolve => setImmediate(resolve));
+    
+    const trial = await provider.createStream({ sessionId: 's2' });
+    expect(providerOf(trial)).toBe('primary');
+    await trial.close();
+    
+    expect(providerOf(await provider.createStream({ sessionId: 's3' }))).toBe('primary');
+    await provider.cleanup();
+  });
+});
@@ -0,0 +1,480 @@
+// ABOUTME: Composite provider that fails over across an ordered list of transcription providers
+// ABOUTME: Tracks per-provider health with a circuit breaker and moves live sessions to the next healthy provider
+
+import {
+  AudioFormatSupport,
+  ProviderCapabilities,
+  TranscriptionProvider,
+  StreamingTranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamOptions
+} from '../common/types';
+import { BaseTranscriptionStream } from './TranscriptionStream';
+import { RequestResponseAdapter } from './RequestResponseAdapter';
+import { isContainerFormat, supportsAudioFormat } from '../common/audioFormat';
+
+export interface FallbackProviderEntry {
+  name: string;
+  provider: TranscriptionProvider | StreamingTranscriptionProvider;
+}
+
+export interface FallbackTranscriptionProviderOptions {
+  providers: Array<FallbackProviderEntry | TranscriptionProvider | StreamingTranscriptionProvider>;
+  failureThreshold?: number; // Consecutive failures that open the circuit
+  errorRateThreshold?: number; // Error rate (0..1) over the window that opens the circuit
+  windowSize?: number; // Number of recent outcomes used for the error rate
+  minimumRequests?: number; // Outcomes needed before the error rate is considered
+  cooldownMs?: number; // Time an open circuit waits before allowing a trial stream
+  replayBufferBytes?: number; // Recent audio replayed to the next provider after a switch
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface FallbackProviderStats {
+  name: string;
+  state: CircuitState;
+  errorRate: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number | null;
+  activeStreams: number;
+  stats?: Record<string, unknown>; // What the provider itself reports
+}
+
+export interface FallbackTranscriptionStats {
+  activeStreams: number;
+  providers: FallbackProviderStats[];
+}
+
+// Request outcomes a provider counts in its getStats(), e.g. HttpBatchTranscriptionProvider's uploads
+interface RequestCounters {
+  successes: number;
+  failures: number; // Requests that failed for good
+  retries: number; // Requests that failed and were retried
+}
+
+class ProviderHealth {
+  state: CircuitState = 'closed';
+  consecutiveFailures = 0;
+  openedAt = 0;
+  private probing = false; // A half-open circuit's single trial stream is running
+  private counters: RequestCounters | null = null; // Last counts seen, once the provider has reported them
+  private outcomes: boolean[] = [];
+  private latencies: number[] = [];
+  
+  constructor(
+    readonly name: string,
+    readonly provider: StreamingTranscriptionProvider,
+    private options: FallbackTranscriptionProviderOptions
+  ) {}
+  
+  // Providers that count their own requests are judged by those counts, stream errors and results aside
+  get countsRequests(): boolean {
+    return this.counters !== null;
+  }
+  
+  isAvailable(): boolean {
+    this.syncStats();
+    if (this.state === 'open' && Date.now() - this.openedAt >= (this.options.cooldownMs ?? 30000)) {
+      this.state = 'half-open';
+      this.probing = false;
+    }
+    return this.state === 'closed' || (this.state === 'half-open' && !this.probing);
+  }
+  
+  // Claims the trial stream of a half-open circuit; true when the stream is that trial
+  startProbe(): boolean {
+    if (this.state !== 'half-open') return false;
+    this.probing = true;
+    return true;
+  }
+  
+  // The trial stream ended without a verdict, so the next stream may try instead
+  endProbe(): void {
+    if (this.state === 'half-open') this.probing = false;
+  }
+  
+  recordSuccess(latencyMs?: number): void {
+    this.pushOutcome(true);
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+    this.probing = false;
+    if (latencyMs !== undefined) this.recordLatency(latencyMs);
+  }
+  
+  recordLatency(latencyMs: number): void {
+    this.latencies.push(latencyMs);
+    if (this.latencies.length > (this.options.windowSize ?? 20)) {
+      this.latencies.shift();
+    }
+  }
+  
+  recordFailure(): void {
+    this.pushOutcome(false);
+    this.consecutiveFailures++;
+    
+    const tooManyInARow = this.consecutiveFailures >= (this.options.failureThreshold ?? 3);
+    const enoughSamples = this.outcomes.length >= (this.options.minimumRequests ?? 5);
+    const errorRateTooHigh = enoughSamples && this.errorRate() >= (this.options.errorRateThreshold ?? 0.5);
+    
+    if (this.state === 'half-open' || tooManyInARow || errorRateTooHigh) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.probing = false;
+    }
+  }
+  
+  // Reads the provider's stats and records the request outcomes it counted since the last call.
+  // These include failed attempts it retried, which never reach the stream as errors.
+  syncStats(): Record<string, unknown> | undefined {
+    const stats = this.provider.getStats?.();
+    const counters = readCounters(stats);
+    if (!counters) return stats;
+    
+    const previous = this.counters ?? { successes: 0, failures: 0, retries: 0 };
+    this.counters = counters;
+    const successes = Math.max(0, counters.successes - previous.successes);
+    const failures = Math.max(0, counters.failures - previous.failures) + Math.max(0, counters.retries - previous.retries);
+    
+    // Failures go last so a burst of them still opens the circuit
+    for (let i = 0; i < successes; i++) this.recordSuccess();
+    for (let i = 0; i < failures; i++) this.recordFailure();
+    return stats;
+  }
+  
+  errorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(ok => !ok).length / this.outcomes.length;
+  }
+  
+  averageLatency(): number | null {
+    if (this.latencies.length === 0) return null;
+    return Math.round(this.latencies.reduce((sum, v) => sum + v, 0) / this.latencies.length);
+  }
+  
+  private pushOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > (this.options.windowSize ?? 20)) {
+      this.outcomes.shift();
+    }
+  }
+}
+
+function readCounters(stats: Record<string, unknown> | undefined): RequestCounters | null {
+  const { successes, failures, retries = 0 } = stats ?? {};
+  if (typeof successes !== 'number' || typeof failures !== 'number' || typeof retries !== 'number') return null;
+  return { successes, failures, retries };
+}
+
+class FallbackStream extends BaseTranscriptionStream {
+  private inner: TranscriptionStream | null = null;
+  private current: ProviderHealth | null = null;
+  private probe: ProviderHealth | null = null; // Provider this stream is the half-open trial for
+  private switching: Promise<void> | null = null;
+  private recentAudio: Buffer[] = [];
+  private recentBytes = 0;
+  private initChunk: Buffer | null = null;
+  private awaitingResultSince: number | null = null;
+  
+  constructor(
+    private params: TranscriptionStreamOptions,
+    private provider: FallbackTranscriptionProvider,
+    private replayBufferBytes: number
+  ) {
+    super(params.sessionId);
+  }
+  
+  get providerName(): string | undefined {
+    return this.current?.name;
+  }
+  
+  get bufferedBytes(): number | undefined {
+    return this.inner?.bufferedBytes;
+  }
+  
+  async open(): Promise<void> {
+    const { health, stream, probe } = await this.provider.openStream(this.params);
+    this.attach(health, stream, probe);
+  }
+  
+  private attach(health: ProviderHealth, stream: TranscriptionStream, probe: boolean): void {
+    this.current = health;
+    this.inner = stream;
+    this.probe = probe ? health : null;
+    this.awaitingResultSince = null;
+    
+    stream.on('result', (result: TranscriptionResult) => {
+      if (this.inner !== stream) return;
+      
+      const latency = this.awaitingResultSince !== null ? Date.now() - this.awaitingResultSince : undefined;
+      this.awaitingResultSince = null;
+      if (health.countsRequests) {
+        health.syncStats();
+        if (latency !== undefined) health.recordLatency(latency);
+      } else {
+        health.recordSuccess(latency);
+      }
+      
+      // Audio up to a final result has been transcribed and no longer needs replaying
+      if (result.isFinal !== false) {
+        this.recentAudio = [];
+        this.recentBytes = 0;
+      }
+      
+      this.pushResult({
+        ...result,
+        metadata: { ...result.metadata, provider: health.name }
+      });
+    });
+    
+    stream.on('speech-start', ({ timestamp, audioTime }) => {
+      if (this.inner === stream) this.pushSpeechStart(audioTime, timestamp);
+    });
+    
+    stream.on('utterance-end', ({ timestamp, audioTime }) => {
+      if (this.inner === stream) this.pushUtteranceEnd(audioTime, timestamp);
+    });
+    
+    stream.on('provider-switch', (params) => {
+      if (this.inner === stream) this.emit('provider-switch', params);
+    });
+    
+    stream.on('error', (error: Error) => {
+      if (this.inner !== stream) return;
+      if (health.countsRequests) {
+        health.syncStats();
+      } else {
+        health.recordFailure();
+      }
+      
+      if (health.state === 'open') {
+        this.switchProvider(`${error.message} (circuit open)`);
+      } else {
+        this.fail(error);
+      }
+    });
+    
+    stream.on('close', () => {
+      // The provider dropped the stream without being asked to
+      if (this.inner === stream && !this.closed) {
+        health.recordFailure();
+        this.switchProvider('stream closed by provider');
+      }
+    });
+  }
+  
+  private switchProvider(reason: string): void {
+    if (this.switching || this.closed) return;
+    
+    const previous = this.current;
+    const previousStream = this.inner;
+    this.inner = null;
+    this.endProbe();
+    
+    this.switching = (async () => {
+      if (previousStream) {
+        await previousStream.close().catch(() => undefined);
+      }
+      
+      const { health, stream, probe } = await this.provider.openStream(this.params, previous);
+      if (this.closed) {
+        if (probe) health.endProbe();
+        await stream.close();
+        return;
+      }
+      
+      this.attach(health, stream, probe);
+      
+      // Replay recent audio so speech in flight during the outage is not lost
+      const replay = this.initChunk && this.recentAudio[0] !== this.initChunk
+        ? [this.initChunk, ...this.recentAudio]
+        : this.recentAudio;
+      for (const chunk of replay) {
+        stream.write(chunk);
+      }
+      
+      this.emit('provider-switch', {
+        from: previous?.name ?? 'none',
+        to: health.name,
+        reason
+      });
+    })().catch((error) => {
+      this.fail(new Error(`All transcription providers failed: ${(error as Error).message}`));
+      this.close().catch(console.error);
+    }).finally(() => {
+      this.switching = null;
+    });
+  }
+  
+  protected sendAudio(audioData: Buffer): void {
+    // Container formats only carry their header in the first chunk, which a new provider needs too
+    const format = this.params.metadata?.audioFormat || { mimeType: 'audio/webm' };
+    if (!this.initChunk && isContainerFormat(format)) {
+      this.initChunk = audioData;
+    }
+    
+    this.recentAudio.push(audioData);
+    this.recentBytes += audioData.length;
+    while (this.recentBytes > this.replayBufferBytes && this.recentAudio.length > 1) {
+      this.recentBytes -= this.recentAudio.shift()!.length;
+    }
+    
+    // While switching, the chunk is picked up from the replay buffer
+    if (!this.inner) return;
+    
+    if (this.awaitingResultSince === null) {
+      this.awaitingResultSince = Date.now();
+    }
+    this.inner.write(audioData);
+  }
+  
+  protected async flush(): Promise<void> {
+    if (this.switching) {
+      await this.switching;
+    }
+    await this.inner?.finalize();
+  }
+  
+  protected async shutdown(): Promise<void> {
+    const inner = this.inner;
+    this.inner = null;
+    this.endProbe();
+    this.recentAudio = [];
+    this.recentBytes = 0;
+    await inner?.close();
+  }
+  
+  private endProbe(): void {
+    this.probe?.endProbe();
+    this.probe = null;
+  }
+}
+
+export class FallbackTranscriptionProvider extends StreamingTranscriptionProvider {
+  private health: ProviderHealth[];
+  private streams: Set<FallbackStream> = new Set();
+  
+  constructor(private options: FallbackTranscriptionProviderOptions) {
+    super();
+    
+    if (!options.providers || options.providers.length === 0) {
+      throw new Error('FallbackTranscriptionProvider requires at least one provider');
+    }
+    
+    this.health = options.providers.map((entry, index) => {
+      const { name, provider } = 'provider' in entry
+        ? entry
+        : { name: `${entry.constructor.name}#${index}`, provider: entry };
+      return new ProviderHealth(name, RequestResponseAdapter.wrap(provider), options);
+    });
+  }
+  
+  async initialize(): Promise<void> {
+    const results = await Promise.allSettled(this.health.map(h => h.provider.initialize()));
+    
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to initialize transcription provider ${this.health[index].name}:`, result.reason);
+        this.health[index].state = 'open';
+        this.health[index].openedAt = Date.now();
+      }
+    });
+    
+    if (results.every(result => result.status === 'rejected')) {
+      throw new Error('No transcription provider could be initialized');
+    }
+    
+    // Counts from before this point are not outcomes seen here
+    this.health.forEach(health => health.syncStats());
+  }
+  
+  async createStream(params: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    const stream = new FallbackStream(params, this, this.options.replayBufferBytes ?? 512 * 1024);
+    await stream.open();
+    
+    this.streams.add(stream);
+    stream.on('close', () => {
+      this.streams.delete(stream);
+    });
+    
+    return stream;
+  }
+  
+  // Opens a stream on the first healthy provider, preferring ones after `failed` in the chain
+  async openStream(
+    params: TranscriptionStreamOptions,
+    failed?: ProviderHealth | null
+  ): Promise<{ health: ProviderHealth; stream: TranscriptionStream; probe: boolean }> {
+    const start = failed ? this.health.indexOf(failed) + 1 : 0;
+    const ordered = [...this.health.slice(start), ...this.health.slice(0, start)];
+    const errors: string[] = [];
+    const format = params.metadata?.audioFormat;
+    
+    for (const health of ordered) {
+      if (health === failed || !health.isAvailable()) continue;
+      if (format && !supportsAudioFormat(health.provider.getCapabilities?.(), format)) continue;
+      
+      // A half-open circuit lets a single trial stream through until it succeeds or fails
+      const probe = health.startProbe();
+      try {
+        const stream = await health.provider.createStream(params);
+        return { health, stream, probe };
+      } catch (error) {
+        health.recordFailure();
+        errors.push(`${health.name}: ${(error as Error).message}`);
+      }
+    }
+    
+    throw new Error(errors.length > 0 ? errors.join('; ') : 'No healthy transcription provider available');
+  }
+  
+  // A format is accepted when any provider in the chain can take it; streams only fail over to providers that can
+  getCapabilities(): ProviderCapabilities {
+    const formats: AudioFormatSupport[] = [];
+    for (const health of this.health) {
+      const supported = health.provider.getCapabilities?.().formats;
+      if (!supported || supported.length === 0) return {};
+      formats.push(...supported);
+    }
+    return { formats };
+  }
+  
+  getStats(): FallbackTranscriptionStats {
+    const sessionsByProvider: Record<string, number> = {};
+    for (const stream of this.streams) {
+      const name = stream.providerName;
+      if (name) {
+        sessionsByProvider[name] = (sessionsByProvider[name] || 0) + 1;
+      }
+    }
+    
+    return {
+      activeStreams: this.streams.size,
+      providers: this.health.map(health => {
+        const stats = health.syncStats();
+        return {
+          name: health.name,
+          state: health.state,
+          errorRate: health.errorRate(),
+          consecutiveFailures: health.consecutiveFailures,
+          averageLatencyMs: health.averageLatency(),
+          activeStreams: sessionsByProvider[health.name] || 0,
+          stats
+        };
+      })
+    };
+  }
+  
+  async cleanup(): Promise<void> {
+    for (const stream of Array.from(this.streams)) {
+      await stream.close().catch(console.error);
+    }
+    this.streams.clear();
+    
+    await Promise.all(this.health.map(health =>
+      health.provider.cleanup().catch(error => {
+        console.error(`Error cleaning up transcription provider ${health.name}:`, error);
+      })
+    ));
+  }
+}
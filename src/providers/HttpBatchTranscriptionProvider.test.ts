@@ -0,0 +1,147 @@
+// ABOUTME: Tests for the batch upload provider against a local stub of an OpenAI-compatible endpoint
+// ABOUTME: Covers segment uploads and their order, retries, request errors and the formats silence segmentation takes
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpBatchTranscriptionProvider, HttpBatchTranscriptionProviderOptions } from './HttpBatchTranscriptionProvider';
+import { TranscriptionResult, TranscriptionStream } from '../common/types';
+
+const PCM = { mimeType: 'audio/pcm', encoding: 'linear16', sampleRate: 16000, channels: 1 };
+const ONE_SECOND = 16000 * 2;
+
+interface StubRequest {
+  path?: string;
+  authorization?: string;
+  body: string;
+}
+
+// A reply queued for the next upload; uploads without one get a verbose_json transcript
+type StubReply = { status: number; body: unknown; delayMs?: number };
+
+function collect(stream: TranscriptionStream) {
+  const results: TranscriptionResult[] = [];
+  const errors: Error[] = [];
+  stream.on('result', result => results.push(result));
+  stream.on('error', error => errors.push(error));
+  return { results, errors };
+}
+
+describe('HttpBatchTranscriptionProvider', () => {
+  let server: http.Server;
+  let requests: StubRequest[];
+  let replies: StubReply[];
+  let baseUrl: string;
+  
+  beforeEach(async () => {
+    requests = [];
+    replies = [];
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const index = requests.length;
+        requests.push({ path: req.url, authorization: req.headers.authorization, body: Buffer.concat(chunks).toString('latin1') });
+        
+        const reply = replies.shift() || { status: 200, body: { text: `segment ${index}`, duration: 1 } };
+        setTimeout(() => {
+          res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(reply.body));
+        }, reply.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+  
+  async function provider(options: Partial<HttpBatchTranscriptionProviderOptions> = {}) {
+    const instance = new HttpBatchTranscriptionProvider({
+      baseUrl,
+      apiKey: 'secret',
+      model: 'tiny',
+      segmentDurationMs: 1000,
+      retryDelay: 1,
+      ...options
+    });
+    await instance.initialize();
+    return instance;
+  }
+  
+  it('uploads PCM as WAV segments and emits their transcripts in order', async () => {
+    const instance = await provider();
+    const stream = await instance.createStream({ sessionId: 's1', metadata: { audioFormat: PCM } });
+    const { results, errors } = collect(stream);
+    
+    // The first segment answers last, yet its transcript still comes first
+    replies.push({ status: 200, body: { text: 'first', duration: 1 }, delayMs: 50 });
+    stream.write(Buffer.alloc(ONE_SECOND));
+    stream.write(Buffer.alloc(ONE_SECOND));
+    stream.write(Buffer.alloc(ONE_SECOND / 2));
+    await stream.finalize();
+    
+    expect(errors).toEqual([]);
+    expect(results.map(result => [result.transcript, result.start])).toEqual([['first', 0], ['segment 1', 1], ['segment 2', 2]]);
+    expect(requests).toHaveLength(3);
+    expect(requests[0].path).toBe('/v1/audio/transcriptions');
+    expect(requests[0].authorization).toBe('Bearer secret');
+    expect(requests[0].body).toContain('tiny');
+    expect(requests[0].body).toContain('RIFF');
+    
+    await stream.close();
+    await instance.cleanup();
+  });
+  
+  it('retries an upload the server failed and counts the retry', async () => {
+    const instance = await provider();
+    const stream = await instance.createStream({ sessionId: 's1', metadata: { audioFormat: PCM } });
+    const { results, errors } = collect(stream);
+    
+    replies.push({ status: 500, body: { error: 'busy' } });
+    stream.write(Buffer.alloc(ONE_SECOND));
+    await stream.finalize();
+    
+    expect(errors).toEqual([]);
+    expect(results.map(result => result.transcript)).toEqual(['segment 1']);
+    expect(instance.getStats()).toMatchObject({ requests: 2, successes: 1, retries: 1, failures: 0 });
+    
+    await stream.close();
+    await instance.cleanup();
+  });
+  
+  it('reports a request the server refused without retrying it', async () => {
+    const instance = await provider();
+    const stream = await instance.createStream({ sessionId: 's1', metadata: { audioFormat: PCM } });
+    const { results, errors } = collect(stream);
+    
+    replies.push({ status: 400, body: { error: 'bad audio' } });
+    stream.write(Buffer.alloc(ONE_SECOND));
+    await stream.finalize();
+    
+    expect(results).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+    expect(instance.getStats()).toMatchObject({ failures: 1 });
+    
+    await stream.close();
+    await instance.cleanup();
+  });
+  
+  it('takes only linear PCM with silence segmentation', async () => {
+    const instance = await provider({ segmentation: 'silence' });
+    
+    expect(instance.getCapabilities()).toEqual({ formats: [{ mimeType: 'audio/pcm', encodings: ['linear16'] }] });
+    await expect(instance.createStream({ sessionId: 's1', metadata: { audioFormat: { mimeType: 'audio/webm', encoding: 'opus' } } }))
+      .rejects.toThrow('Silence segmentation needs linear PCM audio, not audio/webm');
+    
+    const stream = await instance.createStream({ sessionId: 's2', metadata: { audioFormat: PCM } });
+    await stream.close();
+    await instance.cleanup();
+  });
+});
@@ -0,0 +1,489 @@
+// ABOUTME: Batch transcription provider for OpenAI-compatible /audio/transcriptions endpoints
+// ABOUTME: Cuts session audio into segments by duration or silence and uploads each one as multipart form data
+
+import {
+  AudioFormat,
+  ProviderCapabilities,
+  StreamingTranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+  TranscriptionWord
+} from '../common/types';
+import { createWavHeader, pcm16Rms } from '../common/wav';
+import { isLinearPcm } from '../common/audioFormat';
+import { ContainerAudioTrack, MediaFrame } from '../common/media';
+import { BaseTranscriptionStream } from './TranscriptionStream';
+
+export interface HttpBatchTranscriptionProviderOptions {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  apiKey?: string;
+  model?: string;
+  language?: string;
+  prompt?: string;
+  temperature?: number;
+  headers?: Record<string, string>;
+  audioFormat?: AudioFormat; // Used when the session does not announce its format
+  segmentation?: 'duration' | 'silence'; // Silence needs linear PCM; compressed sessions are refused
+  segmentDurationMs?: number; // Target segment length for duration segmentation
+  maxSegmentDurationMs?: number; // Hard cap for silence segmentation
+  minSegmentDurationMs?: number; // Segments shorter than this are not cut on silence
+  silenceThreshold?: number; // RMS level (0..1) below which PCM audio counts as silence
+  silenceDurationMs?: number; // Silence needed to close a segment
+  maxConcurrency?: number; // Uploads in flight across all sessions
+  maxRetries?: number;
+  retryDelay?: number; // Base delay for exponential backoff
+  requestTimeout?: number;
+}
+
+interface AudioSegment {
+  index: number;
+  chunks: Buffer[];
+  frames: MediaFrame[]; // Demuxed container frames, re-wrapped into a standalone file on upload
+  bytes: number;
+  startMs: number; // Offset in session audio time
+  durationMs: number;
+}
+
+interface UploadStats {
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  totalLatencyMs: number;
+}
+
+class Semaphore {
+  private waiting: Array<() => void> = [];
+  private active = 0;
+  
+  constructor(private limit: number) {}
+  
+  get inUse(): number {
+    return this.active;
+  }
+  
+  get queued(): number {
+    return this.waiting.length;
+  }
+  
+  async acquire(): Promise<() => void> {
+    if (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.waiting.shift()?.();
+    };
+  }
+}
+
+class HttpStatusError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`Transcription request failed with status ${status}${body ? `: ${body}` : ''}`);
+  }
+}
+
+function fileNameFor(format: AudioFormat): string {
+  const mimeType = format.mimeType.toLowerCase();
+  if (isLinearPcm(format) || mimeType.includes('wav')) return 'audio.wav';
+  if (mimeType.includes('ogg')) return 'audio.ogg';
+  if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'audio.m4a';
+  if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return 'audio.mp3';
+  return 'audio.webm';
+}
+
+class HttpBatchStream extends BaseTranscriptionStream {
+  private format: AudioFormat;
+  private current: AudioSegment | null = null;
+  private nextIndex = 0;
+  private sessionOffsetMs = 0;
+  private silenceMs = 0;
+  private initChunk: Buffer | null = null;
+  private container: ContainerAudioTrack | null = null;
+  private uploads: Set<Promise<void>> = new Set();
+  private uploadingBytes = 0;
+  private completed: Map<number, TranscriptionResult | null> = new Map();
+  private nextToEmit = 0;
+  private durationTimer: NodeJS.Timeout | null = null;
+  
+  constructor(
+    params: TranscriptionStreamOptions,
+    private options: HttpBatchTranscriptionProviderOptions,
+    private limiter: Semaphore,
+    private stats: UploadStats
+  ) {
+    super(params.sessionId);
+    this.format = params.metadata?.audioFormat || options.audioFormat || { mimeType: 'audio/webm' };
+    if (!isLinearPcm(this.format)) {
+      this.container = new ContainerAudioTrack({ retainMs: 0 });
+    }
+  }
+  
+  // Segments waiting for or in an upload; the segment being collected is not a backlog
+  get bufferedBytes(): number {
+    return this.uploadingBytes;
+  }
+  
+  protected sendAudio(audioData: Buffer): void {
+    const pcm = isLinearPcm(this.format);
+    
+    // Container formats only carry their header in the first chunk; keep it for later segments
+    if (!pcm && !this.initChunk) {
+      this.initChunk = audioData;
+    }
+    
+    if (!this.current) {
+      this.current = {
+        index: this.nextIndex++,
+        chunks: [],
+        frames: [],
+        bytes: 0,
+        startMs: this.sessionOffsetMs,
+        durationMs: 0
+      };
+      
+      // Without a byte rate, compressed audio is cut on wall-clock time
+      if (!pcm) {
+        this.durationTimer = setTimeout(() => this.cutSegment(), this.options.segmentDurationMs ?? 5000);
+      }
+    }
+    
+    const segment = this.current;
+    segment.chunks.push(audioData);
+    segment.bytes += audioData.length;
+    
+    if (!pcm) {
+      segment.frames.push(...this.demux(audioData));
+      return;
+    }
+    
+    const chunkMs = this.pcmDurationMs(audioData.length);
+    segment.durationMs += chunkMs;
+    this.sessionOffsetMs += chunkMs;
+    
+    if (this.options.segmentation === 'silence') {
+      const threshold = this.options.silenceThreshold ?? 0.01;
+      this.silenceMs = pcm16Rms(audioData) < threshold ? this.silenceMs + chunkMs : 0;
+      
+      const longEnough = segment.durationMs >= (this.options.minSegmentDurationMs ?? 1000);
+      if ((longEnough && this.silenceMs >= (this.options.silenceDurationMs ?? 700)) ||
+          segment.durationMs >= (this.options.maxSegmentDurationMs ?? 30000)) {
+        this.cutSegment();
+      }
+    } else if (segment.durationMs >= (this.options.segmentDurationMs ?? 5000)) {
+      this.cutSegment();
+    }
+  }
+  
+  private demux(audioData: Buffer): MediaFrame[] {
+    if (!this.container) return [];
+    
+    try {
+      return this.container.push(audioData);
+    } catch (error) {
+      // Fall back to uploading the header followed by raw chunks
+      console.error(`Failed to demux audio for session ${this.sessionId}:`, error);
+      this.container = null;
+      return [];
+    }
+  }
+  
+  private pcmDurationMs(bytes: number): number {
+    const sampleRate = this.format.sampleRate || 16000;
+    const channels = this.format.channels || 1;
+    const bytesPerSample = (this.format.bitDepth || 16) / 8;
+    return (bytes / (sampleRate * channels * bytesPerSample)) * 1000;
+  }
+  
+  private cutSegment(): void {
+    if (this.durationTimer) {
+      clearTimeout(this.durationTimer);
+      this.durationTimer = null;
+    }
+    
+    const segment = this.current;
+    this.current = null;
+    this.silenceMs = 0;
+    if (!segment || segment.bytes === 0) return;
+    
+    if (!isLinearPcm(this.format)) {
+      const first = segment.frames[0];
+      const last = segment.frames[segment.frames.length - 1];
+      if (first && last) {
+        // Container timestamps are exact, unlike the wall-clock segment timer
+        segment.startMs = first.timestamp;
+        segment.durationMs = last.timestamp + last.duration - first.timestamp;
+        this.sessionOffsetMs = last.timestamp + last.duration;
+      } else {
+        segment.durationMs = this.options.segmentDurationMs ?? 5000;
+        this.sessionOffsetMs += segment.durationMs;
+      }
+    }
+    
+    this.uploadingBytes += segment.bytes;
+    const upload = this.upload(segment).finally(() => {
+      this.uploads.delete(upload);
+      this.uploadingBytes -= segment.bytes;
+    });
+    this.uploads.add(upload);
+  }
+  
+  private encodeSegment(segment: AudioSegment): Buffer {
+    const audio = Buffer.concat(segment.chunks);
+    
+    if (isLinearPcm(this.format)) {
+      const header = createWavHeader(audio.length, {
+        sampleRate: this.format.sampleRate || 16000,
+        channels: this.format.channels || 1,
+        bitDepth: this.format.bitDepth || 16
+      });
+      return Buffer.concat([Buffer.from(header), audio]);
+    }
+    
+    const wrapped = this.container && segment.frames.length > 0 ? this.container.wrap(segment.frames) : null;
+    if (wrapped) {
+      return wrapped;
+    }
+    
+    if (this.initChunk && segment.chunks[0] !== this.initChunk) {
+      return Buffer.concat([this.initChunk, audio]);
+    }
+    
+    return audio;
+  }
+  
+  private async upload(segment: AudioSegment): Promise<void> {
+    let result: TranscriptionResult | null = null;
+    
+    try {
+      const body = await this.requestWithRetries(this.encodeSegment(segment));
+      result = this.toResult(body, segment);
+    } catch (error) {
+      this.stats.failures++;
+      this.fail(error as Error);
+    }
+    
+    // Emit in segment order even when uploads finish out of order
+    this.completed.set(segment.index, result);
+    while (this.completed.has(this.nextToEmit)) {
+      const next = this.completed.get(this.nextToEmit);
+      this.completed.delete(this.nextToEmit);
+      this.nextToEmit++;
+      if (next && next.transcript) {
+        this.pushResult(next);
+      }
+    }
+  }
+  
+  private async requestWithRetries(audio: Buffer): Promise<any> {
+    const maxRetries = this.options.maxRetries ?? 3;
+    let attempt = 0;
+    
+    while (true) {
+      const release = await this.limiter.acquire();
+      const startTime = Date.now();
+      
+      try {
+        this.stats.requests++;
+        const body = await this.request(audio);
+        this.stats.successes++;
+        this.stats.totalLatencyMs += Date.now() - startTime;
+        return body;
+      } catch (error) {
+        const retryable = !(error instanceof HttpStatusError) ||
+          error.status === 429 || error.status >= 500;
+        
+        if (!retryable || attempt >= maxRetries || this.closed) {
+          throw error;
+        }
+      } finally {
+        release();
+      }
+      
+      attempt++;
+      this.stats.retries++;
+      const delay = (this.options.retryDelay ?? 500) * Math.pow(2, attempt - 1);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+  
+  private async request(audio: Buffer): Promise<any> {
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([new Uint8Array(audio)], { type: isLinearPcm(this.format) ? 'audio/wav' : this.format.mimeType }),
+      fileNameFor(this.format)
+    );
+    form.append('model', this.options.model || 'whisper-1');
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    form.append('timestamp_granularities[]', 'word');
+    if (this.options.language) form.append('language', this.options.language);
+    if (this.options.prompt) form.append('prompt', this.options.prompt);
+    if (this.options.temperature !== undefined) form.append('temperature', String(this.options.temperature));
+    
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.requestTimeout ?? 60000);
+    
+    try {
+      const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: {
+          ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+          ...this.options.headers
+        },
+        body: form,
+        signal: controller.signal
+      });
+      
+      if (!response.ok) {
+        throw new HttpStatusError(response.status, await response.text().catch(() => ''));
+      }
+      
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+  
+  private toResult(body: any, segment: AudioSegment): TranscriptionResult {
+    const offsetSeconds = segment.startMs / 1000;
+    const segments: any[] = Array.isArray(body?.segments) ? body.segments : [];
+    const words: any[] = Array.isArray(body?.words) ? body.words : [];
+    
+    // avg_logprob is the mean token log-probability; exp() turns it into a 0..1 confidence
+    const logprobs = segments.map(s => s.avg_logprob).filter((v): v is number => typeof v === 'number');
+    const confidence = logprobs.length > 0
+      ? Math.exp(logprobs.reduce((sum, v) => sum + v, 0) / logprobs.length)
+      : undefined;
+    
+    return {
+      transcript: String(body?.text ?? '').trim(),
+      confidence,
+      timestamp: Date.now(),
+      isFinal: true,
+      start: offsetSeconds,
+      end: offsetSeconds + (body?.duration ?? segment.durationMs / 1000),
+      words: words.map((w): TranscriptionWord => ({
+        word: String(w.word ?? '').trim(),
+        start: offsetSeconds + (w.start ?? 0),
+        end: offsetSeconds + (w.end ?? 0),
+        ...(typeof w.probability === 'number' && { confidence: w.probability })
+      })),
+      metadata: {
+        isFinal: true,
+        language: body?.language,
+        duration: body?.duration,
+        segments: segments.map(s => ({
+          text: String(s.text ?? '').trim(),
+          start: offsetSeconds + (s.start ?? 0),
+          end: offsetSeconds + (s.end ?? 0),
+          noSpeechProb: s.no_speech_prob
+        }))
+      }
+    };
+  }
+  
+  protected async flush(): Promise<void> {
+    this.cutSegment();
+    while (this.uploads.size > 0) {
+      await Promise.all(Array.from(this.uploads));
+    }
+  }
+  
+  protected async shutdown(): Promise<void> {
+    if (this.durationTimer) {
+      clearTimeout(this.durationTimer);
+      this.durationTimer = null;
+    }
+    this.current = null;
+  }
+}
+
+export class HttpBatchTranscriptionProvider extends StreamingTranscriptionProvider {
+  private streams: Map<string, HttpBatchStream> = new Map();
+  private limiter: Semaphore;
+  private stats: UploadStats = { requests: 0, successes: 0, failures: 0, retries: 0, totalLatencyMs: 0 };
+  
+  constructor(private options: HttpBatchTranscriptionProviderOptions) {
+    super();
+    this.limiter = new Semaphore(options.maxConcurrency ?? 2);
+  }
+  
+  async initialize(): Promise<void> {
+    if (!this.options.baseUrl) {
+      throw new Error('HttpBatchTranscriptionProvider requires a baseUrl');
+    }
+    if (typeof fetch !== 'function' || typeof FormData !== 'function') {
+      throw new Error('HttpBatchTranscriptionProvider requires global fetch and FormData (Node.js 18+)');
+    }
+  }
+  
+  async createStream(params: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    // Silence is only measured on PCM samples, so compressed audio would never be cut on it
+    const format = params.metadata?.audioFormat || this.options.audioFormat || { mimeType: 'audio/webm' };
+    if (this.options.segmentation === 'silence' && !isLinearPcm(format)) {
+      throw new Error(`Silence segmentation needs linear PCM audio, not ${format.mimeType}`);
+    }
+    
+    const stream = new HttpBatchStream(params, this.options, this.limiter, this.stats);
+    this.streams.set(params.sessionId, stream);
+    
+    stream.on('close', () => {
+      if (this.streams.get(params.sessionId) === stream) {
+        this.streams.delete(params.sessionId);
+      }
+    });
+    
+    return stream;
+  }
+  
+  async updateConfiguration(config: Partial<HttpBatchTranscriptionProviderOptions>): Promise<void> {
+    Object.assign(this.options, config);
+  }
+  
+  getCapabilities(): ProviderCapabilities {
+    if (this.options.segmentation === 'silence') {
+      return { formats: [{ mimeType: 'audio/pcm', encodings: ['linear16'] }] };
+    }
+    
+    // Upload formats accepted by OpenAI-compatible endpoints; PCM is wrapped in a WAV header
+    return {
+      formats: [
+        { mimeType: 'audio/webm' },
+        { mimeType: 'audio/ogg' },
+        { mimeType: 'audio/mp4' },
+        { mimeType: 'audio/mpeg' },
+        { mimeType: 'audio/wav' },
+        { mimeType: 'audio/pcm', encodings: ['linear16'] }
+      ]
+    };
+  }
+  
+  getStats(): any {
+    const { successes } = this.stats;
+    return {
+      activeStreams: this.streams.size,
+      requests: this.stats.requests,
+      successes,
+      failures: this.stats.failures,
+      retries: this.stats.retries,
+      averageLatencyMs: successes > 0 ? Math.round(this.stats.totalLatencyMs / successes) : 0,
+      uploadsInFlight: this.limiter.inUse,
+      uploadsQueued: this.limiter.queued
+    };
+  }
+  
+  async cleanup(): Promise<void> {
+    for (const stream of Array.from(this.streams.values())) {
+      await stream.close();
+    }
+    this.streams.clear();
+  }
+}
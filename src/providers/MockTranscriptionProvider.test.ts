@@ -0,0 +1,174 @@
+// ABOUTME: Tests for the scripted mock provider: fixed text, timed scripts, words, errors and JSONL replay
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockTranscriptionProvider } from './MockTranscriptionProvider';
+import { SpeechEvent, TranscriptionResult, TranscriptionStream } from '../common/types';
+
+async function openStream(provider: MockTranscriptionProvider, sessionId = 's1') {
+  await provider.initialize();
+  const stream = await provider.createStream({ sessionId });
+  const results: TranscriptionResult[] = [];
+  const errors: Error[] = [];
+  const events: string[] = [];
+  stream.on('result', result => {
+    results.push(result);
+    events.push(`result:${result.transcript}`);
+  });
+  stream.on('speech-start', () => events.push('speech-start'));
+  stream.on('utterance-end', (event: SpeechEvent) => events.push(`utterance-end:${event.audioTime}`));
+  stream.on('error', error => errors.push(error));
+  return { stream, results, errors, events };
+}
+
+function audio(stream: TranscriptionStream, chunks: number): void {
+  for (let i = 0; i < chunks; i++) stream.write(Buffer.alloc(10));
+}
+
+describe('MockTranscriptionProvider', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  
+  it('emits fixed text for every chunk', async () => {
+    const { stream, results } = await openStream(new MockTranscriptionProvider({ text: 'hello' }));
+    audio(stream, 3);
+    await stream.finalize();
+    
+    expect(results.map(r => r.transcript)).toEqual(['hello', 'hello', 'hello']);
+    expect(results[0]).toMatchObject({ isFinal: true, confidence: 1, metadata: { mock: true } });
+  });
+  
+  it('walks through an untimed script one entry per chunk, optionally looping', async () => {
+    const provider = new MockTranscriptionProvider({
+      script: [{ transcript: 'one' }, { transcript: 'two' }],
+      loop: true
+    });
+    const { stream, results } = await openStream(provider);
+    audio(stream, 3);
+    await stream.finalize();
+    
+    expect(results.map(r => r.transcript)).toEqual(['one', 'two', 'one']);
+  });
+  
+  it('emits timed entries relative to the first chunk', async () => {
+    jest.useFakeTimers();
+    const { stream, results } = await openStream(new MockTranscriptionProvider({
+      script: [{ transcript: 'late', at: 500 }, { transcript: 'early', at: 100 }],
+      latencyMs: 50
+    }));
+    audio(stream, 1);
+    
+    jest.advanceTimersByTime(149);
+    expect(results).toHaveLength(0);
+    jest.advanceTimersByTime(1);
+    expect(results.map(r => r.transcript)).toEqual(['early']);
+    jest.advanceTimersByTime(400);
+    expect(results.map(r => r.transcript)).toEqual(['early', 'late']);
+  });
+  
+  it('builds word-level results with speakers, interim results and turn-taking events', async () => {
+    const { stream, results, events } = await openStream(new MockTranscriptionProvider({
+      script: [{
+        words: [
+          { word: 'hi', start: 0.1, end: 0.3, speaker: 1 },
+          { word: 'there', start: 0.4, end: 0.8, speaker: 1 }
+        ],
+        interim: true,
+        speechStart: true,
+        utteranceEnd: true
+      }]
+    }));
+    audio(stream, 1);
+    await stream.finalize();
+    
+    expect(events).toEqual(['speech-start', 'result:hi', 'result:hi there', 'utterance-end:0.8']);
+    expect(results[0].isFinal).toBe(false);
+    expect(results[1]).toMatchObject({ transcript: 'hi there', speaker: 1, start: 0.1, end: 0.8, isFinal: true });
+    expect(results[1].words).toHaveLength(2);
+  });
+  
+  it('plays out the rest of a timed script at once when finalized', async () => {
+    const { stream, results } = await openStream(new MockTranscriptionProvider({
+      script: [{ transcript: 'much later', at: 60000 }, { transcript: 'later', at: 30000 }]
+    }));
+    audio(stream, 1);
+    
+    const started = Date.now();
+    await stream.finalize();
+    
+    expect(results.map(r => r.transcript)).toEqual(['later', 'much later']);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+  
+  it('lets a pending flush return when the stream is closed', async () => {
+    const { stream, results } = await openStream(new MockTranscriptionProvider({ text: 'slow', latencyMs: 60000 }));
+    audio(stream, 2);
+    
+    const flushed = stream.finalize();
+    await stream.close();
+    await flushed;
+    
+    expect(results).toEqual([]);
+  });
+  
+  it('injects errors and failures', async () => {
+    const { stream, errors } = await openStream(new MockTranscriptionProvider({ script: [{ error: 'scripted' }] }));
+    audio(stream, 1);
+    await stream.finalize();
+    expect(errors.map(e => e.message)).toEqual(['scripted']);
+    
+    await expect(new MockTranscriptionProvider({ initializeError: 'no init' }).initialize()).rejects.toThrow('no init');
+    await expect(new MockTranscriptionProvider({ createStreamError: 'no stream' }).createStream({ sessionId: 's' }))
+      .rejects.toThrow('no stream');
+  });
+  
+  it('replays a recorded JSONL transcript at its original pace', async () => {
+    jest.useFakeTimers();
+    const file = join(tmpdir(), `mock-replay-${process.pid}.jsonl`);
+    await fs.writeFile(file, [
+      JSON.stringify({ transcript: 'first', confidence: 0.9, timestamp: 1000 }),
+      '',
+      JSON.stringify({ transcript: 'second', confidence: 0.8, timestamp: 3000 })
+    ].join('\n'));
+    
+    try {
+      const { stream, results } = await openStream(new MockTranscriptionProvider({ replayFile: file }));
+      audio(stream, 1);
+      
+      jest.advanceTimersByTime(0);
+      expect(results.map(r => r.transcript)).toEqual(['first']);
+      jest.advanceTimersByTime(2000);
+      expect(results.map(r => [r.transcript, r.confidence])).toEqual([['first', 0.9], ['second', 0.8]]);
+    } finally {
+      await fs.unlink(file);
+    }
+  });
+  
+  it('rejects replay files with invalid lines', async () => {
+    const file = join(tmpdir(), `mock-invalid-${process.pid}.jsonl`);
+    await fs.writeFile(file, '{"transcript":"ok"}\nnot json\n');
+    
+    try {
+      await expect(new MockTranscriptionProvider({ replayFile: file }).initialize())
+        .rejects.toThrow('Invalid JSON on line 2 of replay file');
+    } finally {
+      await fs.unlink(file);
+    }
+  });
+  
+  it('exposes received audio and stream counts for assertions', async () => {
+    const provider = new MockTranscriptionProvider({ formats: [{ mimeType: 'audio/pcm' }] });
+    const { stream } = await openStream(provider);
+    stream.write(Buffer.from([1, 2, 3]));
+    
+    expect(provider.getReceivedAudio('s1')).toEqual(Buffer.from([1, 2, 3]));
+    expect(provider.getStats()).toMatchObject({ activeStreams: 1, streamsCreated: 1 });
+    expect(provider.getCapabilities()).toEqual({ formats: [{ mimeType: 'audio/pcm' }] });
+    
+    await provider.cleanup();
+    expect(provider.getStats().activeStreams).toBe(0);
+    expect(provider.getReceivedAudio('s1').length).toBe(0);
+  });
+});
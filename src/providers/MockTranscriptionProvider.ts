@@ -0,0 +1,304 @@
+// ABOUTME: Scripted transcription provider for offline development and tests
+// ABOUTME: Emits transcripts from fixed text, a timed script or a recorded JSONL transcript without network access
+
+import { promises as fs } from 'fs';
+import {
+  AudioFormatSupport,
+  ProviderCapabilities,
+  StreamingTranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+  TranscriptionWord
+} from '../common/types';
+import { BaseTranscriptionStream } from './TranscriptionStream';
+
+export interface MockWord {
+  word: string;
+  start?: number;
+  end?: number;
+  confidence?: number;
+  speaker?: string | number;
+}
+
+export interface MockScriptEntry {
+  transcript?: string;
+  at?: number; // ms after the first audio chunk; entries without it are emitted one per audio chunk
+  latency?: number; // Overrides latencyMs for this entry
+  isFinal?: boolean;
+  interim?: boolean; // Emit word-by-word interim results before the final one
+  speaker?: string | number;
+  confidence?: number;
+  words?: MockWord[];
+  speechStart?: boolean; // Emit a speech-start before this entry
+  utteranceEnd?: boolean; // Emit an utterance-end after this entry
+  error?: string; // Emit an error instead of a transcript
+  metadata?: Record<string, any>;
+}
+
+export interface MockTranscriptionProviderOptions {
+  text?: string; // Fixed transcript emitted for every audio chunk
+  script?: MockScriptEntry[];
+  replayFile?: string; // JSONL file with one TranscriptionResult or script entry per line
+  latencyMs?: number;
+  loop?: boolean; // Restart the script when it runs out
+  initializeError?: string;
+  createStreamError?: string;
+  formats?: AudioFormatSupport[]; // Declared capabilities, for testing format negotiation
+}
+
+interface ScheduledEntry {
+  due: number;
+  timed: boolean; // Placed by the script's `at` rather than by an audio chunk
+  fire: () => void;
+  settle: () => void; // Settles the pending promise without emitting
+}
+
+class MockTranscriptionStream extends BaseTranscriptionStream {
+  private cursor = 0;
+  private started = false;
+  private timers: Map<NodeJS.Timeout, ScheduledEntry> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+  audioBytesReceived = 0;
+  audioChunks: Buffer[] = [];
+  
+  constructor(
+    sessionId: string,
+    private options: MockTranscriptionProviderOptions,
+    private script: MockScriptEntry[]
+  ) {
+    super(sessionId);
+  }
+  
+  protected sendAudio(audioData: Buffer): void {
+    this.audioBytesReceived += audioData.length;
+    this.audioChunks.push(audioData);
+    
+    if (!this.started) {
+      this.started = true;
+      this.scheduleTimedEntries();
+    }
+    
+    if (this.options.text !== undefined) {
+      this.schedule({ transcript: this.options.text }, this.options.latencyMs ?? 0);
+      return;
+    }
+    
+    const entry = this.nextUntimedEntry();
+    if (entry) {
+      this.schedule(entry, entry.latency ?? this.options.latencyMs ?? 0);
+    }
+  }
+  
+  private scheduleTimedEntries(): void {
+    for (const entry of this.script) {
+      if (entry.at === undefined) continue;
+      this.schedule(entry, entry.at + (entry.latency ?? this.options.latencyMs ?? 0), true);
+    }
+  }
+  
+  private nextUntimedEntry(): MockScriptEntry | null {
+    const untimed = this.script.filter(entry => entry.at === undefined);
+    if (untimed.length === 0) return null;
+    
+    if (this.cursor >= untimed.length) {
+      if (!this.options.loop) return null;
+      this.cursor = 0;
+    }
+    
+    return untimed[this.cursor++];
+  }
+  
+  private schedule(entry: MockScriptEntry, delay: number, timed = false): void {
+    const done = new Promise<void>((resolve) => {
+      const fire = () => {
+        clearTimeout(timer);
+        this.timers.delete(timer);
+        this.emitEntry(entry);
+        resolve();
+      };
+      const timer = setTimeout(fire, delay);
+      this.timers.set(timer, { due: Date.now() + delay, timed, fire, settle: resolve });
+    });
+    
+    this.pending.add(done);
+    done.then(() => this.pending.delete(done));
+  }
+  
+  private emitEntry(entry: MockScriptEntry): void {
+    if (entry.error) {
+      this.fail(new Error(entry.error));
+      return;
+    }
+    
+    if (entry.speechStart) {
+      this.pushSpeechStart(entry.words?.[0]?.start);
+    }
+    
+    const result = toResult(entry);
+    if (entry.interim && result.isFinal !== false) {
+      const words = result.transcript.split(/\s+/).filter(Boolean);
+      for (let i = 1; i < words.length; i++) {
+        this.pushResult({ ...result, transcript: words.slice(0, i).join(' '), isFinal: false });
+      }
+    }
+    
+    this.pushResult(result);
+    
+    if (entry.utteranceEnd) {
+      this.pushUtteranceEnd(result.end);
+    }
+  }
+  
+  protected async flush(): Promise<void> {
+    // No more audio is coming, so the rest of a timed script plays out at once instead of in real time
+    const timed = Array.from(this.timers.values())
+      .filter(scheduled => scheduled.timed)
+      .sort((a, b) => a.due - b.due);
+    for (const scheduled of timed) {
+      scheduled.fire();
+    }
+    
+    // Per-chunk entries only wait for their latency
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+  
+  protected async shutdown(): Promise<void> {
+    // Entries that will never fire are settled so a flush waiting on them returns
+    for (const [timer, scheduled] of this.timers) {
+      clearTimeout(timer);
+      scheduled.settle();
+    }
+    this.timers.clear();
+    this.pending.clear();
+  }
+}
+
+function toResult(entry: MockScriptEntry): TranscriptionResult {
+  const words = entry.words || [];
+  const transcript = entry.transcript ?? words.map(w => w.word).join(' ');
+  const speaker = entry.speaker ?? words.find(w => w.speaker !== undefined)?.speaker;
+  
+  return {
+    transcript,
+    confidence: entry.confidence ?? 1,
+    timestamp: Date.now(),
+    isFinal: entry.isFinal ?? true,
+    ...(speaker !== undefined && { speaker }),
+    ...(words.length > 0 && {
+      start: words[0].start ?? 0,
+      end: words[words.length - 1].end ?? words[words.length - 1].start ?? 0,
+      words: words.map((w): TranscriptionWord => ({
+        word: w.word,
+        start: w.start ?? 0,
+        end: w.end ?? w.start ?? 0,
+        confidence: w.confidence ?? 1,
+        ...(w.speaker !== undefined && { speaker: w.speaker })
+      }))
+    }),
+    metadata: {
+      ...entry.metadata,
+      mock: true
+    }
+  };
+}
+
+function parseReplay(content: string): MockScriptEntry[] {
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+  const records: any[] = lines.map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${index + 1} of replay file`);
+    }
+  });
+  
+  // Recorded transcripts carry wall-clock timestamps; replay them relative to the first one
+  const firstTimestamp = records.find(r => typeof r.timestamp === 'number')?.timestamp;
+  
+  return records.map((record): MockScriptEntry => ({
+    ...record,
+    at: record.at ?? (
+      typeof record.timestamp === 'number' && firstTimestamp !== undefined
+        ? record.timestamp - firstTimestamp
+        : undefined
+    )
+  }));
+}
+
+export class MockTranscriptionProvider extends StreamingTranscriptionProvider {
+  private streams: Map<string, MockTranscriptionStream> = new Map();
+  private script: MockScriptEntry[];
+  private streamsCreated = 0;
+  
+  constructor(private options: MockTranscriptionProviderOptions = {}) {
+    super();
+    this.script = options.script || [];
+  }
+  
+  async initialize(): Promise<void> {
+    if (this.options.initializeError) {
+      throw new Error(this.options.initializeError);
+    }
+    
+    if (this.options.replayFile) {
+      const content = await fs.readFile(this.options.replayFile, 'utf8');
+      this.script = parseReplay(content);
+    }
+  }
+  
+  async createStream(params: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    if (this.options.createStreamError) {
+      throw new Error(this.options.createStreamError);
+    }
+    
+    const stream = new MockTranscriptionStream(params.sessionId, this.options, this.script);
+    this.streams.set(params.sessionId, stream);
+    this.streamsCreated++;
+    
+    stream.on('close', () => {
+      if (this.streams.get(params.sessionId) === stream) {
+        this.streams.delete(params.sessionId);
+      }
+    });
+    
+    return stream;
+  }
+  
+  // Audio received so far by the session's open stream, for assertions in tests
+  getReceivedAudio(sessionId: string): Buffer {
+    const stream = this.streams.get(sessionId);
+    return stream ? Buffer.concat(stream.audioChunks) : Buffer.alloc(0);
+  }
+  
+  async updateConfiguration(config: Partial<MockTranscriptionProviderOptions>): Promise<void> {
+    Object.assign(this.options, config);
+    if (config.script) {
+      this.script = config.script;
+    }
+  }
+  
+  getCapabilities(): ProviderCapabilities {
+    return { formats: this.options.formats };
+  }
+  
+  getStats(): any {
+    return {
+      activeStreams: this.streams.size,
+      streamsCreated: this.streamsCreated,
+      streams: Array.from(this.streams.entries()).map(([sessionId, stream]) => ({
+        sessionId,
+        audioBytesReceived: stream.audioBytesReceived
+      }))
+    };
+  }
+  
+  async cleanup(): Promise<void> {
+    for (const stream of Array.from(this.streams.values())) {
+      await stream.close();
+    }
+    this.streams.clear();
+  }
+}
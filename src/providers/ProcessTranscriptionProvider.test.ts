@@ -0,0 +1,145 @@
+// ABOUTME: Tests for the command-line provider using small Node.js programs as the transcriber
+// ABOUTME: Covers the JSON-lines output format, finalizing through stdin, crash restarts and cleanup
+
+import { parseProcessOutputLine, ProcessTranscriptionProvider } from './ProcessTranscriptionProvider';
+import { TranscriptionResult, TranscriptionStream } from '../common/types';
+
+// Prints how many bytes it read once stdin closes
+const COUNTER = `
+let bytes = 0;
+process.stdin.on('data', chunk => { bytes += chunk.length; });
+process.stdin.on('end', () => {
+  console.log(JSON.stringify({ type: 'speech_start', time: 0.5 }));
+  console.log(JSON.stringify({ text: 'heard ' + bytes + ' bytes', is_final: true, confidence: 0.9 }));
+});
+`;
+
+function provider(script: string, options: Partial<ConstructorParameters<typeof ProcessTranscriptionProvider>[0]> = {}) {
+  return new ProcessTranscriptionProvider({ command: process.execPath, args: ['-e', script], ...options });
+}
+
+function collect(stream: TranscriptionStream) {
+  const results: TranscriptionResult[] = [];
+  const errors: Error[] = [];
+  const speechStarts: (number | undefined)[] = [];
+  stream.on('result', result => results.push(result));
+  stream.on('error', error => errors.push(error));
+  stream.on('speech-start', event => speechStarts.push(event.audioTime));
+  return { results, errors, speechStarts };
+}
+
+describe('parseProcessOutputLine', () => {
+  it('maps result lines to transcription results', () => {
+    const output = parseProcessOutputLine(JSON.stringify({
+      text: ' hello ',
+      is_final: false,
+      confidence: 0.5,
+      speaker: 2,
+      start: 1,
+      end: 2,
+      language: 'en',
+      words: [{ text: 'hello', start: 1, end: 2, probability: 0.5, punctuated_word: 'Hello' }]
+    }));
+    
+    expect(output).toEqual({
+      type: 'result',
+      result: expect.objectContaining({
+        transcript: 'hello',
+        isFinal: false,
+        speaker: 2,
+        start: 1,
+        end: 2,
+        words: [{ word: 'hello', start: 1, end: 2, confidence: 0.5, punctuatedWord: 'Hello' }],
+        metadata: { isFinal: false, language: 'en' }
+      })
+    });
+  });
+  
+  it('maps events and errors and skips anything else', () => {
+    expect(parseProcessOutputLine('{"type":"utterance_end","time":4.7}')).toEqual({ type: 'utterance-end', audioTime: 4.7 });
+    expect(parseProcessOutputLine('{"type":"error","message":"no model"}')).toEqual({ type: 'error', message: 'no model' });
+    expect(parseProcessOutputLine('loading model...')).toBeNull();
+    expect(parseProcessOutputLine('{"progress":0.5}')).toBeNull();
+    expect(parseProcessOutputLine('   ')).toBeNull();
+  });
+});
+
+describe('ProcessTranscriptionProvider', () => {
+  let errorSpy: jest.SpyInstance;
+  
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+  
+  it('pipes audio to the program and reads its results when finalized', async () => {
+    const transcriber = provider(COUNTER);
+    await transcriber.initialize();
+    const stream = await transcriber.createStream({ sessionId: 's1' });
+    const { results, speechStarts } = collect(stream);
+    
+    stream.write(Buffer.alloc(100));
+    stream.write(Buffer.alloc(28));
+    await stream.finalize();
+    
+    expect(results.map(r => r.transcript)).toEqual(['heard 128 bytes']);
+    expect(speechStarts).toEqual([0.5]);
+    
+    // The next write starts a fresh process
+    stream.write(Buffer.alloc(4));
+    await stream.finalize();
+    expect(results.map(r => r.transcript)).toEqual(['heard 128 bytes', 'heard 4 bytes']);
+    
+    await transcriber.cleanup();
+  });
+  
+  it('passes session details to an args function', async () => {
+    const transcriber = new ProcessTranscriptionProvider({
+      command: process.execPath,
+      args: session => ['-e', `console.log(JSON.stringify({ text: process.argv[1] }))`, session.metadata?.language]
+    });
+    const stream = await transcriber.createStream({ sessionId: 's1', metadata: { language: 'es' } });
+    const { results } = collect(stream);
+    
+    await stream.finalize();
+    expect(results.map(r => r.transcript)).toEqual(['es']);
+    await transcriber.cleanup();
+  });
+  
+  it('restarts a crashed program and gives up after maxRestarts', async () => {
+    const transcriber = provider('process.exit(3)', { maxRestarts: 1, restartDelay: 10 });
+    const stream = await transcriber.createStream({ sessionId: 's1' });
+    const { errors } = collect(stream);
+    const closed = new Promise<void>(resolve => stream.on('close', resolve));
+    
+    await closed;
+    expect(errors.map(e => e.message)).toEqual(['Transcription process exited with code 3 after 1 restarts']);
+  });
+  
+  it('reports programs that cannot be started', async () => {
+    const transcriber = new ProcessTranscriptionProvider({ command: '/nonexistent/transcriber' });
+    const stream = await transcriber.createStream({ sessionId: 's1' });
+    const { errors } = collect(stream);
+    
+    await new Promise<void>(resolve => stream.on('close', resolve));
+    expect(errors[0].message).toMatch(/ENOENT/);
+  });
+  
+  it('kills running programs on cleanup', async () => {
+    const transcriber = provider('setInterval(() => {}, 1000)', { killTimeout: 1000 });
+    await transcriber.createStream({ sessionId: 's1' });
+    const pid = transcriber.getStats().processes[0].pid as number;
+    
+    await transcriber.cleanup();
+    
+    expect(transcriber.getStats().activeProcesses).toBe(0);
+    expect(() => process.kill(pid, 0)).toThrow();
+  });
+  
+  it('requires a command', async () => {
+    await expect(new ProcessTranscriptionProvider({ command: '' }).initialize()).rejects.toThrow('requires a command');
+  });
+});
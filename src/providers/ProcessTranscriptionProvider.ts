@@ -0,0 +1,357 @@
+// ABOUTME: Transcription provider backed by a local command-line program
+// ABOUTME: Spawns one process per session, pipes audio to stdin and parses JSON lines from stdout
+
+import { spawn, ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import {
+  AudioFormatSupport,
+  ProviderCapabilities,
+  StreamingTranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+  TranscriptionWord
+} from '../common/types';
+import { BaseTranscriptionStream } from './TranscriptionStream';
+
+export interface ProcessTranscriptionProviderOptions {
+  command: string;
+  args?: string[] | ((session: TranscriptionStreamOptions) => string[]);
+  cwd?: string;
+  env?: Record<string, string>;
+  maxRestarts?: number; // Restarts allowed per session after a crash
+  restartDelay?: number; // ms to wait before restarting a crashed process
+  killTimeout?: number; // ms to wait after SIGTERM before sending SIGKILL
+  finalizeTimeout?: number; // ms to wait for the process to exit after stdin is closed
+  maxPendingBytes?: number; // Audio kept while a crashed process is being restarted
+  parseLine?: (line: string) => ProcessOutput | null;
+  formats?: AudioFormatSupport[]; // Formats the program can read from stdin; omitted accepts any
+}
+
+export type ProcessOutput =
+  | { type: 'result'; result: TranscriptionResult }
+  | { type: 'speech-start'; audioTime?: number }
+  | { type: 'utterance-end'; audioTime?: number }
+  | { type: 'error'; message: string };
+
+// Default output format: one JSON object per line, e.g.
+// {"text": "hello", "is_final": true, "confidence": 0.9, "speaker": 0, "start": 1.2, "end": 1.6,
+//  "words": [{"word": "hello", "start": 1.2, "end": 1.6, "confidence": 0.9}]}
+// {"type": "speech_start", "time": 3.1}
+// {"type": "utterance_end", "time": 4.7}
+// {"type": "error", "message": "model not found"}
+export function parseProcessOutputLine(line: string): ProcessOutput | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  
+  let data: any;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  
+  if (data.type === 'error') {
+    return { type: 'error', message: data.message || data.error || 'Process reported an error' };
+  }
+  
+  if (data.type === 'speech_start' || data.type === 'speech-start') {
+    return { type: 'speech-start', audioTime: data.time };
+  }
+  
+  if (data.type === 'utterance_end' || data.type === 'utterance-end') {
+    return { type: 'utterance-end', audioTime: data.time };
+  }
+  
+  const transcript = data.transcript ?? data.text;
+  if (typeof transcript !== 'string') return null;
+  
+  const isFinal = data.isFinal ?? data.is_final ?? data.final ?? true;
+  
+  return {
+    type: 'result',
+    result: {
+      transcript: transcript.trim(),
+      confidence: data.confidence,
+      timestamp: Date.now(),
+      isFinal: Boolean(isFinal),
+      ...(data.speaker !== undefined && { speaker: data.speaker }),
+      ...(typeof data.start === 'number' && { start: data.start }),
+      ...(typeof data.end === 'number' && { end: data.end }),
+      ...(Array.isArray(data.words) && {
+        words: data.words.map((w: any): TranscriptionWord => ({
+          word: w.word ?? w.text,
+          start: w.start,
+          end: w.end,
+          confidence: w.confidence ?? w.probability,
+          ...(w.punctuated_word && { punctuatedWord: w.punctuated_word }),
+          ...(w.speaker !== undefined && { speaker: w.speaker })
+        }))
+      }),
+      metadata: {
+        isFinal: Boolean(isFinal),
+        ...(data.language && { language: data.language })
+      }
+    }
+  };
+}
+
+class ProcessTranscriptionStream extends BaseTranscriptionStream {
+  private child: ChildProcess | null = null;
+  private exitPromise: Promise<void> | null = null;
+  private restarts = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private pendingAudio: Buffer[] = [];
+  private pendingBytes = 0;
+  private stopping = false;
+  private stderrTail: string[] = [];
+  
+  constructor(
+    private params: TranscriptionStreamOptions,
+    private options: ProcessTranscriptionProviderOptions
+  ) {
+    super(params.sessionId);
+  }
+  
+  get pid(): number | undefined {
+    return this.child?.pid;
+  }
+  
+  get restartCount(): number {
+    return this.restarts;
+  }
+  
+  start(): void {
+    const args = typeof this.options.args === 'function'
+      ? this.options.args(this.params)
+      : this.options.args || [];
+    
+    const child = spawn(this.options.command, args, {
+      cwd: this.options.cwd,
+      env: { ...process.env, ...this.options.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    
+    this.child = child;
+    this.stopping = false;
+    this.exitPromise = new Promise<void>((resolve) => {
+      child.once('exit', (code, signal) => {
+        this.handleExit(child, code, signal);
+        resolve();
+      });
+    });
+    
+    child.once('error', (error) => {
+      // Spawn failures (e.g. missing binary) are not followed by an exit event
+      console.error(`Transcription process error for session ${this.sessionId}:`, error);
+      if (this.child === child) {
+        this.child = null;
+        this.fail(error);
+        this.close().catch(console.error);
+      }
+    });
+    
+    child.stdin?.on('error', (error) => {
+      // EPIPE when the process dies mid-write; handled by the exit handler
+      console.warn(`Transcription process stdin error for session ${this.sessionId}:`, error.message);
+    });
+    
+    const parseLine = this.options.parseLine || parseProcessOutputLine;
+    createInterface({ input: child.stdout! }).on('line', (line) => {
+      const output = parseLine(line);
+      if (!output) return;
+      
+      switch (output.type) {
+        case 'result':
+          if (output.result.transcript) {
+            this.pushResult(output.result);
+          }
+          break;
+        case 'speech-start':
+          this.pushSpeechStart(output.audioTime);
+          break;
+        case 'utterance-end':
+          this.pushUtteranceEnd(output.audioTime);
+          break;
+        case 'error':
+          this.fail(new Error(output.message));
+          break;
+      }
+    });
+    
+    createInterface({ input: child.stderr! }).on('line', (line) => {
+      this.stderrTail.push(line);
+      if (this.stderrTail.length > 20) {
+        this.stderrTail.shift();
+      }
+    });
+    
+    // Replay audio received while the process was restarting
+    const pending = this.pendingAudio.splice(0, this.pendingAudio.length);
+    this.pendingBytes = 0;
+    for (const chunk of pending) {
+      child.stdin?.write(chunk);
+    }
+  }
+  
+  private handleExit(child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    if (this.child !== child) return;
+    this.child = null;
+    
+    if (this.stopping || this.closed) return;
+    
+    const reason = signal ? `signal ${signal}` : `code ${code}`;
+    const stderr = this.stderrTail.join('\n');
+    console.error(`Transcription process for session ${this.sessionId} exited with ${reason}`);
+    
+    const maxRestarts = this.options.maxRestarts ?? 3;
+    if (this.restarts >= maxRestarts) {
+      this.fail(new Error(
+        `Transcription process exited with ${reason} after ${this.restarts} restarts${stderr ? `: ${stderr}` : ''}`
+      ));
+      this.close().catch(console.error);
+      return;
+    }
+    
+    this.restarts++;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (!this.closed) {
+        this.start();
+      }
+    }, this.options.restartDelay ?? 1000);
+  }
+  
+  protected sendAudio(audioData: Buffer): void {
+    if (!this.child || !this.child.stdin?.writable) {
+      // Hold audio until the process is (re)started
+      this.pendingAudio.push(audioData);
+      this.pendingBytes += audioData.length;
+      
+      const maxPending = this.options.maxPendingBytes ?? 5 * 1024 * 1024;
+      while (this.pendingBytes > maxPending && this.pendingAudio.length > 1) {
+        this.pendingBytes -= this.pendingAudio.shift()!.length;
+      }
+      
+      if (!this.child && !this.restartTimer && !this.stopping) {
+        this.start();
+      }
+      return;
+    }
+    
+    this.child.stdin.write(audioData);
+  }
+  
+  protected async flush(): Promise<void> {
+    // Closing stdin tells the program the utterance is over; it prints its last results and exits.
+    // The next write spawns a fresh process.
+    const child = this.child;
+    if (!child) return;
+    
+    this.stopping = true;
+    child.stdin?.end();
+    
+    const exited = await this.waitForExit(this.options.finalizeTimeout ?? 10000);
+    if (!exited) {
+      await this.kill(child);
+    }
+    this.stopping = false;
+  }
+  
+  protected async shutdown(): Promise<void> {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    
+    this.pendingAudio = [];
+    this.pendingBytes = 0;
+    
+    const child = this.child;
+    if (!child) return;
+    
+    this.stopping = true;
+    child.stdin?.end();
+    await this.kill(child);
+  }
+  
+  private async kill(child: ChildProcess): Promise<void> {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    
+    child.kill('SIGTERM');
+    if (await this.waitForExit(this.options.killTimeout ?? 5000)) return;
+    
+    child.kill('SIGKILL');
+    await this.waitForExit(this.options.killTimeout ?? 5000);
+  }
+  
+  private async waitForExit(timeoutMs: number): Promise<boolean> {
+    if (!this.exitPromise) return true;
+    
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    
+    const exited = await Promise.race([this.exitPromise.then(() => true), timedOut]);
+    clearTimeout(timer);
+    return exited;
+  }
+}
+
+export class ProcessTranscriptionProvider extends StreamingTranscriptionProvider {
+  private streams: Map<string, ProcessTranscriptionStream> = new Map();
+  
+  constructor(private options: ProcessTranscriptionProviderOptions) {
+    super();
+  }
+  
+  async initialize(): Promise<void> {
+    if (!this.options.command) {
+      throw new Error('ProcessTranscriptionProvider requires a command');
+    }
+  }
+  
+  async createStream(params: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    const stream = new ProcessTranscriptionStream(params, this.options);
+    this.streams.set(params.sessionId, stream);
+    
+    stream.on('close', () => {
+      if (this.streams.get(params.sessionId) === stream) {
+        this.streams.delete(params.sessionId);
+      }
+    });
+    
+    stream.start();
+    return stream;
+  }
+  
+  async updateConfiguration(config: Partial<ProcessTranscriptionProviderOptions>): Promise<void> {
+    // Applies to processes spawned after the update
+    Object.assign(this.options, config);
+  }
+  
+  getCapabilities(): ProviderCapabilities {
+    return { formats: this.options.formats };
+  }
+  
+  getStats(): any {
+    return {
+      activeProcesses: this.streams.size,
+      processes: Array.from(this.streams.entries()).map(([sessionId, stream]) => ({
+        sessionId,
+        pid: stream.pid,
+        restarts: stream.restartCount
+      }))
+    };
+  }
+  
+  async cleanup(): Promise<void> {
+    await Promise.all(Array.from(this.streams.values()).map(stream =>
+      stream.close().catch(error => {
+        console.error(`Error stopping transcription process for session ${stream.sessionId}:`, error);
+      })
+    ));
+    this.streams.clear();
+  }
+}
@@ -0,0 +1,107 @@
+// ABOUTME: Tests for routing sessions to providers by their connection metadata
+// ABOUTME: Covers the routing rules, lazy provider creation and the capabilities the router announces
+
+import { ProviderRouter } from './ProviderRouter';
+import { MockTranscriptionProvider } from './MockTranscriptionProvider';
+import { AudioFormatSupport } from '../common/types';
+
+const PCM_ONLY: AudioFormatSupport[] = [{ mimeType: 'audio/pcm', encodings: ['linear16'] }];
+const WEBM_ONLY: AudioFormatSupport[] = [{ mimeType: 'audio/webm' }];
+const WEBM = { mimeType: 'audio/webm', encoding: 'opus' };
+
+describe('ProviderRouter', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('routes by the first matching rule and falls back to the default provider', async () => {
+    const router = new ProviderRouter({
+      providers: {
+        english: new MockTranscriptionProvider(),
+        spanish: new MockTranscriptionProvider(),
+        acme: new MockTranscriptionProvider()
+      },
+      defaultProvider: 'english',
+      byLanguage: { es: 'spanish' },
+      byTenant: { 'acme-corp': 'acme' }
+    });
+    
+    expect(await router.route({ sessionId: 's1', metadata: { language: 'es-MX' } })).toBe('spanish');
+    expect(await router.route({ sessionId: 's2', metadata: { language: 'es', tenantId: 'acme-corp' } })).toBe('acme');
+    expect(await router.route({ sessionId: 's3', metadata: { language: 'fr' } })).toBe('english');
+  });
+  
+  it('creates a factory\'s provider the first time a session is routed to it', async () => {
+    const factory = jest.fn(() => new MockTranscriptionProvider());
+    const router = new ProviderRouter({
+      providers: { english: new MockTranscriptionProvider(), german: factory },
+      defaultProvider: 'english',
+      byLanguage: { de: 'german' }
+    });
+    await router.initialize();
+    expect(factory).not.toHaveBeenCalled();
+    
+    const stream = await router.createStream({ sessionId: 's1', metadata: { language: 'de' } });
+    await router.createStream({ sessionId: 's2', metadata: { language: 'de' } });
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(router.getStats().providers).toEqual([
+      { name: 'english', initialized: true, activeStreams: 0 },
+      { name: 'german', initialized: true, activeStreams: 2 }
+    ]);
+    
+    await stream.close();
+    expect(router.getStats().activeStreams).toBe(1);
+    await router.cleanup();
+  });
+  it('announces the formats of every configured provider, including ones no session has used yet', async () => {
+    const router = new ProviderRouter({
+      providers: {
+        pcm: new MockTranscriptionProvider({ formats: PCM_ONLY }),
+        webm: new MockTranscriptionProvider({ formats: WEBM_ONLY })
+      },
+      defaultProvider: 'pcm'
+    });
+    await router.initialize();
+    
+    expect(router.getCapabilities()).toEqual({ formats: [...PCM_ONLY, ...WEBM_ONLY] });
+    await router.cleanup();
+  });
+  
+  it('accepts any format while a factory has not created its provider', async () => {
+    const router = new ProviderRouter({
+      providers: {
+        pcm: new MockTranscriptionProvider({ formats: PCM_ONLY }),
+        webm: () => new MockTranscriptionProvider({ formats: WEBM_ONLY })
+      },
+      defaultProvider: 'pcm',
+      byLanguage: { de: 'webm' }
+    });
+    await router.initialize();
+    expect(router.getCapabilities()).toEqual({});
+    
+    const stream = await router.createStream({ sessionId: 's1', metadata: { language: 'de', audioFormat: WEBM } });
+    expect(router.getCapabilities()).toEqual({ formats: [...PCM_ONLY, ...WEBM_ONLY] });
+    
+    await stream.close();
+    await router.cleanup();
+  });
+  
+  it('refuses a session whose provider cannot take its format', async () => {
+    const router = new ProviderRouter({
+      providers: {
+        pcm: new MockTranscriptionProvider({ formats: PCM_ONLY }),
+        webm: new MockTranscriptionProvider({ formats: WEBM_ONLY })
+      },
+      defaultProvider: 'pcm'
+    });
+    await router.initialize();
+    
+    await expect(router.createStream({ sessionId: 's1', metadata: { audioFormat: WEBM } }))
+      .rejects.toThrow('Provider "pcm" cannot transcribe this audio');
+    await router.cleanup();
+  });
+});
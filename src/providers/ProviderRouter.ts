@@ -0,0 +1,191 @@
+// ABOUTME: Routes each session to a transcription provider based on its connection metadata
+// ABOUTME: Providers are created and initialized lazily on first use and all cleaned up on shutdown
+
+import {
+  AudioFormatSupport,
+  ProviderCapabilities,
+  TranscriptionProvider,
+  StreamingTranscriptionProvider,
+  TranscriptionStream,
+  TranscriptionStreamOptions
+} from '../common/types';
+import { RequestResponseAdapter } from './RequestResponseAdapter';
+import { negotiateAudioFormat } from '../common/audioFormat';
+
+type AnyProvider = TranscriptionProvider | StreamingTranscriptionProvider;
+
+// A provider instance, or a factory called the first time a session is routed to it
+export type ProviderSource = AnyProvider | (() => AnyProvider | Promise<AnyProvider>);
+
+export interface ProviderRouteContext extends TranscriptionStreamOptions {
+  language?: string;
+  tenantId?: string;
+}
+
+export interface ProviderRouterOptions {
+  providers: Record<string, ProviderSource>;
+  defaultProvider: string;
+  select?: (context: ProviderRouteContext) => string | undefined | Promise<string | undefined>;
+  byUser?: Record<string, string>;
+  byTenant?: Record<string, string>;
+  byLanguage?: Record<string, string>; // Exact tags ('es-MX') or primary subtags ('es')
+  languageKey?: string; // Metadata key holding the session language
+  tenantKey?: string; // Metadata key holding the tenant id
+}
+
+export class ProviderRouter extends StreamingTranscriptionProvider {
+  private instances: Map<string, Promise<StreamingTranscriptionProvider>> = new Map();
+  private sessionRoutes: Map<string, string> = new Map();
+  private resolved: Map<string, StreamingTranscriptionProvider> = new Map();
+  
+  constructor(private options: ProviderRouterOptions) {
+    super();
+    
+    if (!options.providers[options.defaultProvider]) {
+      throw new Error(`Default provider "${options.defaultProvider}" is not configured`);
+    }
+  }
+  
+  async initialize(): Promise<void> {
+    // Only the default provider is initialized eagerly; the rest start on first use
+    await this.getProvider(this.options.defaultProvider);
+  }
+  
+  async createStream(params: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    const name = await this.route(params);
+    const provider = await this.getProvider(name);
+    
+    const format = params.metadata?.audioFormat;
+    if (format) {
+      const negotiation = negotiateAudioFormat(format, provider.getCapabilities?.());
+      if (!negotiation.accepted) {
+        throw new Error(`Provider "${name}" cannot transcribe this audio: ${negotiation.reason}`);
+      }
+    }
+    
+    const stream = await provider.createStream(params);
+    
+    this.sessionRoutes.set(params.sessionId, name);
+    stream.on('close', () => {
+      if (this.sessionRoutes.get(params.sessionId) === name) {
+        this.sessionRoutes.delete(params.sessionId);
+      }
+    });
+    
+    return stream;
+  }
+  
+  async route(params: TranscriptionStreamOptions): Promise<string> {
+    const metadata = params.metadata || {};
+    const context: ProviderRouteContext = {
+      ...params,
+      language: metadata[this.options.languageKey || 'language'],
+      tenantId: metadata[this.options.tenantKey || 'tenantId']
+    };
+    
+    const candidates = [
+      await this.options.select?.(context),
+      context.userId ? this.options.byUser?.[context.userId] : undefined,
+      context.tenantId ? this.options.byTenant?.[context.tenantId] : undefined,
+      this.routeByLanguage(context.language)
+    ];
+    
+    for (const name of candidates) {
+      if (!name) continue;
+      if (this.options.providers[name]) return name;
+      console.warn(`Session ${params.sessionId} routed to unknown provider "${name}", trying next rule`);
+    }
+    
+    return this.options.defaultProvider;
+  }
+  
+  private routeByLanguage(language?: string): string | undefined {
+    if (!language || !this.options.byLanguage) return undefined;
+    
+    const routes = this.options.byLanguage;
+    return routes[language] ?? routes[language.split('-')[0]];
+  }
+  
+  private getProvider(name: string): Promise<StreamingTranscriptionProvider> {
+    const existing = this.instances.get(name);
+    if (existing) return existing;
+    
+    const source = this.options.providers[name];
+    if (!source) {
+      return Promise.reject(new Error(`Transcription provider "${name}" is not configured`));
+    }
+    
+    const instance = (async () => {
+      const provider = typeof source === 'function'
+        ? await (source as () => AnyProvider | Promise<AnyProvider>)()
+        : source;
+      const streaming = RequestResponseAdapter.wrap(provider);
+      await streaming.initialize();
+      this.resolved.set(name, streaming);
+      console.log(`Transcription provider "${name}" initialized`);
+      return streaming;
+    })();
+    
+    // Allow a later session to retry a provider that failed to start
+    instance.catch((error) => {
+      console.error(`Failed to initialize transcription provider "${name}":`, error);
+      if (this.instances.get(name) === instance) {
+        this.instances.delete(name);
+      }
+    });
+    
+    this.instances.set(name, instance);
+    return instance;
+  }
+  
+  async updateConfiguration(config: Partial<ProviderRouterOptions>): Promise<void> {
+    // Routing rules apply to sessions opened after the update
+    Object.assign(this.options, config);
+  }
+  
+  // Union over every configured provider, whether or not a session has used it yet. A provider given as a
+  // factory is unknown until it is created, so until then any format may be routed to it.
+  // A session routed to a provider that rejects its format fails on createStream.
+  getCapabilities(): ProviderCapabilities {
+    const formats: AudioFormatSupport[] = [];
+    for (const [name, source] of Object.entries(this.options.providers)) {
+      const provider = this.resolved.get(name) ?? (typeof source === 'function' ? undefined : source);
+      const supported = provider?.getCapabilities?.().formats;
+      if (!supported || supported.length === 0) return {};
+      formats.push(...supported);
+    }
+    return { formats };
+  }
+  
+  getStats(): any {
+    const sessions: Record<string, number> = {};
+    for (const name of this.sessionRoutes.values()) {
+      sessions[name] = (sessions[name] || 0) + 1;
+    }
+    
+    return {
+      activeStreams: this.sessionRoutes.size,
+      providers: Object.keys(this.options.providers).map(name => ({
+        name,
+        initialized: this.instances.has(name),
+        activeStreams: sessions[name] || 0
+      }))
+    };
+  }
+  
+  async cleanup(): Promise<void> {
+    const instances = Array.from(this.instances.entries());
+    this.instances.clear();
+    this.resolved.clear();
+    this.sessionRoutes.clear();
+    
+    await Promise.all(instances.map(async ([name, instance]) => {
+      try {
+        const provider = await instance;
+        await provider.cleanup();
+      } catch (error) {
+        console.error(`Error cleaning up transcription provider "${name}":`, error);
+      }
+    }));
+  }
+}
@@ -0,0 +1,128 @@
+// ABOUTME: Tests for running request/response providers through the streaming contract
+// ABOUTME: Also covers result fan-out to listeners and async iterators in BaseTranscriptionStream
+
+import { RequestResponseAdapter } from './RequestResponseAdapter';
+import { MockTranscriptionProvider } from './MockTranscriptionProvider';
+import { TranscriptionProvider, TranscriptionResult, TranscriptionStreamEvent } from '../common/types';
+
+class EchoProvider extends TranscriptionProvider {
+  calls: { bytes: number; metadata: any }[] = [];
+  private releases: (() => void)[] = [];
+  
+  constructor(private blocking = false) {
+    super();
+  }
+  
+  async initialize(): Promise<void> {}
+  
+  async processAudio(audioData: Buffer, metadata?: any): Promise<TranscriptionResult> {
+    this.calls.push({ bytes: audioData.length, metadata });
+    if (this.blocking) {
+      await new Promise<void>(resolve => this.releases.push(resolve));
+    }
+    return { transcript: `${audioData.length} bytes`, confidence: 1, timestamp: Date.now() };
+  }
+  
+  release(): void {
+    for (const release of this.releases.splice(0)) release();
+  }
+  
+  async cleanup(): Promise<void> {}
+}
+
+describe('RequestResponseAdapter', () => {
+  it('wraps request/response providers and leaves streaming ones alone', () => {
+    const streaming = new MockTranscriptionProvider();
+    expect(RequestResponseAdapter.wrap(streaming)).toBe(streaming);
+    expect(RequestResponseAdapter.wrap(new EchoProvider())).toBeInstanceOf(RequestResponseAdapter);
+  });
+  
+  it('turns each call into a final result with the session metadata', async () => {
+    const provider = new EchoProvider();
+    const adapter = new RequestResponseAdapter(provider);
+    const stream = await adapter.createStream({ sessionId: 's1', userId: 'u1', metadata: { language: 'en' } });
+    const results: TranscriptionResult[] = [];
+    stream.on('result', result => results.push(result));
+    
+    stream.write(Buffer.alloc(10));
+    await stream.finalize();
+    
+    expect(results).toEqual([expect.objectContaining({ transcript: '10 bytes', isFinal: true })]);
+    expect(provider.calls[0].metadata).toEqual({ language: 'en', sessionId: 's1', userId: 'u1' });
+  });
+  
+  it('coalesces audio that arrives while a call is in flight', async () => {
+    const provider = new EchoProvider(true);
+    const stream = await new RequestResponseAdapter(provider).createStream({ sessionId: 's1' });
+    
+    stream.write(Buffer.alloc(4));
+    stream.write(Buffer.alloc(3));
+    stream.write(Buffer.alloc(2));
+    expect(stream.bufferedBytes).toBe(9);
+    
+    const finalized = stream.finalize();
+    provider.release();
+    await new Promise(resolve => setImmediate(resolve));
+    provider.release();
+    await finalized;
+    
+    expect(provider.calls.map(call => call.bytes)).toEqual([4, 5]);
+    expect(stream.bufferedBytes).toBe(0);
+  });
+  
+  it('reports provider failures as stream errors', async () => {
+    const provider = new EchoProvider();
+    provider.processAudio = async () => {
+      throw new Error('provider down');
+    };
+    const stream = await new RequestResponseAdapter(provider).createStream({ sessionId: 's1' });
+    const errors: Error[] = [];
+    stream.on('error', error => errors.push(error));
+    
+    stream.write(Buffer.alloc(1));
+    await stream.finalize();
+    
+    expect(errors.map(error => error.message)).toEqual(['provider down']);
+  });
+  
+  it('refuses audio after the stream is closed', async () => {
+    const adapter = new RequestResponseAdapter(new EchoProvider());
+    const stream = await adapter.createStream({ sessionId: 's1' });
+    await stream.close();
+    
+    expect(() => stream.write(Buffer.alloc(1))).toThrow('closed');
+    expect(adapter.getStats().activeStreams).toBe(0);
+  });
+});
+
+describe('BaseTranscriptionStream async iteration', () => {
+  it('yields results and turn-taking events until the stream closes', async () => {
+    const provider = new MockTranscriptionProvider({
+      script: [{ transcript: 'hi', speechStart: true, utteranceEnd: true }]
+    });
+    const stream = await provider.createStream({ sessionId: 's1' });
+    const events: TranscriptionStreamEvent[] = [];
+    
+    const consumed = (async () => {
+      for await (const event of stream) events.push(event);
+    })();
+    stream.write(Buffer.alloc(1));
+    await stream.finalize();
+    await stream.close();
+    await consumed;
+    
+    expect(events.map(event => event.type)).toEqual(['speech-start', 'result', 'utterance-end']);
+  });
+  
+  it('rejects pending reads when the stream fails', async () => {
+    const provider = new MockTranscriptionProvider({ script: [{ error: 'boom' }] });
+    const stream = await provider.createStream({ sessionId: 's1' });
+    stream.on('error', () => {});
+    
+    const next = stream[Symbol.asyncIterator]().next();
+    stream.write(Buffer.alloc(1));
+    
+    await expect(next).rejects.toThrow('boom');
+    await stream.close();
+  });
+});
@@ -0,0 +1,131 @@
+// ABOUTME: Adapter exposing request/response transcription providers through the streaming contract
+// ABOUTME: Serializes processAudio calls per session and coalesces audio that arrives while one is in flight
+
+import {
+  TranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+  StreamingTranscriptionProvider,
+  ProviderCapabilities
+} from '../common/types';
+import { BaseTranscriptionStream } from './TranscriptionStream';
+
+class RequestResponseStream extends BaseTranscriptionStream {
+  private pending: Buffer[] = [];
+  private inFlight: Promise<void> | null = null;
+  private pendingBytes = 0;
+  private inFlightBytes = 0;
+  
+  constructor(
+    private provider: TranscriptionProvider,
+    private options: TranscriptionStreamOptions
+  ) {
+    super(options.sessionId);
+  }
+  
+  // Audio queued behind the current call plus the audio in it
+  get bufferedBytes(): number {
+    return this.pendingBytes + this.inFlightBytes;
+  }
+  
+  protected sendAudio(audioData: Buffer): void {
+    this.pending.push(audioData);
+    this.pendingBytes += audioData.length;
+    if (!this.inFlight) {
+      this.inFlight = this.drain().finally(() => {
+        this.inFlight = null;
+      });
+    }
+  }
+  
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0 && !this.closed) {
+      const combinedAudio = Buffer.concat(this.pending.splice(0, this.pending.length));
+      this.pendingBytes = 0;
+      this.inFlightBytes = combinedAudio.length;
+      
+      try {
+        const result = await this.provider.processAudio(combinedAudio, {
+          ...this.options.metadata,
+          sessionId: this.sessionId,
+          userId: this.options.userId
+        });
+        this.emitResult(result);
+      } catch (error) {
+        this.fail(error as Error);
+      } finally {
+        this.inFlightBytes = 0;
+      }
+    }
+  }
+  
+  private emitResult(result: TranscriptionResult): void {
+    if (!result || !result.transcript) return;
+    
+    this.pushResult({
+      ...result,
+      isFinal: result.isFinal ?? result.metadata?.isFinal ?? true
+    });
+  }
+  
+  protected async flush(): Promise<void> {
+    // Wait until every queued chunk has been transcribed
+    while (this.inFlight) {
+      await this.inFlight;
+    }
+  }
+  
+  protected async shutdown(): Promise<void> {
+    this.pending = [];
+    this.pendingBytes = 0;
+  }
+}
+
+export class RequestResponseAdapter extends StreamingTranscriptionProvider {
+  private streams: Set<RequestResponseStream> = new Set();
+  
+  constructor(private provider: TranscriptionProvider) {
+    super();
+  }
+  
+  static wrap(provider: TranscriptionProvider | StreamingTranscriptionProvider): StreamingTranscriptionProvider {
+    return provider instanceof StreamingTranscriptionProvider || 'createStream' in provider
+      ? provider as StreamingTranscriptionProvider
+      : new RequestResponseAdapter(provider);
+  }
+  
+  async initialize(): Promise<void> {
+    await this.provider.initialize();
+  }
+  
+  async createStream(options: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+    const stream = new RequestResponseStream(this.provider, options);
+    this.streams.add(stream);
+    stream.on('close', () => {
+      this.streams.delete(stream);
+    });
+    return stream;
+  }
+  
+  async updateConfiguration(config: any): Promise<void> {
+    await this.provider.updateConfiguration?.(config);
+  }
+  
+  getStats(): any {
+    return {
+      activeStreams: this.streams.size,
+      provider: this.provider.getStats?.()
+    };
+  }
+  
+  getCapabilities(): ProviderCapabilities {
+    return this.provider.getCapabilities?.() ?? {};
+  }
+  
+  async cleanup(): Promise<void> {
+    await Promise.all(Array.from(this.streams).map(stream => stream.close()));
+    this.streams.clear();
+    await this.provider.cleanup();
+  }
+}
@@ -0,0 +1,160 @@
+// ABOUTME: Base class for push-based transcription streams
+// ABOUTME: Handles result fan-out to listeners and async iterators so providers only implement transport
+
+import { EventEmitter } from 'eventemitter3';
+import {
+  SpeechEvent,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamEvent,
+  TranscriptionStreamEvents
+} from '../common/types';
+
+export abstract class BaseTranscriptionStream
+  extends EventEmitter<TranscriptionStreamEvents>
+  implements TranscriptionStream {
+  protected closed = false;
+  
+  constructor(readonly sessionId: string) {
+    super();
+  }
+  
+  // Provider-specific transport
+  protected abstract sendAudio(audioData: Buffer): void;
+  protected abstract flush(): Promise<void>;
+  protected abstract shutdown(): Promise<void>;
+  
+  write(audioData: Buffer | ArrayBuffer): void {
+    if (this.closed) {
+      throw new Error(`Transcription stream for session ${this.sessionId} is closed`);
+    }
+    
+    const buffer = Buffer.isBuffer(audioData) ? audioData : Buffer.from(audioData);
+    if (buffer.length === 0) return;
+    
+    try {
+      this.sendAudio(buffer);
+    } catch (error) {
+      this.fail(error as Error);
+    }
+  }
+  
+  async finalize(): Promise<void> {
+    if (this.closed) return;
+    await this.flush();
+  }
+  
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    
+    try {
+      await this.shutdown();
+    } finally {
+      this.emit('close');
+      this.removeAllListeners();
+    }
+  }
+  
+  isClosed(): boolean {
+    return this.closed;
+  }
+  
+  protected pushResult(result: TranscriptionResult): void {
+    if (this.closed) return;
+    this.emit('result', result);
+  }
+  
+  protected pushSpeechStart(audioTime?: number, timestamp: number = Date.now()): void {
+    if (this.closed) return;
+    this.emit('speech-start', { timestamp, ...(audioTime !== undefined && { audioTime }) });
+  }
+  
+  protected pushUtteranceEnd(audioTime?: number, timestamp: number = Date.now()): void {
+    if (this.closed) return;
+    this.emit('utterance-end', { timestamp, ...(audioTime !== undefined && { audioTime }) });
+  }
+  
+  protected fail(error: Error): void {
+    if (this.closed) return;
+    this.emit('error', error);
+  }
+  
+  [Symbol.asyncIterator](): AsyncIterator<TranscriptionStreamEvent> {
+    const queue: TranscriptionStreamEvent[] = [];
+    const waiting: Array<{
+      resolve: (result: IteratorResult<TranscriptionStreamEvent>) => void;
+      reject: (error: Error) => void;
+    }> = [];
+    let done = this.closed;
+    let failure: Error | null = null;
+    
+    const push = (event: TranscriptionStreamEvent) => {
+      const waiter = waiting.shift();
+      if (waiter) {
+        waiter.resolve({ value: event, done: false });
+      } else {
+        queue.push(event);
+      }
+    };
+    
+    const onResult = (result: TranscriptionResult) => push({ type: 'result', result });
+    const onSpeechStart = (event: SpeechEvent) => push({ type: 'speech-start', ...event });
+    const onUtteranceEnd = (event: SpeechEvent) => push({ type: 'utterance-end', ...event });
+    
+    const detach = () => {
+      this.off('result', onResult);
+      this.off('speech-start', onSpeechStart);
+      this.off('utterance-end', onUtteranceEnd);
+      this.off('error', onError);
+      this.off('close', onClose);
+    };
+    
+    const onError = (error: Error) => {
+      failure = error;
+      detach();
+      for (const waiter of waiting.splice(0)) {
+        waiter.reject(error);
+      }
+    };
+    
+    const onClose = () => {
+      done = true;
+      detach();
+      for (const waiter of waiting.splice(0)) {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    };
+    
+    if (!done) {
+      this.on('result', onResult);
+      this.on('speech-start', onSpeechStart);
+      this.on('utterance-end', onUtteranceEnd);
+      this.on('error', onError);
+      this.on('close', onClose);
+    }
+    
+    return {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        if (failure) {
+          return Promise.reject(failure);
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          waiting.push({ resolve, reject });
+        });
+      },
+      return: () => {
+        done = true;
+        detach();
+        queue.length = 0;
+        return Promise.resolve({ value: undefined, done: true });
+      }
+    };
+  }
+}
@@ -2,4 +2,14 @@
 // ABOUTME: Provides React hooks for easy integration
 
 export { useAudioStream } from './useAudioStream';
-export type { UseAudioStreamOptions, UseAudioStreamResult } from './useAudioStream';
\ No newline at end of file
+export type { UseAudioStreamOptions, UseAudioStreamResult } from './useAudioStream';
+export { splitBySpeaker, findWordAt } from '../common/transcript';
+export {
+  exportTranscript,
+  toSrt,
+  toWebVtt,
+  toTranscriptJson,
+  toPlainText,
+  buildCaptionCues
+} from '../common/transcriptExport';
+export type { TranscriptExportFormat, TranscriptExportOptions, CaptionCue } from '../common/transcriptExport';
@@ -7,13 +7,22 @@ import {
   ConnectionState, 
   RecordingState, 
   TranscriptionResult,
+  SpeechEvent,
+  AudioLevel,
+  AudioInputDevice,
+  RecordingSource,
+  SilenceWarning,
   ClientOptions 
 } from '../common/types';
+import { exportTranscript, TranscriptExportFormat, TranscriptExportOptions } from '../common/transcriptExport';
 
 export interface UseAudioStreamOptions extends Partial<ClientOptions> {
   websocketUrl: string;
   autoConnect?: boolean;
   onTranscription?: (result: TranscriptionResult) => void;
+  onSpeechStart?: (event: SpeechEvent) => void;
+  onUtteranceEnd?: (event: SpeechEvent) => void;
+  onSilenceWarning?: (warning: SilenceWarning) => void;
   onError?: (error: Error) => void;
   onConnectionStateChange?: (state: ConnectionState) => void;
   onRecordingStateChange?: (state: RecordingState) => void;
@@ -34,16 +43,36 @@ export interface UseAudioStreamResult {
   
   // Transcription
   transcript: string;
+  interimTranscript: string;
+  results: TranscriptionResult[]; // Final results with word timings, in arrival order
   lastTranscription: TranscriptionResult | null;
+  isUserSpeaking: boolean; // Between the provider's speech-start and utterance-end
+  
+  // Input level while recording, null otherwise
+  audioLevel: AudioLevel | null;
+  
+  // Microphones
+  devices: AudioInputDevice[];
+  inputDevice: AudioInputDevice | null; // Device being recorded from
+  selectDevice: (deviceId?: string) => Promise<void>;
+  refreshDevices: () => Promise<void>;
   
   // Actions
   connect: () => Promise<void>;
   disconnect: () => void;
-  startRecording: () => Promise<void>;
+  startRecording: (source?: RecordingSource | RecordingSource[]) => Promise<void>; // Microphone by default
   stopRecording: () => Promise<Blob | null>;
   pauseRecording: () => void;
   resumeRecording: () => void;
   clearTranscript: () => void;
+  exportTranscript: (format: TranscriptExportFormat, options?: TranscriptExportOptions) => string; // From `results`
+}
+
+function isRecordingSource(value: unknown): value is RecordingSource | RecordingSource[] {
+  if (Array.isArray(value)) return value.every(isRecordingSource);
+  return value === 'microphone' ||
+    (typeof MediaStream !== 'undefined' && value instanceof MediaStream) ||
+    (typeof HTMLMediaElement !== 'undefined' && value instanceof HTMLMediaElement);
 }
 
 export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamResult {
@@ -53,7 +82,13 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
   const [connectionError, setConnectionError] = useState<Error | null>(null);
   const [recordingError, setRecordingError] = useState<Error | null>(null);
   const [transcript, setTranscript] = useState<string>('');
+  const [interimTranscript, setInterimTranscript] = useState<string>('');
+  const [results, setResults] = useState<TranscriptionResult[]>([]);
   const [lastTranscription, setLastTranscription] = useState<TranscriptionResult | null>(null);
+  const [isUserSpeaking, setIsUserSpeaking] = useState<boolean>(false);
+  const [audioLevel, setAudioLevel] = useState<AudioLevel | null>(null);
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [inputDevice, setInputDevice] = useState<AudioInputDevice | null>(null);
   
   // Initialize client
   useEffect(() => {
@@ -66,7 +101,15 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
       maxReconnectAttempts: options.maxReconnectAttempts ?? 5,
       pingInterval: options.pingInterval,
       pongTimeout: options.pongTimeout,
-      audioFormat: options.audioFormat
+      audioFormat: options.audioFormat,
+      captureMode: options.captureMode,
+      pcmSampleRate: options.pcmSampleRate,
+      frameDurationMs: options.frameDurationMs,
+      levelMetering: options.levelMetering,
+      offlineBuffer: options.offlineBuffer,
+      flowControl: options.flowControl,
+      deviceId: options.deviceId,
+      audioConstraints: options.audioConstraints
     });
     
     // Setup event listeners
@@ -82,6 +125,16 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
     
     client.on('transcription', (result) => {
       setLastTranscription(result);
+      
+      // Interim results are replaced by the next result rather than appended
+      if (result.isFinal === false) {
+        setInterimTranscript(result.transcript);
+        options.onTranscription?.(result);
+        return;
+      }
+      
+      setInterimTranscript('');
+      setResults((prev: TranscriptionResult[]) => [...prev, result]);
       setTranscript((prev: string) => {
         if (result.transcript) {
           return prev ? `${prev} ${result.transcript}` : result.transcript;
@@ -93,6 +146,34 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
       options.onTranscription?.(result);
     });
     
+    client.on('speech-start', (event) => {
+      setIsUserSpeaking(true);
+      options.onSpeechStart?.(event);
+    });
+    
+    client.on('utterance-end', (event) => {
+      setIsUserSpeaking(false);
+      options.onUtteranceEnd?.(event);
+    });
+    
+    client.on('audio-level', (level) => {
+      setAudioLevel(level);
+    });
+    
+    client.on('silence-warning', (warning) => {
+      options.onSilenceWarning?.(warning);
+    });
+    
+    client.on('devices-changed', (list) => {
+      setDevices(list);
+    });
+    
+    client.on('input-device', (device) => {
+      setInputDevice(device);
+      // Labels become available once microphone access is granted
+      client.listAudioInputs().then(setDevices).catch(() => undefined);
+    });
+    
     client.on('error', (error) => {
       console.error('Audio stream error:', error);
       setConnectionError(error);
@@ -107,10 +188,18 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
     client.on('recording-state', (state) => {
       setRecordingState(state);
       setRecordingError(null);
+      if (state !== RecordingState.RECORDING) {
+        setIsUserSpeaking(false);
+      }
+      if (state === RecordingState.IDLE || state === RecordingState.STOPPING) {
+        setAudioLevel(null);
+        setInputDevice(null);
+      }
       options.onRecordingStateChange?.(state);
     });
     
     clientRef.current = client;
+    client.listAudioInputs().then(setDevices).catch(() => undefined);
     
     // Auto-connect if enabled
     if (options.autoConnect !== false) {
@@ -143,12 +232,13 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
     clientRef.current?.disconnect();
   }, []);
   
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (source?: RecordingSource | RecordingSource[]) => {
     if (!clientRef.current) return;
     
     try {
       setRecordingError(null);
-      await clientRef.current.startRecording();
+      // Used directly as onClick, the first argument is the click event
+      await clientRef.current.startRecording(isRecordingSource(source) ? source : undefined);
     } catch (error) {
       const err = error as Error;
       setRecordingError(err);
@@ -194,9 +284,27 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
   
   const clearTranscript = useCallback(() => {
     setTranscript('');
+    setInterimTranscript('');
+    setResults([]);
     setLastTranscription(null);
   }, []);
   
+  const refreshDevices = useCallback(async () => {
+    if (!clientRef.current) return;
+    setDevices(await clientRef.current.listAudioInputs());
+  }, []);
+  
+  const selectDevice = useCallback(async (deviceId?: string) => {
+    if (!clientRef.current) return;
+    await clientRef.current.selectDevice(deviceId);
+  }, []);
+  
+  const exportResults = useCallback(
+    (format: TranscriptExportFormat, exportOptions?: TranscriptExportOptions) =>
+      exportTranscript(results, format, exportOptions),
+    [results]
+  );
+  
   return {
     // Connection state
     isConnected: connectionState === ConnectionState.CONNECTED,
@@ -212,7 +320,17 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
     
     // Transcription
     transcript,
+    interimTranscript,
+    results,
     lastTranscription,
+    isUserSpeaking,
+    audioLevel,
+    
+    // Microphones
+    devices,
+    inputDevice,
+    selectDevice,
+    refreshDevices,
     
     // Actions
     connect,
@@ -221,6 +339,7 @@ export function useAudioStream(options: UseAudioStreamOptions): UseAudioStreamRe
     stopRecording,
     pauseRecording,
     resumeRecording,
-    clearTranscript
+    clearTranscript,
+    exportTranscript: exportResults
   };
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+// ABOUTME: Tests for restoring chunk order and dropping duplicates of replayed audio
+// ABOUTME: Also covers the sequence-number framing shared with the client
+
+import { AudioSequencer } from './AudioSequencer';
+import { decodeSequencedChunk, encodeSequencedChunk, SEQUENCE_HEADER_SIZE } from '../common/sequence';
+
+const chunk = (value: number) => Buffer.from([value]);
+const sequences = (released: { sequence: number }[]) => released.map(entry => entry.sequence);
+
+describe('AudioSequencer', () => {
+  it('releases chunks in order and holds early ones', () => {
+    const sequencer = new AudioSequencer(0);
+    
+    expect(sequences(sequencer.push(0, chunk(0)))).toEqual([0]);
+    expect(sequencer.push(2, chunk(2))).toEqual([]);
+    expect(sequences(sequencer.push(1, chunk(1)))).toEqual([1, 2]);
+    expect(sequencer.next).toBe(3);
+    expect(sequencer.getStats()).toEqual({ duplicates: 0, reordered: 1, missing: 0 });
+  });
+  
+  it('drops duplicates', () => {
+    const sequencer = new AudioSequencer(5);
+    sequencer.push(5, chunk(5));
+    sequencer.push(7, chunk(7));
+    
+    expect(sequencer.push(5, chunk(5))).toEqual([]);
+    expect(sequencer.push(7, chunk(7))).toEqual([]);
+    expect(sequencer.getStats().duplicates).toBe(2);
+  });
+  
+  it('gives up on a missing chunk once too many are held', () => {
+    const sequencer = new AudioSequencer(0, { maxPending: 2 });
+    sequencer.push(1, chunk(1));
+    sequencer.push(2, chunk(2));
+    
+    expect(sequences(sequencer.push(3, chunk(3)))).toEqual([1, 2, 3]);
+    expect(sequencer.getStats().missing).toBe(1);
+  });
+  
+  it('skips ahead when the client no longer has older chunks', () => {
+    const sequencer = new AudioSequencer(0);
+    sequencer.push(2, chunk(2));
+    sequencer.push(6, chunk(6));
+    
+    expect(sequences(sequencer.skipTo(5))).toEqual([2]);
+    expect(sequencer.next).toBe(5);
+    expect(sequences(sequencer.push(5, chunk(5)))).toEqual([5, 6]);
+    expect(sequencer.getStats().missing).toBe(4);
+  });
+  
+  it('flushes held chunks when the recording stops', () => {
+    const sequencer = new AudioSequencer(0);
+    sequencer.push(3, chunk(3));
+    sequencer.push(1, chunk(1));
+    
+    expect(sequences(sequencer.flush())).toEqual([1, 3]);
+    expect(sequencer.next).toBe(4);
+  });
+});
+
+describe('sequenced chunk framing', () => {
+  it('round-trips the sequence number and data', () => {
+    const frame = encodeSequencedChunk(0x01020304, new Uint8Array([9, 8, 7]));
+    
+    expect(frame.byteLength).toBe(SEQUENCE_HEADER_SIZE + 3);
+    expect(Array.from(frame.subarray(0, 4))).toEqual([1, 2, 3, 4]);
+    
+    const decoded = decodeSequencedChunk(frame);
+    expect(decoded.sequence).toBe(0x01020304);
+    expect(Array.from(decoded.data)).toEqual([9, 8, 7]);
+  });
+  
+  it('rejects frames shorter than the header', () => {
+    expect(() => decodeSequencedChunk(new Uint8Array(2))).toThrow('shorter than its header');
+  });
+});
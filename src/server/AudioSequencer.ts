@@ -0,0 +1,98 @@
+// ABOUTME: Restores the order of sequence-numbered audio chunks and drops duplicates
+// ABOUTME: Clients replay buffered audio after a reconnect, so the same chunk can arrive twice or out of order
+
+import { AudioSequencerStats } from '../common/types';
+
+export interface AudioSequencerOptions {
+  maxPending?: number; // Out-of-order chunks held while waiting for a missing one (default 32)
+}
+
+export interface SequencedChunk {
+  sequence: number;
+  data: Buffer;
+}
+
+export class AudioSequencer {
+  private pending: Map<number, Buffer> = new Map();
+  private stats: AudioSequencerStats = { duplicates: 0, reordered: 0, missing: 0 };
+  
+  constructor(private nextSequence: number, private options: AudioSequencerOptions = {}) {}
+  
+  // Sequence number of the next chunk that would be released
+  get next(): number {
+    return this.nextSequence;
+  }
+  
+  // Returns the chunks that can now be processed, in order
+  push(sequence: number, data: Buffer): SequencedChunk[] {
+    if (sequence < this.nextSequence || this.pending.has(sequence)) {
+      this.stats.duplicates++;
+      return [];
+    }
+    
+    if (sequence > this.nextSequence) {
+      this.stats.reordered++;
+      this.pending.set(sequence, data);
+      
+      // A chunk that is this far behind is not coming; continue from the oldest one held
+      if (this.pending.size > (this.options.maxPending ?? 32)) {
+        const oldest = Math.min(...Array.from(this.pending.keys()));
+        this.stats.missing += oldest - this.nextSequence;
+        this.nextSequence = oldest;
+      }
+      return this.release();
+    }
+    
+    this.pending.set(sequence, data);
+    return this.release();
+  }
+  
+  // Gives up on chunks before `sequence`, e.g. when a reconnected client no longer has them
+  skipTo(sequence: number): SequencedChunk[] {
+    if (sequence <= this.nextSequence) return [];
+    
+    const released: SequencedChunk[] = [];
+    const held = Array.from(this.pending.keys()).filter(held => held < sequence).sort((a, b) => a - b);
+    for (const heldSequence of held) {
+      this.stats.missing += heldSequence - this.nextSequence;
+      released.push({ sequence: heldSequence, data: this.pending.get(heldSequence) as Buffer });
+      this.pending.delete(heldSequence);
+      this.nextSequence = heldSequence + 1;
+    }
+    
+    this.stats.missing += sequence - this.nextSequence;
+    this.nextSequence = sequence;
+    return [...released, ...this.release()];
+  }
+  
+  // Releases everything still held, skipping over missing chunks; used when the recording stops
+  flush(): SequencedChunk[] {
+    const released: SequencedChunk[] = [];
+    const sequences = Array.from(this.pending.keys()).sort((a, b) => a - b);
+    
+    for (const sequence of sequences) {
+      this.stats.missing += sequence - this.nextSequence;
+      released.push({ sequence, data: this.pending.get(sequence) as Buffer });
+      this.nextSequence = sequence + 1;
+    }
+    
+    this.pending.clear();
+    return released;
+  }
+  
+  getStats(): AudioSequencerStats {
+    return { ...this.stats };
+  }
+  
+  private release(): SequencedChunk[] {
+    const released: SequencedChunk[] = [];
+    
+    while (this.pending.has(this.nextSequence)) {
+      released.push({ sequence: this.nextSequence, data: this.pending.get(this.nextSequence) as Buffer });
+      this.pending.delete(this.nextSequence);
+      this.nextSequence++;
+    }
+    
+    return released;
+  }
+}
@@ -0,0 +1,384 @@
+// ABOUTME: End-to-end tests for AudioStreamServer over real WebSocket connections on a local port
+// ABOUTME: The mock provider stands in for a transcription service so every exchange runs offline
+
+import WebSocket from 'ws';
+import { AudioStreamServer } from './AudioStreamServer';
+import { MockTranscriptionProvider } from '../providers/MockTranscriptionProvider';
+import { MemoryObjectStore, ObjectStoreRecordingStorage } from './recording';
+import { MemoryTranscriptStore } from './transcripts';
+import { encodeSequencedChunk } from '../common/sequence';
+import { ServerMessage } from '../common/protocol';
+import { parseWavHeader } from '../common/wav';
+import { ServerOptions } from '../common/types';
+
+const PCM = { mimeType: 'audio/pcm', encoding: 'linear16', sampleRate: 16000, channels: 1, bitDepth: 16 };
+
+class TestClient {
+  readonly messages: ServerMessage[] = [];
+  private waiters: (() => void)[] = [];
+  
+  constructor(readonly ws: WebSocket) {
+    ws.on('message', (data: Buffer) => {
+      this.messages.push(JSON.parse(data.toString()));
+      this.waiters.splice(0).forEach(wake => wake());
+    });
+  }
+  
+  send(message: Record<string, unknown> | string): void {
+    this.ws.send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+  
+  sendAudio(data: Uint8Array): void {
+    this.ws.send(data, { binary: true });
+  }
+  
+  // Resolves with the first message of the type not yet returned by an earlier call
+  async next<T extends ServerMessage['type']>(type: T, timeoutMs = 2000): Promise<Extract<ServerMessage, { type: T }>> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = this.messages.findIndex(message => message.type === type);
+      if (index !== -1) {
+        return this.messages.splice(index, 1)[0] as Extract<ServerMessage, { type: T }>;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`No ${type} message; received ${this.messages.map(message => message.type).join(', ')}`);
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, 50);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+  
+  types(): string[] {
+    return this.messages.map(message => message.type);
+  }
+}
+
+interface Harness {
+  server: AudioStreamServer;
+  provider: MockTranscriptionProvider;
+  connect(sessionId: string, userId?: string): Promise<TestClient>;
+  close(): Promise<void>;
+}
+
+async function start(
+  providerOptions: ConstructorParameters<typeof MockTranscriptionProvider>[0] = { text: 'hello' },
+  options: Partial<ServerOptions> = {}
+): Promise<Harness> {
+  const provider = new MockTranscriptionProvider(providerOptions);
+  const server = new AudioStreamServer({ transcriptionProvider: provider, ...options });
+  const wss = new WebSocket.Server({ port: 0, host: '127.0.0.1' });
+  await new Promise(resolve => wss.once('listening', resolve));
+  
+  wss.on('connection', (ws, request) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    server.handleConnection({
+      websocket: ws,
+      sessionId: url.searchParams.get('sessionId')!,
+      userId: url.searchParams.get('userId') || undefined
+    });
+  });
+  
+  const port = (wss.address() as { port: number }).port;
+  const clients: WebSocket[] = [];
+  return {
+    server,
+    provider,
+    connect: async (sessionId, userId) => {
+      const ws = new WebSocket(`ws://127.0.0.1:${port}/?sessionId=${sessionId}${userId ? `&userId=${userId}` : ''}`);
+      clients.push(ws);
+      const client = new TestClient(ws);
+      await new Promise((resolve, reject) => {
+        ws.once('open', resolve);
+        ws.once('error', reject);
+      });
+      return client;
+    },
+    close: async () => {
+      clients.forEach(ws => ws.terminate());
+      await server.cleanup();
+      await new Promise(resolve => wss.close(resolve));
+    }
+  };
+}
+
+describe('AudioStreamServer', () => {
+  let harness: Harness;
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await harness?.close();
+  });
+  
+  it('negotiates the protocol version and lists its features', async () => {
+    harness = await start();
+    const client = await harness.connect('s1');
+    client.send({ type: 'hello', protocolVersion: 3 });
+    
+    expect(await client.next('welcome')).toMatchObject({
+      protocolVersion: 1,
+      sessionId: 's1',
+      features: ['sequencing', 'flow-control']
+    });
+    
+    client.send({ type: 'ping' });
+    await client.next('pong');
+  });
+  
+  it('answers malformed and unknown messages with typed errors', async () => {
+    harness = await start();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = await harness.connect('s1');
+    
+    client.send('{not json');
+    client.send({ type: 'teleport' });
+    client.send({ type: 'start-recording', format: 'webm' });
+    client.send({ type: 'start-recording', format: { mimeType: 5 } });
+    
+    expect(await client.next('error')).toMatchObject({ code: 'invalid-json' });
+    expect(await client.next('error')).toMatchObject({ code: 'unknown-message-type', messageType: 'teleport' });
+    expect(await client.next('error')).toMatchObject({
+      code: 'invalid-message',
+      message: '"format" must be an object',
+      messageType: 'start-recording'
+    });
+    expect(await client.next('error')).toMatchObject({
+      code: 'invalid-message',
+      message: '"format.mimeType" must be a string',
+      messageType: 'start-recording'
+    });
+  });
+  
+  it('closes connections from clients that only speak newer protocol versions', async () => {
+    harness = await start();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = await harness.connect('s1');
+    const closed = new Promise(resolve => client.ws.once('close', resolve));
+    client.send({ type: 'hello', protocolVersion: 0 });
+    
+    expect(await client.next('error')).toMatchObject({ code: 'unsupported-version' });
+    expect(await closed).toBe(1002);
+  });
+  
+  it('streams audio to the provider and returns transcripts before recording-stopped', async () => {
+    harness = await start({ text: 'hello', latencyMs: 30 });
+    const client = await harness.connect('s1', 'u1');
+    const transcriptions: string[] = [];
+    harness.server.on('transcription', result => transcriptions.push(`${result.sessionId}:${result.transcript}`));
+    
+    client.send({ type: 'start-recording', format: PCM });
+    expect(await client.next('recording-started')).toMatchObject({ format: PCM, maxBufferedBytes: 2 * 1024 * 1024 });
+    
+    client.sendAudio(Buffer.alloc(320, 1));
+    client.sendAudio(Buffer.alloc(320, 2));
+    client.send({ type: 'stop-recording' });
+    await client.next('recording-stopped');
+    
+    expect(client.messages.filter(message => message.type === 'transcription')).toHaveLength(2);
+    expect(transcriptions).toEqual(['s1:hello', 's1:hello']);
+    expect(harness.provider.getReceivedAudio('s1')).toEqual(Buffer.concat([Buffer.alloc(320, 1), Buffer.alloc(320, 2)]));
+    expect(harness.server.getSessionStats('s1')).toMatchObject({ bytesReceived: 640, chunksReceived: 2 });
+  });
+  
+  it('forwards provider speech events', async () => {
+    harness = await start({ script: [{ transcript: 'hi', speechStart: true, utteranceEnd: true }] });
+    const client = await harness.connect('s1');
+    client.send({ type: 'start-recording', format: PCM });
+    await client.next('recording-started');
+    
+    client.sendAudio(Buffer.alloc(320));
+    await client.next('speech-started');
+    expect((await client.next('transcription')).data.transcript).toBe('hi');
+    await client.next('utterance-end');
+  });
+  
+  it('rejects formats the provider does not accept', async () => {
+    harness = await start({ text: 'x', formats: [{ mimeType: 'audio/pcm', sampleRates: [16000] }] });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = await harness.connect('s1');
+    client.send({ type: 'start-recording', format: { mimeType: 'audio/webm', encoding: 'opus' } });
+    
+    expect(await client.next('recording-rejected')).toMatchObject({
+      supportedFormats: [{ mimeType: 'audio/pcm', sampleRates: [16000] }]
+    });
+  });
+  
+  it('puts sequenced chunks back in order and drops duplicates', async () => {
+    harness = await start({ text: 'x' });
+    const client = await harness.connect('s1');
+    client.send({ type: 'start-recording', format: PCM, sequenceBase: 10 });
+    expect(await client.next('recording-started')).toMatchObject({ sequenceBase: 10, resumed: false });
+    
+    client.sendAudio(encodeSequencedChunk(11, Buffer.from([2, 2])));
+    client.sendAudio(encodeSequencedChunk(10, Buffer.from([1, 1])));
+    client.sendAudio(encodeSequencedChunk(10, Buffer.from([1, 1])));
+    client.sendAudio(encodeSequencedChunk(12, Buffer.from([3, 3])));
+    client.send({ type: 'stop-recording' });
+    await client.next('recording-stopped');
+    
+    expect(harness.provider.getReceivedAudio('s1')).toEqual(Buffer.from([1, 1, 2, 2, 3, 3]));
+    expect(harness.server.getSessionStats('s1')?.sequencing).toMatchObject({ duplicates: 1 });
+  });
+  
+  it('acknowledges audio and drops chunks beyond the session buffer limit', async () => {
+    harness = await start({ text: 'x' }, { flowControl: { maxBufferedBytes: 100, ackIntervalMs: 20 } });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const overloads: number[] = [];
+    harness.server.on('overload', event => overloads.push(event.bufferedBytes));
+    const client = await harness.connect('s1');
+    client.send({ type: 'start-recording', format: PCM });
+    await client.next('recording-started');
+    
+    client.sendAudio(Buffer.alloc(50));
+    client.sendAudio(Buffer.alloc(500));
+    const overload = await client.next('overload');
+    expect(overload.maxBufferedBytes).toBe(100);
+    expect(overload.bufferedBytes).toBeGreaterThanOrEqual(500);
+    
+    const ack = await client.next('ack');
+    expect(ack).toMatchObject({ received: 1, processed: 1, bufferedBytes: 0, maxBufferedBytes: 100 });
+    await client.next('overload-cleared');
+    
+    expect(overloads).toEqual([overload.bufferedBytes]);
+    expect(harness.provider.getReceivedAudio('s1').length).toBe(50);
+    expect(harness.server.getSessionStats('s1')?.flow).toMatchObject({ droppedChunks: 1, droppedBytes: 500, overloads: 1 });
+  });
+  
+  it('resends missed transcripts to a client that resumes its session', async () => {
+    harness = await start({ text: 'hello' }, { sessionResume: { gracePeriodMs: 5000 } });
+    const first = await harness.connect('s1', 'u1');
+    const { resumeToken } = await first.next('session-started');
+    first.send({ type: 'start-recording', format: PCM });
+    await first.next('recording-started');
+    first.sendAudio(Buffer.alloc(320));
+    expect(await first.next('transcription')).toMatchObject({ sequence: 0 });
+    
+    const disconnected = new Promise(resolve => harness.server.once('disconnection', resolve));
+    first.ws.close();
+    expect(await disconnected).toMatchObject({ sessionId: 's1', resumable: true });
+    
+    const second = await harness.connect('s2', 'u1');
+    await second.next('session-started');
+    second.send({ type: 'resume-session', resumeToken, lastTranscriptSequence: -1 });
+    
+    expect(await second.next('session-resumed')).toMatchObject({ sessionId: 's1', missedTranscripts: 1 });
+    expect(await second.next('transcription')).toMatchObject({ sequence: 0, data: { transcript: 'hello' } });
+    
+    second.send({ type: 'start-recording', format: PCM });
+    await second.next('recording-started');
+    second.sendAudio(Buffer.alloc(320));
+    expect(await second.next('transcription')).toMatchObject({ sequence: 1 });
+  });
+  
+  it('refuses to resume another user\'s session', async () => {
+    harness = await start({ text: 'hello' }, { sessionResume: true });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const first = await harness.connect('s1', 'u1');
+    const { resumeToken } = await first.next('session-started');
+    first.ws.close();
+    
+    const intruder = await harness.connect('s2', 'u2');
+    intruder.send({ type: 'resume-session', resumeToken });
+    expect(await intruder.next('session-resume-failed')).toMatchObject({ reason: 'Session belongs to another user' });
+  });
+  
+  it('starts over when a client names a waiting session\'s ID without its resume token', async () => {
+    harness = await start({ text: 'hello' }, { sessionResume: true });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const first = await harness.connect('s1');
+    const { resumeToken } = await first.next('session-started');
+    first.send({ type: 'start-recording', format: PCM });
+    await first.next('recording-started');
+    first.sendAudio(Buffer.alloc(320));
+    await first.next('transcription');
+    
+    const disconnected = new Promise(resolve => harness.server.once('disconnection', resolve));
+    first.ws.close();
+    await disconnected;
+    
+    const expired = new Promise(resolve => harness.server.once('session-expired', resolve));
+    const intruder = await harness.connect('s1');
+    expect(await expired).toMatchObject({ sessionId: 's1' });
+    expect((await intruder.next('session-started')).resumeToken).not.toBe(resumeToken);
+    expect(intruder.types()).not.toContain('transcription');
+    expect(harness.server.getSessionStats('s1')).toBeNull();
+    
+    // The old token died with the session
+    const owner = await harness.connect('s2');
+    owner.send({ type: 'resume-session', resumeToken });
+    expect(await owner.next('session-resume-failed')).toMatchObject({ reason: 'Unknown or expired resume token' });
+  });
+  
+  it('gates silence with voice activity detection', async () => {
+    harness = await start({ text: 'x' }, { vad: { hangoverMs: 100 } });
+    const speech: string[] = [];
+    harness.server.on('speech-start', event => speech.push(`start:${event.source}`));
+    harness.server.on('speech-end', event => speech.push(`end:${event.source}`));
+    const client = await harness.connect('s1');
+    client.send({ type: 'start-recording', format: PCM });
+    await client.next('recording-started');
+    
+    const tone = Buffer.alloc(16000);
+    for (let i = 0; i < 8000; i++) tone.writeInt16LE(Math.round(Math.sin(i / 5) * 10000), i * 2);
+    client.sendAudio(Buffer.alloc(32000));
+    client.sendAudio(tone);
+    client.sendAudio(Buffer.alloc(32000));
+    client.send({ type: 'stop-recording' });
+    await client.next('recording-stopped');
+    
+    expect(speech).toEqual(['start:vad', 'end:vad']);
+    expect(harness.provider.getReceivedAudio('s1').length).toBeLessThan(40000);
+    expect(harness.server.getSessionStats('s1')?.vad).toMatchObject({ audioMs: 2500, speechMs: 500 });
+  });
+  
+  it('saves each recording and keeps final transcripts', async () => {
+    const store = new MemoryObjectStore();
+    harness = await start({ text: 'kept' }, {
+      recording: { storage: new ObjectStoreRecordingStorage({ store }) },
+      transcriptStore: new MemoryTranscriptStore()
+    });
+    const saved = new Promise(resolve => harness.server.once('recording-saved', resolve));
+    const client = await harness.connect('s1', 'u1');
+    client.send({ type: 'start-recording', format: PCM });
+    await client.next('recording-started');
+    client.sendAudio(Buffer.alloc(640, 7));
+    client.send({ type: 'stop-recording' });
+    await client.next('recording-stopped');
+    
+    expect(await saved).toMatchObject({ sessionId: 's1', contentType: 'audio/wav' });
+    const recording = await harness.server.getRecording('s1');
+    expect(parseWavHeader(recording!.data)).toMatchObject({ dataLength: 640 });
+    
+    expect((await harness.server.getSessionTranscript('s1')).map(result => result.transcript)).toEqual(['kept']);
+    expect(await harness.server.listUserSessions('u1')).toHaveLength(1);
+  });
+  
+  it('neither records nor transcribes audio that arrives after the recording stopped', async () => {
+    const store = new MemoryObjectStore();
+    harness = await start({ text: 'kept' }, { recording: { storage: new ObjectStoreRecordingStorage({ store }) } });
+    const saved: unknown[] = [];
+    harness.server.on('recording-saved', recording => saved.push(recording));
+    const client = await harness.connect('s1');
+    client.send({ type: 'start-recording', format: PCM });
+    await client.next('recording-started');
+    client.sendAudio(Buffer.alloc(640, 7));
+    client.send({ type: 'stop-recording' });
+    await client.next('recording-stopped');
+    
+    client.sendAudio(Buffer.alloc(320, 9));
+    client.send({ type: 'ping' });
+    await client.next('pong');
+    expect(client.types()).not.toContain('error');
+    expect(harness.provider.getReceivedAudio('s1')).toHaveLength(640);
+    
+    // A recorder opened by the late audio would be saved when the server shuts down
+    await harness.server.cleanup();
+    expect(saved).toHaveLength(1);
+    const recording = await harness.server.getRecording('s1');
+    expect(parseWavHeader(recording!.data)).toMatchObject({ dataLength: 640 });
+  });
+});
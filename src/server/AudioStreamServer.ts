@@ -1,29 +1,94 @@
 // ABOUTME: Main server class for audio streaming and transcription
 // ABOUTME: Coordinates WebSocket connections, audio processing, and transcription
 
+import { randomUUID } from 'crypto';
 import { EventEmitter } from 'eventemitter3';
-import { WebSocketManager } from './WebSocketManager';
+import { WebSocketConnection, WebSocketManager } from './WebSocketManager';
 import { LLMProcessor, LLMHandler } from './LLMProcessor';
+import { RequestResponseAdapter } from '../providers/RequestResponseAdapter';
+import { negotiateAudioFormat, isContainerFormat, sameAudioFormat } from '../common/audioFormat';
+import { decodeSequencedChunk } from '../common/sequence';
+import {
+  ClientMessage,
+  negotiateProtocolVersion,
+  parseClientMessage,
+  ProtocolError,
+  ProtocolErrorCode,
+  ProtocolFeature,
+  ServerMessage,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from '../common/protocol';
+import { ContainerAudioTrack } from '../common/media';
+import { SessionVad, VadResult } from './VoiceActivityDetector';
+import { AudioSequencer, SequencedChunk } from './AudioSequencer';
+import { SessionRecorder } from './recording';
 import { 
-  TranscriptionProvider, 
+  StreamingTranscriptionProvider, 
+  TranscriptionStream,
   ServerOptions, 
   ConnectionParams,
   AudioChunk,
+  AudioFormat,
+  RecordingInfo,
   ServerEvents,
-  TranscriptionResult
+  ServerFlowControlOptions,
+  SessionResumeOptions,
+  SessionStats,
+  StoredTranscript,
+  TranscriptPage,
+  TranscriptQuery,
+  TranscriptSessionSummary,
+  TranscriptStore,
+  TranscriptionResult,
+  VadOptions
 } from '../common/types';
 
+interface ResumableSession {
+  token: string;
+  userId?: string;
+  nextTranscript: number; // Sequence number of the next transcription message
+  recentTranscripts: { sequence: number; data: TranscriptionResult }[]; // Final results, for resending
+  suspended?: { timer: NodeJS.Timeout; metadata?: Record<string, any> }; // Set while the client is away
+}
+
+interface SessionFlow {
+  stream?: TranscriptionStream; // Open provider stream, whose backlog counts against the limit
+  inProgressBytes: number; // Chunks on their way from the socket to the provider
+  received: number;
+  processed: number;
+  peakBufferedBytes: number;
+  droppedChunks: number;
+  droppedBytes: number;
+  overloads: number;
+  overloaded: boolean;
+  ackTimer: NodeJS.Timeout | null;
+}
+
 export class AudioStreamServer extends EventEmitter<ServerEvents> {
   private wsManager: WebSocketManager;
-  private transcriptionProvider: TranscriptionProvider;
+  private transcriptionProvider: StreamingTranscriptionProvider;
   private llmProcessor: LLMProcessor | null = null;
-  private sessionBuffers: Map<string, Buffer[]> = new Map();
-  private processingQueue: Map<string, Promise<void>> = new Map();
+  private transcriptionStreams: Map<string, Promise<TranscriptionStream>> = new Map();
+  private finalizedStreams: WeakSet<TranscriptionStream> = new WeakSet(); // Their recording has stopped
+  private providerReady: Promise<void>;
+  private containerTracks: Map<string, ContainerAudioTrack> = new Map();
+  private sessionVads: Map<string, SessionVad> = new Map();
+  private sessionStats: Map<string, SessionStats> = new Map();
+  private sequencers: Map<string, { sequencer: AudioSequencer; format: AudioFormat; active: boolean }> = new Map();
+  private vadOptions: VadOptions | null;
+  private recorders: Map<string, SessionRecorder> = new Map();
+  private savedRecordings: Map<string, RecordingInfo> = new Map();
+  private resumeOptions: SessionResumeOptions | null;
+  private resumableSessions: Map<string, ResumableSession> = new Map();
+  private resumeTokens: Map<string, string> = new Map(); // Token to session ID
+  private flowOptions: ServerFlowControlOptions | null;
+  private flows: Map<string, SessionFlow> = new Map();
   
   constructor(private options: ServerOptions) {
     super();
     
-    this.transcriptionProvider = options.transcriptionProvider;
+    // Request/response providers are adapted to the streaming contract
+    this.transcriptionProvider = RequestResponseAdapter.wrap(options.transcriptionProvider);
     this.wsManager = new WebSocketManager({
       pingInterval: options.pingInterval,
       pongTimeout: options.pongTimeout,
@@ -34,7 +99,8 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
     if (options.enableLLMProcessing) {
       this.llmProcessor = new LLMProcessor({
         includeAudio: true,
-        includeTranscript: true
+        includeTranscript: true,
+        audioResolver: (sessionId, chunks) => this.wrapChunks(sessionId, chunks)
       });
       
       // Forward LLM events
@@ -43,7 +109,10 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
       });
     }
     
-    this.initialize();
+    this.vadOptions = options.vad === true ? {} : options.vad || null;
+    this.resumeOptions = options.sessionResume === true ? {} : options.sessionResume || null;
+    this.flowOptions = options.flowControl === false ? null : options.flowControl === true ? {} : options.flowControl || {};
+    this.providerReady = this.initialize();
   }
   
   private async initialize(): Promise<void> {
@@ -58,6 +127,12 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
   async handleConnection(params: ConnectionParams): Promise<void> {
     const { websocket, sessionId, userId, metadata } = params;
     
+    // Only the resume token takes a session back; a connection that merely names a waiting session's ID
+    // ends that session and starts a new one
+    if (this.resumableSessions.get(sessionId)?.suspended) {
+      this.expireSession(sessionId);
+    }
+    
     // Add connection to manager
     const added = this.wsManager.addConnection({
       ws: websocket,
@@ -71,37 +146,128 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
       return;
     }
     
-    // Initialize session buffer
-    this.sessionBuffers.set(sessionId, []);
+    // Resuming a session moves the socket to another session ID
+    let connection = this.wsManager.getConnection(sessionId) as WebSocketConnection;
     
     // Emit connection event
     this.emit('connection', { sessionId, userId });
+    this.announceSession(sessionId, userId);
     
     // Setup message handlers
-    websocket.on('message', async (data: Buffer | string) => {
+    websocket.on('message', async (data: Buffer | string, isBinary?: boolean) => {
       try {
-        // Try to parse as JSON first
-        if (typeof data === 'string' || (data instanceof Buffer && this.isJSON(data))) {
-          const message = typeof data === 'string' ? JSON.parse(data) : JSON.parse(data.toString());
-          await this.handleControlMessage(sessionId, message);
+        // Text frames, and binary frames holding JSON, are control messages
+        if (typeof data === 'string' || isBinary === false || (data instanceof Buffer && this.isJSON(data))) {
+          const message = parseClientMessage(data.toString());
+          if (message.type === 'resume-session') {
+            connection = this.resumeSession(connection, message.resumeToken, message.lastTranscriptSequence);
+          } else {
+            await this.handleControlMessage(connection.sessionId, message);
+          }
         } else {
           // Handle as audio data
-          await this.handleAudioData(sessionId, data as Buffer);
+          await this.handleAudioData(connection.sessionId, data as Buffer);
         }
       } catch (error) {
-        console.error(`Error handling message for session ${sessionId}:`, error);
-        this.emit('error', { sessionId, error: error as Error });
+        if (error instanceof ProtocolError) {
+          console.warn(`Invalid message from session ${connection.sessionId}: ${error.message}`);
+          this.sendError(connection.sessionId, error.code, error.message, error.messageType);
+          return;
+        }
+        console.error(`Error handling message for session ${connection.sessionId}:`, error);
+        this.sendError(connection.sessionId, 'internal-error', 'Failed to handle message');
+        this.emit('error', { sessionId: connection.sessionId, error: error as Error });
       }
     });
     
     websocket.on('close', (code: number, reason: string) => {
-      this.handleDisconnection(sessionId, reason.toString());
+      this.handleDisconnection(connection, reason.toString());
     });
     
     websocket.on('error', (error: Error) => {
-      console.error(`WebSocket error for session ${sessionId}:`, error);
-      this.emit('error', { sessionId, error });
+      console.error(`WebSocket error for session ${connection.sessionId}:`, error);
+      this.emit('error', { sessionId: connection.sessionId, error });
+    });
+  }
+  
+  // Gives the client the token it needs to resume this session after a disconnect
+  private announceSession(sessionId: string, userId?: string): void {
+    if (!this.resumeOptions) return;
+    
+    let resumable = this.resumableSessions.get(sessionId);
+    if (!resumable) {
+      resumable = { token: randomUUID(), userId, nextTranscript: 0, recentTranscripts: [] };
+      this.resumableSessions.set(sessionId, resumable);
+      this.resumeTokens.set(resumable.token, sessionId);
+    }
+    
+    this.send(sessionId, {
+      type: 'session-started',
+      sessionId,
+      resumeToken: resumable.token,
+      gracePeriodMs: this.resumeOptions.gracePeriodMs ?? 30000,
+      timestamp: Date.now()
+    });
+  }
+  
+  // Moves a reconnected client onto the session its token belongs to and resends the results it missed.
+  // Returns the connection the socket now belongs to.
+  private resumeSession(connection: WebSocketConnection, token: string, lastSequence = -1): WebSocketConnection {
+    const targetId = this.resumeTokens.get(token);
+    const target = targetId !== undefined ? this.resumableSessions.get(targetId) : undefined;
+    const fail = (reason: string) => {
+      console.warn(`Could not resume session for ${connection.sessionId}: ${reason}`);
+      this.send(connection.sessionId, {
+        type: 'session-resume-failed',
+        reason,
+        timestamp: Date.now()
+      });
+      return connection;
+    };
+    
+    if (!target || targetId === undefined) return fail('Unknown or expired resume token');
+    if (target.userId !== connection.userId) return fail('Session belongs to another user');
+    
+    let resumed = connection;
+    if (targetId !== connection.sessionId) {
+      if (!target.suspended) return fail('Session is connected elsewhere');
+      if (connection.metadata?.isRecording) return fail('A recording has already started on this connection');
+      
+      // The connection's own, still empty session gives way to the resumed one
+      this.wsManager.removeConnection(connection.sessionId);
+      this.endSession(connection.sessionId);
+      this.emit('disconnection', {
+        sessionId: connection.sessionId,
+        userId: connection.userId,
+        reason: `Resumed session ${targetId}`,
+        resumable: false
+      });
+      
+      this.wsManager.addConnection({
+        ws: connection.ws,
+        sessionId: targetId,
+        userId: connection.userId,
+        metadata: { ...target.suspended.metadata, ...connection.metadata }
+      });
+      clearTimeout(target.suspended.timer);
+      target.suspended = undefined;
+      resumed = this.wsManager.getConnection(targetId) as WebSocketConnection;
+    }
+    
+    const missed = target.recentTranscripts.filter(entry => entry.sequence > lastSequence);
+    this.send(targetId, {
+      type: 'session-resumed',
+      sessionId: targetId,
+      resumeToken: target.token,
+      missedTranscripts: missed.length,
+      timestamp: Date.now()
     });
+    for (const { sequence, data } of missed) {
+      this.send(targetId, { type: 'transcription', data, sequence });
+    }
+    
+    this.emit('session-resumed', { sessionId: targetId, userId: connection.userId, missedTranscripts: missed.length });
+    return resumed;
   }
   
   private isJSON(data: Buffer): boolean {
@@ -113,28 +279,34 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
     }
   }
   
-  private async handleControlMessage(sessionId: string, message: any): Promise<void> {
+  private async handleControlMessage(sessionId: string, message: ClientMessage): Promise<void> {
     const connection = this.wsManager.getConnection(sessionId);
     if (!connection) return;
     
     switch (message.type) {
+      case 'hello':
+        this.handleHello(connection, message.protocolVersion);
+        break;
+        
       case 'ping':
-        this.wsManager.sendMessage(sessionId, { type: 'pong' });
+        this.send(sessionId, { type: 'pong' });
         break;
         
       case 'start-recording':
-        connection.metadata = { ...connection.metadata, isRecording: true };
-        this.wsManager.sendMessage(sessionId, { 
-          type: 'recording-started',
-          timestamp: Date.now()
+        await this.handleStartRecording(sessionId, message.format, {
+          sequenceBase: message.sequenceBase,
+          resume: message.resume
         });
         break;
         
       case 'stop-recording':
         connection.metadata = { ...connection.metadata, isRecording: false };
-        // Process any remaining buffered audio
-        await this.processBufferedAudio(sessionId);
-        this.wsManager.sendMessage(sessionId, { 
+        await this.flushSequencer(sessionId);
+        await this.flushVad(sessionId);
+        // Flush any audio the provider has not transcribed yet
+        await this.finalizeStream(sessionId);
+        await this.finishRecording(sessionId);
+        this.send(sessionId, { 
           type: 'recording-stopped',
           timestamp: Date.now()
         });
@@ -142,7 +314,7 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
         
       case 'pause-recording':
         connection.metadata = { ...connection.metadata, isPaused: true };
-        this.wsManager.sendMessage(sessionId, { 
+        this.send(sessionId, { 
           type: 'recording-paused',
           timestamp: Date.now()
         });
@@ -150,36 +322,330 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
         
       case 'resume-recording':
         connection.metadata = { ...connection.metadata, isPaused: false };
-        this.wsManager.sendMessage(sessionId, { 
+        this.send(sessionId, { 
           type: 'recording-resumed',
           timestamp: Date.now()
         });
         break;
-        
-      default:
-        console.warn(`Unknown control message type: ${message.type}`);
     }
   }
   
+  // Settles the protocol version; clients that never say hello are treated as version 1
+  private handleHello(connection: WebSocketConnection, clientVersion: number): void {
+    const protocolVersion = negotiateProtocolVersion(clientVersion);
+    if (protocolVersion === undefined) {
+      const message = `Protocol version ${clientVersion} is not supported; ` +
+        `this server speaks ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`;
+      console.warn(`Closing session ${connection.sessionId}: ${message}`);
+      this.sendError(connection.sessionId, 'unsupported-version', message, 'hello');
+      connection.ws.close(1002, 'Unsupported protocol version');
+      return;
+    }
+    
+    connection.metadata = { ...connection.metadata, protocolVersion };
+    const features: ProtocolFeature[] = ['sequencing'];
+    if (this.resumeOptions) features.push('session-resume');
+    if (this.flowOptions) features.push('flow-control');
+    
+    this.send(connection.sessionId, {
+      type: 'welcome',
+      protocolVersion,
+      sessionId: connection.sessionId,
+      features,
+      timestamp: Date.now()
+    });
+  }
+  
+  private send(sessionId: string, message: ServerMessage): boolean {
+    return this.wsManager.sendMessage(sessionId, message);
+  }
+  
+  private sendError(sessionId: string, code: ProtocolErrorCode, message: string, messageType?: string): void {
+    this.send(sessionId, {
+      type: 'error',
+      code,
+      message,
+      ...(messageType !== undefined && { messageType }),
+      timestamp: Date.now()
+    });
+  }
+  
+  private async handleStartRecording(
+    sessionId: string,
+    requested?: Partial<AudioFormat>,
+    sequencing: { sequenceBase?: number; resume?: boolean } = {}
+  ): Promise<void> {
+    const connection = this.wsManager.getConnection(sessionId);
+    if (!connection) return;
+    
+    const reject = (reason: string) => {
+      console.warn(`Rejected recording for session ${sessionId}: ${reason}`);
+      this.send(sessionId, {
+        type: 'recording-rejected',
+        reason,
+        supportedFormats: this.transcriptionProvider.getCapabilities?.().formats,
+        timestamp: Date.now()
+      });
+    };
+    
+    try {
+      await this.providerReady;
+    } catch (error) {
+      reject(`Transcription provider unavailable: ${(error as Error).message}`);
+      return;
+    }
+    
+    const negotiation = negotiateAudioFormat(
+      requested || { mimeType: 'audio/webm' },
+      this.transcriptionProvider.getCapabilities?.()
+    );
+    if (!negotiation.accepted) {
+      reject(negotiation.reason);
+      return;
+    }
+    
+    // A client that reconnected mid-recording continues the session's stream when it is still open;
+    // the reply tells it which chunk to replay from
+    const sequenced = this.sequencers.get(sessionId);
+    if (sequencing.resume && sequenced?.active && this.transcriptionStreams.has(sessionId) &&
+        sameAudioFormat(sequenced.format, negotiation.format)) {
+      connection.metadata = {
+        ...connection.metadata,
+        audioFormat: negotiation.format,
+        isRecording: true,
+        isPaused: false,
+        sequenced: true
+      };
+      // Audio the client no longer has is skipped rather than waited for
+      const released = Number.isInteger(sequencing.sequenceBase)
+        ? sequenced.sequencer.skipTo(sequencing.sequenceBase as number)
+        : [];
+      await Promise.all(released.map(({ sequence, data }) => this.processAudio(sessionId, data, sequence)));
+      
+      this.send(sessionId, {
+        type: 'recording-started',
+        format: negotiation.format,
+        sequenceBase: sequenced.sequencer.next,
+        resumed: true,
+        timestamp: Date.now()
+      });
+      return;
+    }
+    
+    // A new recording may use a different format, and containers restart with a fresh header
+    this.closeStream(sessionId);
+    this.sessionVads.get(sessionId)?.restart(negotiation.format);
+    await this.finishRecording(sessionId);
+    
+    const sequenceBase = Number.isInteger(sequencing.sequenceBase) ? sequencing.sequenceBase as number : undefined;
+    if (sequenceBase !== undefined) {
+      this.sequencers.set(sessionId, {
+        sequencer: new AudioSequencer(sequenceBase),
+        format: negotiation.format,
+        active: true
+      });
+    } else {
+      this.sequencers.delete(sessionId);
+    }
+    this.resetFlow(sessionId, sequenceBase ?? 0);
+    connection.metadata = {
+      ...connection.metadata,
+      audioFormat: negotiation.format,
+      isRecording: true,
+      sequenced: sequenceBase !== undefined
+    };
+    
+    try {
+      await this.getTranscriptionStream(sessionId);
+    } catch (error) {
+      connection.metadata = { ...connection.metadata, isRecording: false };
+      reject((error as Error).message);
+      return;
+    }
+    this.startRecorder(sessionId, negotiation.format);
+    
+    this.send(sessionId, { 
+      type: 'recording-started',
+      format: negotiation.format,
+      ...(sequenceBase !== undefined && { sequenceBase, resumed: false }),
+      ...(this.flowOptions && { maxBufferedBytes: this.flowOptions.maxBufferedBytes ?? 2 * 1024 * 1024 }),
+      timestamp: Date.now()
+    });
+  }
+  
   private async handleAudioData(sessionId: string, audioData: Buffer): Promise<void> {
     const connection = this.wsManager.getConnection(sessionId);
-    if (!connection || connection.metadata?.isPaused) {
+    if (!connection) return;
+    
+    const sequencer = connection.metadata?.sequenced ? this.sequencers.get(sessionId)?.sequencer : undefined;
+    const flow = this.flowOptions ? this.getFlow(sessionId) : null;
+    let chunks: SequencedChunk[] = [{ sequence: flow ? flow.received + 1 : -1, data: audioData }];
+    if (sequencer) {
+      const { sequence, data } = decodeSequencedChunk(audioData);
+      chunks = sequencer.push(sequence, data as Buffer);
+    }
+    if (flow) {
+      // Unnumbered chunks are acknowledged by their index in the recording
+      flow.received = sequencer ? sequencer.next - 1 : flow.received + 1;
+    }
+    
+    // Audio outside a recording has nowhere to go
+    if (!connection.metadata?.isRecording) {
+      this.markProcessed(sessionId, chunks);
+      return;
+    }
+    
+    // Clients do not capture while paused, so numbered chunks that arrive late were recorded before the pause
+    if (connection.metadata?.isPaused && !sequencer) {
+      this.markProcessed(sessionId, chunks);
       return;
     }
     
-    // Add to buffer
-    const buffer = this.sessionBuffers.get(sessionId);
-    if (!buffer) return;
+    // Audio the session has no room for is dropped rather than queued behind a slow provider
+    const accepted = flow ? chunks.filter(chunk => this.admitAudio(sessionId, flow, chunk.data)) : chunks;
+    
+    try {
+      // Started together, so every chunk reaches VAD and the provider in sequence order
+      await Promise.all(accepted.map(({ sequence, data }) =>
+        this.processAudio(sessionId, data, sequencer ? sequence : undefined)
+      ));
+    } finally {
+      if (flow) {
+        flow.inProgressBytes -= accepted.reduce((total, chunk) => total + chunk.data.length, 0);
+      }
+      this.markProcessed(sessionId, chunks);
+    }
+  }
+  
+  private getFlow(sessionId: string): SessionFlow {
+    let flow = this.flows.get(sessionId);
+    if (!flow) {
+      flow = {
+        inProgressBytes: 0,
+        received: -1,
+        processed: -1,
+        peakBufferedBytes: 0,
+        droppedChunks: 0,
+        droppedBytes: 0,
+        overloads: 0,
+        overloaded: false,
+        ackTimer: null
+      };
+      this.flows.set(sessionId, flow);
+    }
+    return flow;
+  }
+  
+  // Each recording counts from its first sequence number; the provider stream carries over until it is replaced
+  private resetFlow(sessionId: string, sequenceBase: number): void {
+    if (!this.flowOptions) return;
+    
+    const previous = this.flows.get(sessionId);
+    if (previous?.ackTimer) clearTimeout(previous.ackTimer);
+    this.flows.delete(sessionId);
+    
+    const flow = this.getFlow(sessionId);
+    flow.stream = previous?.stream;
+    flow.received = sequenceBase - 1;
+    flow.processed = sequenceBase - 1;
+  }
+  
+  private bufferedBytes(flow: SessionFlow): number {
+    return flow.inProgressBytes + (flow.stream?.bufferedBytes ?? 0);
+  }
+  
+  private admitAudio(sessionId: string, flow: SessionFlow, data: Buffer): boolean {
+    const maxBufferedBytes = this.flowOptions?.maxBufferedBytes ?? 2 * 1024 * 1024;
+    const buffered = this.bufferedBytes(flow) + data.length;
+    
+    if (buffered <= maxBufferedBytes) {
+      flow.inProgressBytes += data.length;
+      flow.peakBufferedBytes = Math.max(flow.peakBufferedBytes, buffered);
+      return true;
+    }
     
-    buffer.push(audioData);
+    flow.droppedChunks++;
+    flow.droppedBytes += data.length;
+    if (!flow.overloaded) {
+      flow.overloaded = true;
+      flow.overloads++;
+      console.warn(`Session ${sessionId} has ${buffered} bytes of audio waiting for the provider, dropping audio`);
+      this.send(sessionId, {
+        type: 'overload',
+        bufferedBytes: buffered,
+        maxBufferedBytes,
+        timestamp: Date.now()
+      });
+      this.emit('overload', { sessionId, bufferedBytes: buffered, maxBufferedBytes });
+    }
+    return false;
+  }
+  
+  private markProcessed(sessionId: string, chunks: SequencedChunk[]): void {
+    const flow = this.flows.get(sessionId);
+    if (!flow) return;
+    
+    if (chunks.length > 0) {
+      flow.processed = Math.max(flow.processed, chunks[chunks.length - 1].sequence);
+    }
+    this.scheduleAck(sessionId);
+  }
+  
+  // Acks are batched, at most one per interval
+  private scheduleAck(sessionId: string): void {
+    const flow = this.flows.get(sessionId);
+    if (!flow || flow.ackTimer) return;
+    
+    flow.ackTimer = setTimeout(() => {
+      flow.ackTimer = null;
+      if (this.flows.get(sessionId) === flow) {
+        this.sendAck(sessionId, flow);
+      }
+    }, this.flowOptions?.ackIntervalMs ?? 250);
+  }
+  
+  private sendAck(sessionId: string, flow: SessionFlow): void {
+    const bufferedBytes = this.bufferedBytes(flow);
+    const maxBufferedBytes = this.flowOptions?.maxBufferedBytes ?? 2 * 1024 * 1024;
+    this.send(sessionId, {
+      type: 'ack',
+      received: flow.received,
+      processed: flow.processed,
+      bufferedBytes,
+      maxBufferedBytes,
+      timestamp: Date.now()
+    });
+    
+    // An overloaded session recovers once half the buffer has drained
+    if (flow.overloaded && bufferedBytes <= maxBufferedBytes / 2) {
+      flow.overloaded = false;
+      this.send(sessionId, {
+        type: 'overload-cleared',
+        bufferedBytes,
+        timestamp: Date.now()
+      });
+    }
+    
+    // Clients waiting for room keep hearing about the backlog until it is gone
+    if (bufferedBytes > 0) {
+      this.scheduleAck(sessionId);
+    }
+  }
+  
+  private async processAudio(sessionId: string, audioData: Buffer, sequenceNumber?: number): Promise<void> {
+    const connection = this.wsManager.getConnection(sessionId);
     
     // Emit audio chunk event
     const chunk: AudioChunk = {
       data: audioData,
       timestamp: Date.now(),
-      format: connection.metadata?.audioFormat || { mimeType: 'audio/webm' },
-      sessionId
+      format: connection?.metadata?.audioFormat || { mimeType: 'audio/webm' },
+      sessionId,
+      sequenceNumber
     };
+    this.demuxChunk(chunk);
+    this.recordStats(sessionId, audioData);
+    this.recordAudio(chunk);
     this.emit('audio-chunk', chunk);
     
     // Process with LLM if enabled
@@ -187,96 +653,446 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
       this.llmProcessor.processAudioChunk(chunk).catch(console.error);
     }
     
-    // Process audio if not already processing
-    if (!this.processingQueue.has(sessionId)) {
-      const processingPromise = this.processAudioBuffer(sessionId);
-      this.processingQueue.set(sessionId, processingPromise);
-      
-      try {
-        await processingPromise;
-      } finally {
-        this.processingQueue.delete(sessionId);
-      }
+    // Silence is held back or dropped before it reaches the provider
+    const forward = await this.applyVad(chunk);
+    await this.writeAudio(sessionId, forward);
+  }
+  
+  // Processes chunks still waiting for a missing predecessor before the recording ends
+  private async flushSequencer(sessionId: string): Promise<void> {
+    const sequenced = this.sequencers.get(sessionId);
+    if (!sequenced) return;
+    
+    sequenced.active = false;
+    await Promise.all(sequenced.sequencer.flush().map(({ sequence, data }) =>
+      this.processAudio(sessionId, data, sequence)
+    ));
+  }
+  
+  private async writeAudio(sessionId: string, audio: Buffer[]): Promise<void> {
+    if (audio.length === 0) return;
+    
+    // Push audio to the session's transcription stream
+    const stream = await this.getTranscriptionStream(sessionId);
+    if (this.finalizedStreams.has(stream)) {
+      console.warn(`Dropping ${audio.length} audio chunk(s) that arrived after the recording of session ${sessionId} stopped`);
+      return;
+    }
+    for (const data of audio) {
+      stream.write(data);
+    }
+  }
+  
+  private recordStats(sessionId: string, audioData: Buffer): void {
+    let stats = this.sessionStats.get(sessionId);
+    if (!stats) {
+      stats = { sessionId, bytesReceived: 0, chunksReceived: 0 };
+      this.sessionStats.set(sessionId, stats);
     }
+    stats.bytesReceived += audioData.length;
+    stats.chunksReceived++;
   }
   
-  private async processAudioBuffer(sessionId: string): Promise<void> {
-    const buffer = this.sessionBuffers.get(sessionId);
-    if (!buffer || buffer.length === 0) return;
+  private async applyVad(chunk: AudioChunk): Promise<Buffer[]> {
+    const audioData = chunk.data as Buffer;
+    if (!this.vadOptions) return [audioData];
     
-    const connection = this.wsManager.getConnection(sessionId);
-    if (!connection) return;
+    let vad = this.sessionVads.get(chunk.sessionId);
+    if (!vad) {
+      vad = new SessionVad(chunk.format, this.vadOptions);
+      this.sessionVads.set(chunk.sessionId, vad);
+    }
+    
+    const duration = chunk.startTime !== undefined && chunk.endTime !== undefined
+      ? chunk.endTime - chunk.startTime
+      : undefined;
+    
+    try {
+      const result = await vad.process(audioData, duration);
+      this.emitVadEvents(chunk.sessionId, result);
+      return result.forward;
+    } catch (error) {
+      // A failing detector must not lose audio
+      console.error(`Voice activity detection failed for session ${chunk.sessionId}:`, error);
+      return [audioData];
+    }
+  }
+  
+  private async flushVad(sessionId: string): Promise<void> {
+    const vad = this.sessionVads.get(sessionId);
+    if (!vad) return;
+    
+    const result = await vad.flush();
+    this.emitVadEvents(sessionId, result);
+    await this.writeAudio(sessionId, result.forward);
+  }
+  
+  private emitVadEvents(sessionId: string, result: VadResult): void {
+    for (const event of result.events) {
+      this.emit(event.type, {
+        sessionId,
+        timestamp: Date.now(),
+        audioTime: event.audioTime,
+        source: 'vad'
+      });
+    }
+  }
+  
+  private startRecorder(sessionId: string, format: AudioFormat): void {
+    if (!this.options.recording) return;
     
-    // Get all buffered audio and clear buffer
-    const audioChunks = buffer.splice(0, buffer.length);
-    const combinedAudio = Buffer.concat(audioChunks);
+    this.recorders.set(sessionId, new SessionRecorder({
+      storage: this.options.recording.storage,
+      sessionId,
+      format,
+      keyPrefix: this.options.recording.keyPrefix
+    }));
+  }
+  
+  // Only a recording in progress has a recorder; audio arriving after it finished is not saved
+  private recordAudio(chunk: AudioChunk): void {
+    this.recorders.get(chunk.sessionId)?.write(chunk.data as Buffer);
+  }
+  
+  private async finishRecording(sessionId: string): Promise<void> {
+    const recorder = this.recorders.get(sessionId);
+    if (!recorder) return;
     
+    this.recorders.delete(sessionId);
     try {
-      // Send to transcription provider
-      const result = await this.transcriptionProvider.processAudio(
-        combinedAudio,
-        connection.metadata
-      );
+      const recording = await recorder.finish();
+      if (!recording) return;
       
-      if (result.transcript) {
-        // Send transcription to client
-        this.wsManager.sendMessage(sessionId, {
-          type: 'transcription',
-          data: result
-        });
-        
-        // Emit transcription event
-        this.emit('transcription', {
-          ...result,
-          sessionId
-        });
-        
-        // Process with LLM if enabled
-        if (this.llmProcessor) {
-          this.llmProcessor.processTranscription(sessionId, result).catch(console.error);
-        }
+      // Remember the latest recordings, oldest sessions first out
+      this.savedRecordings.delete(sessionId);
+      this.savedRecordings.set(sessionId, recording);
+      const maxSaved = this.options.recording?.maxSavedRecordings ?? 1000;
+      for (const oldest of this.savedRecordings.keys()) {
+        if (this.savedRecordings.size <= maxSaved) break;
+        this.savedRecordings.delete(oldest);
       }
+      
+      this.emit('recording-saved', recording);
     } catch (error) {
-      console.error(`Transcription error for session ${sessionId}:`, error);
+      console.error(`Failed to save recording for session ${sessionId}:`, error);
       this.emit('error', { sessionId, error: error as Error });
     }
   }
   
-  private async processBufferedAudio(sessionId: string): Promise<void> {
-    // Wait for any ongoing processing
-    const ongoingProcessing = this.processingQueue.get(sessionId);
-    if (ongoingProcessing) {
-      await ongoingProcessing;
+  // Latest saved recording of the session, as a playable file
+  async getRecording(sessionId: string): Promise<(RecordingInfo & { data: Buffer }) | null> {
+    const recording = this.savedRecordings.get(sessionId);
+    if (!recording || !this.options.recording) return null;
+    
+    const data = await this.options.recording.storage.read(recording.key);
+    return data ? { ...recording, data } : null;
+  }
+  
+  getSessionStats(sessionId: string): SessionStats | null {
+    const stats = this.sessionStats.get(sessionId);
+    if (!stats) return null;
+    
+    const vad = this.sessionVads.get(sessionId);
+    const sequencer = this.sequencers.get(sessionId)?.sequencer;
+    const flow = this.flows.get(sessionId);
+    return {
+      ...stats,
+      ...(vad && { vad: vad.getStats() }),
+      ...(sequencer && { sequencing: sequencer.getStats() }),
+      ...(flow && {
+        flow: {
+          bufferedBytes: this.bufferedBytes(flow),
+          peakBufferedBytes: flow.peakBufferedBytes,
+          received: flow.received,
+          processed: flow.processed,
+          lagChunks: Math.max(0, flow.received - flow.processed),
+          droppedChunks: flow.droppedChunks,
+          droppedBytes: flow.droppedBytes,
+          overloads: flow.overloads,
+          overloaded: flow.overloaded
+        }
+      })
+    };
+  }
+  
+  // Tracks container audio so any range can later be cut into a standalone file
+  private demuxChunk(chunk: AudioChunk): void {
+    if (!isContainerFormat(chunk.format)) return;
+    
+    let track = this.containerTracks.get(chunk.sessionId);
+    if (!track) {
+      track = new ContainerAudioTrack({ retainMs: this.options.audioRetentionMs });
+      this.containerTracks.set(chunk.sessionId, track);
     }
     
-    // Process any remaining buffered audio
-    await this.processAudioBuffer(sessionId);
+    try {
+      const frames = track.push(chunk.data as Buffer);
+      if (frames.length > 0) {
+        chunk.startTime = frames[0].timestamp;
+        chunk.endTime = frames[frames.length - 1].timestamp + frames[frames.length - 1].duration;
+      }
+    } catch (error) {
+      // Unparseable audio still reaches the provider, it just cannot be re-wrapped
+      console.error(`Failed to demux audio for session ${chunk.sessionId}:`, error);
+      this.containerTracks.delete(chunk.sessionId);
+    }
+  }
+  
+  private wrapChunks(sessionId: string, chunks: AudioChunk[]): Buffer | null {
+    const timed = chunks.filter(chunk => chunk.startTime !== undefined && chunk.endTime !== undefined);
+    if (timed.length === 0) return null;
+    
+    return this.getSessionAudio(sessionId, timed[0].startTime, timed[timed.length - 1].endTime);
+  }
+  
+  // Standalone WebM/Ogg file for a range of the session's recent container audio (ms of session audio)
+  getSessionAudio(sessionId: string, startMs?: number, endMs?: number): Buffer | null {
+    const track = this.containerTracks.get(sessionId);
+    if (!track) return null;
+    
+    try {
+      return track.extract(startMs, endMs);
+    } catch (error) {
+      console.error(`Failed to extract audio for session ${sessionId}:`, error);
+      return null;
+    }
   }
   
-  private handleDisconnection(sessionId: string, reason?: string): void {
+  private getTranscriptionStream(sessionId: string): Promise<TranscriptionStream> {
+    const existing = this.transcriptionStreams.get(sessionId);
+    if (existing) return existing;
+    
     const connection = this.wsManager.getConnection(sessionId);
-    if (!connection) return;
+    const streamPromise: Promise<TranscriptionStream> = this.providerReady.then(() =>
+      this.transcriptionProvider.createStream({
+        sessionId,
+        userId: connection?.userId,
+        metadata: connection?.metadata
+      })
+    ).then(stream => {
+      this.attachTranscriptionStream(sessionId, stream, streamPromise);
+      return stream;
+    });
     
-    // Flush any pending LLM batches
-    if (this.llmProcessor) {
-      this.llmProcessor.flushSession(sessionId).catch(console.error);
+    // Forget failed attempts so the next chunk retries
+    streamPromise.catch(() => {
+      if (this.transcriptionStreams.get(sessionId) === streamPromise) {
+        this.transcriptionStreams.delete(sessionId);
+      }
+    });
+    
+    this.transcriptionStreams.set(sessionId, streamPromise);
+    return streamPromise;
+  }
+  
+  private attachTranscriptionStream(
+    sessionId: string,
+    stream: TranscriptionStream,
+    streamPromise: Promise<TranscriptionStream>
+  ): void {
+    if (this.flowOptions) {
+      this.getFlow(sessionId).stream = stream;
     }
     
-    // Clean up session data
-    this.sessionBuffers.delete(sessionId);
-    this.processingQueue.delete(sessionId);
+    stream.on('result', (result) => {
+      this.handleTranscriptionResult(sessionId, result);
+    });
+    
+    stream.on('speech-start', (event) => {
+      this.send(sessionId, { type: 'speech-started', data: event });
+      this.emit('speech-start', { ...event, sessionId, source: 'provider' });
+    });
+    
+    stream.on('utterance-end', (event) => {
+      this.send(sessionId, { type: 'utterance-end', data: event });
+      this.emit('utterance-end', { ...event, sessionId, source: 'provider' });
+    });
+    
+    stream.on('provider-switch', (params) => {
+      console.warn(`Session ${sessionId} switched transcription provider from ${params.from} to ${params.to}: ${params.reason}`);
+      this.emit('provider-switch', { ...params, sessionId });
+    });
+    
+    stream.on('error', (error) => {
+      console.error(`Transcription error for session ${sessionId}:`, error);
+      this.emit('error', { sessionId, error });
+    });
+    
+    stream.on('close', () => {
+      const flow = this.flows.get(sessionId);
+      if (flow?.stream === stream) {
+        flow.stream = undefined;
+      }
+      
+      // Provider closed the stream on its own; reopen lazily on the next chunk
+      if (this.transcriptionStreams.get(sessionId) === streamPromise) {
+        this.transcriptionStreams.delete(sessionId);
+      }
+    });
+  }
+  
+  private handleTranscriptionResult(sessionId: string, result: TranscriptionResult): void {
+    if (!result.transcript) return;
+    
+    // Send transcription to client; resumable sessions number them so a reconnected client can catch up
+    const resumable = this.resumableSessions.get(sessionId);
+    const sequence = resumable ? this.rememberTranscript(resumable, result) : undefined;
+    this.send(sessionId, {
+      type: 'transcription',
+      data: result,
+      ...(sequence !== undefined && { sequence })
+    });
+    
+    // Emit transcription event
+    this.emit('transcription', {
+      ...result,
+      sessionId
+    });
+    
+    // Only final results are forwarded to the LLM
+    if (this.llmProcessor && result.isFinal !== false) {
+      this.llmProcessor.processTranscription(sessionId, result).catch(console.error);
+    }
+    
+    if (this.options.transcriptStore && result.isFinal !== false) {
+      this.storeTranscript(sessionId, result);
+    }
+  }
+  
+  private rememberTranscript(resumable: ResumableSession, result: TranscriptionResult): number {
+    const sequence = resumable.nextTranscript++;
+    if (result.isFinal !== false) {
+      resumable.recentTranscripts.push({ sequence, data: result });
+      const maxMissed = this.resumeOptions?.maxMissedTranscripts ?? 100;
+      if (resumable.recentTranscripts.length > maxMissed) {
+        resumable.recentTranscripts.splice(0, resumable.recentTranscripts.length - maxMissed);
+      }
+    }
+    return sequence;
+  }
+  
+  private storeTranscript(sessionId: string, result: TranscriptionResult): void {
+    const transcript: StoredTranscript = {
+      ...result,
+      sessionId,
+      userId: this.wsManager.getConnection(sessionId)?.userId,
+      storedAt: Date.now()
+    };
+    
+    this.options.transcriptStore!.append(transcript).catch(error => {
+      console.error(`Failed to store transcript for session ${sessionId}:`, error);
+      this.emit('error', { sessionId, error });
+    });
+  }
+  
+  private getTranscriptStore(): TranscriptStore {
+    if (!this.options.transcriptStore) {
+      throw new Error('Transcript storage is not enabled. Set transcriptStore in options.');
+    }
+    return this.options.transcriptStore;
+  }
+  
+  // Every stored final result of the session, oldest first
+  getSessionTranscript(sessionId: string): Promise<StoredTranscript[]> {
+    return this.getTranscriptStore().getSession(sessionId);
+  }
+  
+  listUserSessions(userId: string): Promise<TranscriptSessionSummary[]> {
+    return this.getTranscriptStore().listSessions(userId);
+  }
+  
+  queryTranscripts(query: TranscriptQuery): Promise<TranscriptPage> {
+    return this.getTranscriptStore().query(query);
+  }
+  
+  private async finalizeStream(sessionId: string): Promise<void> {
+    const streamPromise = this.transcriptionStreams.get(sessionId);
+    if (!streamPromise) return;
+    
+    try {
+      const stream = await streamPromise;
+      this.finalizedStreams.add(stream);
+      await stream.finalize();
+    } catch (error) {
+      console.error(`Failed to finalize transcription for session ${sessionId}:`, error);
+      this.emit('error', { sessionId, error: error as Error });
+    }
+  }
+  
+  private closeStream(sessionId: string): void {
+    const streamPromise = this.transcriptionStreams.get(sessionId);
+    if (!streamPromise) return;
+    
+    this.transcriptionStreams.delete(sessionId);
+    streamPromise
+      .then(stream => stream.close())
+      .catch(error => console.error(`Failed to close transcription stream for session ${sessionId}:`, error));
+  }
+  
+  private handleDisconnection(connection: WebSocketConnection, reason?: string): void {
+    const { sessionId, userId } = connection;
+    
+    // A client that reconnected with the same session ID keeps the session
+    const current = this.wsManager.getConnection(sessionId);
+    if (current && current !== connection) return;
     
     // Remove from manager
     this.wsManager.removeConnection(sessionId);
     
+    // A resumable session keeps its state until the client returns or the grace period ends
+    const resumable = this.resumeOptions ? this.resumableSessions.get(sessionId) : undefined;
+    if (resumable) {
+      resumable.suspended = {
+        metadata: connection.metadata,
+        timer: setTimeout(() => this.expireSession(sessionId), this.resumeOptions?.gracePeriodMs ?? 30000)
+      };
+    } else {
+      this.endSession(sessionId);
+    }
+    
     // Emit disconnection event
     this.emit('disconnection', {
       sessionId,
-      userId: connection.userId,
-      reason
+      userId,
+      reason,
+      resumable: !!resumable
     });
   }
   
+  private expireSession(sessionId: string): void {
+    const resumable = this.resumableSessions.get(sessionId);
+    if (!resumable?.suspended) return;
+    
+    this.endSession(sessionId);
+    this.emit('session-expired', { sessionId, userId: resumable.userId });
+  }
+  
+  private endSession(sessionId: string): void {
+    // Flush any pending LLM batches
+    if (this.llmProcessor) {
+      this.llmProcessor.flushSession(sessionId).catch(console.error);
+    }
+    
+    // Clean up session data
+    this.closeStream(sessionId);
+    this.containerTracks.delete(sessionId);
+    this.sessionVads.delete(sessionId);
+    this.sessionStats.delete(sessionId);
+    this.sequencers.delete(sessionId);
+    this.finishRecording(sessionId).catch(console.error);
+    
+    const flow = this.flows.get(sessionId);
+    if (flow?.ackTimer) clearTimeout(flow.ackTimer);
+    this.flows.delete(sessionId);
+    
+    const resumable = this.resumableSessions.get(sessionId);
+    if (resumable) {
+      if (resumable.suspended) clearTimeout(resumable.suspended.timer);
+      this.resumeTokens.delete(resumable.token);
+      this.resumableSessions.delete(sessionId);
+    }
+  }
+  
   sendToSession(sessionId: string, message: any): boolean {
     return this.wsManager.sendMessage(sessionId, message);
   }
@@ -315,9 +1131,24 @@ export class AudioStreamServer extends EventEmitter<ServerEvents> {
     // Clean up all connections
     this.wsManager.cleanup();
     
-    // Clean up buffers
-    this.sessionBuffers.clear();
-    this.processingQueue.clear();
+    // Close transcription streams
+    for (const sessionId of Array.from(this.transcriptionStreams.keys())) {
+      this.closeStream(sessionId);
+    }
+    this.containerTracks.clear();
+    this.sessionVads.clear();
+    this.sessionStats.clear();
+    this.sequencers.clear();
+    for (const resumable of this.resumableSessions.values()) {
+      if (resumable.suspended) clearTimeout(resumable.suspended.timer);
+    }
+    this.resumableSessions.clear();
+    this.resumeTokens.clear();
+    for (const flow of this.flows.values()) {
+      if (flow.ackTimer) clearTimeout(flow.ackTimer);
+    }
+    this.flows.clear();
+    await Promise.all(Array.from(this.recorders.keys()).map(sessionId => this.finishRecording(sessionId)));
     
     // Clean up transcription provider
     await this.transcriptionProvider.cleanup();
@@ -9,6 +9,8 @@ export interface LLMProcessorOptions {
   maxBatchSize?: number; // Maximum number of items in a batch
   includeAudio?: boolean; // Whether to include raw audio in LLM requests
   includeTranscript?: boolean; // Whether to include transcripts in LLM requests
+  // Turns a batch of chunks into one playable file; raw chunks are concatenated when it returns null
+  audioResolver?: (sessionId: string, chunks: AudioChunk[]) => Buffer | null;
 }
 
 export interface LLMRequest {
@@ -37,7 +39,7 @@ export interface LLMProcessorEvents {
 
 export class LLMProcessor extends EventEmitter<LLMProcessorEvents> {
   private batchMap: Map<string, {
-    audio: Buffer[];
+    audio: AudioChunk[];
     transcripts: TranscriptionResult[];
     metadata?: Record<string, any>;
     timer?: NodeJS.Timeout;
@@ -63,7 +65,7 @@ export class LLMProcessor extends EventEmitter<LLMProcessorEvents> {
     if (!this.options.includeAudio) return;
     
     const batch = this.getOrCreateBatch(chunk.sessionId);
-    batch.audio.push(chunk.data as Buffer);
+    batch.audio.push(chunk);
     
     this.checkBatchSize(chunk.sessionId);
   }
@@ -131,7 +133,8 @@ export class LLMProcessor extends EventEmitter<LLMProcessorEvents> {
     };
     
     if (batch.audio.length > 0) {
-      request.audio = Buffer.concat(batch.audio);
+      request.audio = this.options.audioResolver?.(sessionId, batch.audio) ??
+        Buffer.concat(batch.audio.map(chunk => Buffer.from(chunk.data as ArrayBuffer)));
     }
     
     if (batch.transcripts.length > 0) {
@@ -0,0 +1,122 @@
+// ABOUTME: Tests for the energy detector and the per-session silence gate
+// ABOUTME: Feeds synthetic 16 kHz PCM: silence, a tone standing in for speech, then silence again
+
+import { EnergyVoiceActivityDetector, SessionVad } from './VoiceActivityDetector';
+import { AudioFormat } from '../common/types';
+
+const PCM: AudioFormat = { mimeType: 'audio/pcm', encoding: 'linear16', sampleRate: 16000, channels: 1, bitDepth: 16 };
+const BYTES_PER_MS = 32;
+
+function silence(ms: number): Buffer {
+  return Buffer.alloc(ms * BYTES_PER_MS);
+}
+
+function tone(ms: number, amplitude = 0.3): Buffer {
+  const samples = ms * 16;
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(Math.sin(2 * Math.PI * 220 * i / 16000) * amplitude * 32767), i * 2);
+  }
+  return buffer;
+}
+
+describe('EnergyVoiceActivityDetector', () => {
+  it('only analyzes 16-bit linear PCM', () => {
+    const detector = new EnergyVoiceActivityDetector();
+    expect(detector.supports(PCM)).toBe(true);
+    expect(detector.supports({ mimeType: 'audio/webm' })).toBe(false);
+    expect(detector.supports({ ...PCM, bitDepth: 8 })).toBe(false);
+  });
+  
+  it('tells a tone from silence and hiss', () => {
+    const detector = new EnergyVoiceActivityDetector();
+    const hiss = Buffer.alloc(640);
+    for (let i = 0; i < 320; i++) hiss.writeInt16LE(i % 2 ? 8000 : -8000, i * 2);
+    
+    expect(detector.isSpeech(silence(20))).toBe(false);
+    expect(detector.isSpeech(tone(20))).toBe(true);
+    expect(detector.isSpeech(hiss)).toBe(false);
+  });
+  
+  it('raises the threshold with the background noise', () => {
+    const detector = new EnergyVoiceActivityDetector({ noiseRatio: 3 });
+    for (let i = 0; i < 50; i++) detector.isSpeech(tone(20, 0.004));
+    
+    expect(detector.isSpeech(tone(20, 0.02))).toBe(true);
+    for (let i = 0; i < 200; i++) detector.isSpeech(tone(20, 0.009));
+    expect(detector.isSpeech(tone(20, 0.02))).toBe(false);
+  });
+});
+
+describe('SessionVad', () => {
+  it('forwards speech with pre-roll and hangover and drops the rest of the silence', async () => {
+    const vad = new SessionVad(PCM);
+    const first = await vad.process(Buffer.concat([silence(1000), tone(500)]));
+    const second = await vad.process(silence(1500));
+    const flushed = await vad.flush();
+    
+    expect(first.events).toEqual([{ type: 'speech-start', audioTime: 1 }]);
+    expect(second.events).toEqual([{ type: 'speech-end', audioTime: 1.5 }]);
+    expect(flushed.events).toEqual([]);
+    
+    const forwardedMs = [...first.forward, ...second.forward].reduce((sum, b) => sum + b.length, 0) / BYTES_PER_MS;
+    // Pre-roll (300 ms plus the onset being confirmed), the tone and the hangover
+    expect(forwardedMs).toBeGreaterThanOrEqual(300 + 500 + 800);
+    expect(forwardedMs).toBeLessThanOrEqual(400 + 500 + 800);
+    
+    const stats = vad.getStats();
+    expect(stats).toMatchObject({ audioMs: 3000, speechMs: 500, silenceMs: 2500, speaking: false });
+    expect(stats.suppressedMs).toBeGreaterThan(0);
+    expect(stats.suppressedMs).toBeLessThanOrEqual(3000 - forwardedMs);
+    expect(stats.silenceRatio).toBeCloseTo(2500 / 3000);
+  });
+  
+  it('ignores clicks shorter than minSpeechMs', async () => {
+    const vad = new SessionVad(PCM, { minSpeechMs: 100 });
+    const result = await vad.process(Buffer.concat([silence(200), tone(40), silence(500)]));
+    
+    expect(result.events).toEqual([]);
+    expect(result.forward).toEqual([]);
+  });
+  
+  it('closes an open utterance on flush', async () => {
+    const vad = new SessionVad(PCM);
+    await vad.process(tone(300));
+    
+    expect((await vad.flush()).events).toEqual([{ type: 'speech-end', audioTime: 0.3 }]);
+  });
+  
+  it('classifies without gating when gateAudio is off', async () => {
+    const vad = new SessionVad(PCM, { gateAudio: false });
+    const chunk = Buffer.concat([silence(200), tone(200)]);
+    const result = await vad.process(chunk);
+    
+    expect(result.forward).toEqual([chunk]);
+    expect(result.events.map(event => event.type)).toEqual(['speech-start']);
+  });
+  
+  it('passes through audio the detector cannot analyze', async () => {
+    const vad = new SessionVad({ mimeType: 'audio/webm', encoding: 'opus' });
+    const chunk = Buffer.from('opaque');
+    
+    expect(await vad.process(chunk)).toEqual({ forward: [chunk], events: [] });
+  });
+  
+  it('uses custom, asynchronous detectors in arrival order', async () => {
+    const seen: number[] = [];
+    const vad = new SessionVad({ mimeType: 'audio/webm' }, {
+      detector: () => ({
+        supports: () => true,
+        isSpeech: async (frame: Buffer) => {
+          await new Promise(resolve => setTimeout(resolve, frame[0] === 1 ? 20 : 0));
+          seen.push(frame[0]);
+          return true;
+        }
+      })
+    });
+    
+    await Promise.all([vad.process(Buffer.from([1]), 100), vad.process(Buffer.from([2]), 100)]);
+    expect(seen).toEqual([1, 2]);
+    expect(vad.getStats().speaking).toBe(true);
+  });
+});
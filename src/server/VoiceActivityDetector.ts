@@ -0,0 +1,215 @@
+// ABOUTME: Voice activity detection that gates silent audio before it reaches the transcription provider
+// ABOUTME: Ships an energy/zero-crossing detector for linear PCM and a per-session gate with pre-roll and hangover
+
+import { AudioFormat, VadOptions, VadStats, VoiceActivityDetector } from '../common/types';
+import { isLinearPcm } from '../common/audioFormat';
+import { pcm16Rms } from '../common/wav';
+
+export interface EnergyVoiceActivityDetectorOptions {
+  threshold?: number; // Minimum RMS level (0..1) counted as speech
+  noiseRatio?: number; // Speech must be this many times louder than the tracked noise floor
+  maxZeroCrossingRate?: number; // Frames crossing zero more often than this (per sample) are treated as hiss
+}
+
+export interface VadEvent {
+  type: 'speech-start' | 'speech-end';
+  audioTime: number; // Seconds of session audio
+}
+
+export interface VadResult {
+  forward: Buffer[]; // Audio to send to the provider, in order
+  events: VadEvent[];
+}
+
+interface PendingFrame {
+  data: Buffer;
+  durationMs: number;
+}
+
+export class EnergyVoiceActivityDetector implements VoiceActivityDetector {
+  private noiseFloor: number | null = null;
+  
+  constructor(private options: EnergyVoiceActivityDetectorOptions = {}) {}
+  
+  supports(format: AudioFormat): boolean {
+    return isLinearPcm(format) && (format.bitDepth ?? 16) === 16;
+  }
+  
+  isSpeech(frame: Buffer): boolean {
+    const rms = pcm16Rms(frame);
+    const threshold = Math.max(
+      this.options.threshold ?? 0.01,
+      (this.noiseFloor ?? 0) * (this.options.noiseRatio ?? 3)
+    );
+    const speech = rms >= threshold && zeroCrossingRate(frame) <= (this.options.maxZeroCrossingRate ?? 0.35);
+    
+    // Follow slow changes in background noise
+    if (!speech) {
+      this.noiseFloor = this.noiseFloor === null ? rms : this.noiseFloor * 0.95 + rms * 0.05;
+    }
+    
+    return speech;
+  }
+}
+
+function zeroCrossingRate(frame: Buffer): number {
+  const samples = Math.floor(frame.length / 2);
+  if (samples < 2) return 0;
+  
+  let crossings = 0;
+  let previous = frame.readInt16LE(0);
+  for (let i = 1; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2);
+    if ((sample >= 0) !== (previous >= 0)) crossings++;
+    previous = sample;
+  }
+  
+  return crossings / (samples - 1);
+}
+
+export class SessionVad {
+  private detector: VoiceActivityDetector;
+  private queue: Promise<unknown> = Promise.resolve();
+  private leftover: Buffer = Buffer.alloc(0);
+  private preRoll: PendingFrame[] = [];
+  private candidateMs = 0;
+  private silenceRunMs = 0;
+  private speaking = false;
+  private stats = { audioMs: 0, speechMs: 0, silenceMs: 0, suppressedMs: 0 };
+  
+  constructor(private format: AudioFormat, private options: VadOptions = {}) {
+    this.detector = options.detector?.() ?? new EnergyVoiceActivityDetector();
+  }
+  
+  // Chunks are analyzed one at a time in arrival order, even with asynchronous detectors
+  process(chunk: Buffer, durationMs?: number): Promise<VadResult> {
+    const result = this.queue.then(() => this.analyze(chunk, durationMs));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+  
+  // Releases the trailing partial frame and closes an open utterance, e.g. when recording stops
+  flush(): Promise<VadResult> {
+    const result = this.queue.then((): VadResult => {
+      const forward = this.gating && this.speaking && this.leftover.length > 0 ? [this.leftover] : [];
+      const events: VadEvent[] = this.speaking ? [{ type: 'speech-end', audioTime: this.stats.audioMs / 1000 }] : [];
+      
+      this.resetState();
+      return { forward, events };
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+  
+  // A new recording may use another format; counters keep covering the whole session
+  restart(format: AudioFormat): void {
+    this.queue = this.queue.then(() => {
+      this.format = format;
+      this.detector = this.options.detector?.() ?? new EnergyVoiceActivityDetector();
+      this.resetState();
+    });
+  }
+  
+  getStats(): VadStats {
+    const { audioMs, speechMs, silenceMs, suppressedMs } = this.stats;
+    return {
+      audioMs: Math.round(audioMs),
+      speechMs: Math.round(speechMs),
+      silenceMs: Math.round(silenceMs),
+      suppressedMs: Math.round(suppressedMs),
+      silenceRatio: audioMs > 0 ? silenceMs / audioMs : 0,
+      speaking: this.speaking
+    };
+  }
+  
+  private resetState(): void {
+    this.leftover = Buffer.alloc(0);
+    this.preRoll = [];
+    this.candidateMs = 0;
+    this.silenceRunMs = 0;
+    this.speaking = false;
+  }
+  
+  private get gating(): boolean {
+    return this.options.gateAudio !== false && isLinearPcm(this.format);
+  }
+  
+  private async analyze(chunk: Buffer, durationMs?: number): Promise<VadResult> {
+    if (!this.detector.supports(this.format)) {
+      return { forward: [chunk], events: [] };
+    }
+    
+    const result: VadResult = { forward: [], events: [] };
+    
+    if (!isLinearPcm(this.format)) {
+      // Compressed audio cannot be cut safely, so it is only classified
+      await this.handleFrame({ data: chunk, durationMs: durationMs ?? 0 }, result);
+      return { forward: [chunk], events: result.events };
+    }
+    
+    const bytesPerMs = (this.format.sampleRate || 16000) * (this.format.channels || 1) * 2 / 1000;
+    const frameBytes = Math.max(2, Math.round(bytesPerMs * (this.options.frameMs ?? 20) / 2) * 2);
+    
+    let audio = this.leftover.length > 0 ? Buffer.concat([this.leftover, chunk]) : chunk;
+    while (audio.length >= frameBytes) {
+      const data = audio.subarray(0, frameBytes);
+      audio = audio.subarray(frameBytes);
+      await this.handleFrame({ data, durationMs: frameBytes / bytesPerMs }, result);
+    }
+    this.leftover = Buffer.from(audio);
+    
+    if (!this.gating) {
+      result.forward = [chunk];
+    }
+    return result;
+  }
+  
+  private async handleFrame(frame: PendingFrame, result: VadResult): Promise<void> {
+    const speech = await this.detector.isSpeech(frame.data, this.format);
+    const frameStart = this.stats.audioMs;
+    this.stats.audioMs += frame.durationMs;
+    if (speech) {
+      this.stats.speechMs += frame.durationMs;
+    } else {
+      this.stats.silenceMs += frame.durationMs;
+    }
+    
+    if (this.speaking) {
+      result.forward.push(frame.data);
+      this.silenceRunMs = speech ? 0 : this.silenceRunMs + frame.durationMs;
+      
+      if (this.silenceRunMs >= (this.options.hangoverMs ?? 800)) {
+        this.speaking = false;
+        result.events.push({ type: 'speech-end', audioTime: (this.stats.audioMs - this.silenceRunMs) / 1000 });
+        this.silenceRunMs = 0;
+      }
+      return;
+    }
+    
+    this.candidateMs = speech ? this.candidateMs + frame.durationMs : 0;
+    if (this.gating) {
+      this.preRoll.push(frame);
+    }
+    
+    if (this.candidateMs >= (this.options.minSpeechMs ?? 100)) {
+      this.speaking = true;
+      result.events.push({
+        type: 'speech-start',
+        audioTime: (frameStart + frame.durationMs - this.candidateMs) / 1000
+      });
+      result.forward.push(...this.preRoll.map(pending => pending.data));
+      this.preRoll = [];
+      this.candidateMs = 0;
+      return;
+    }
+    
+    // Keep the pre-roll plus the speech that may be about to open the gate
+    const keepMs = (this.options.preRollMs ?? 300) + this.candidateMs;
+    let bufferedMs = this.preRoll.reduce((sum, pending) => sum + pending.durationMs, 0);
+    while (this.preRoll.length > 0 && bufferedMs > keepMs) {
+      const dropped = this.preRoll.shift()!;
+      bufferedMs -= dropped.durationMs;
+      this.stats.suppressedMs += dropped.durationMs;
+    }
+  }
+}
@@ -69,7 +69,10 @@ export class WebSocketManager extends EventEmitter {
     });
     
     ws.on('close', () => {
-      this.removeConnection(sessionId);
+      // A client that reconnected with the same session ID has already replaced this socket
+      if (this.connections.get(sessionId)?.ws === ws) {
+        this.removeConnection(sessionId);
+      }
     });
     
     this.emit('connection-added', { sessionId, userId });
@@ -4,10 +4,89 @@
 export { AudioStreamServer } from './AudioStreamServer';
 export { WebSocketManager } from './WebSocketManager';
 export { LLMProcessor } from './LLMProcessor';
+export { EnergyVoiceActivityDetector, SessionVad } from './VoiceActivityDetector';
+export type { EnergyVoiceActivityDetectorOptions, VadEvent, VadResult } from './VoiceActivityDetector';
+export { AudioSequencer } from './AudioSequencer';
+export type { AudioSequencerOptions, SequencedChunk } from './AudioSequencer';
+export { encodeSequencedChunk, decodeSequencedChunk, SEQUENCE_HEADER_SIZE } from '../common/sequence';
+export {
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ProtocolError,
+  parseClientMessage,
+  parseServerMessage,
+  negotiateProtocolVersion
+} from '../common/protocol';
+export type { ClientMessage, ServerMessage, ProtocolErrorCode, ProtocolFeature } from '../common/protocol';
+export {
+  SessionRecorder,
+  FileSystemRecordingStorage,
+  ObjectStoreRecordingStorage,
+  MemoryObjectStore
+} from './recording';
+export { MemoryTranscriptStore, JsonlTranscriptStore } from './transcripts';
+export type { MemoryTranscriptStoreOptions, JsonlTranscriptStoreOptions } from './transcripts';
+export type {
+  SessionRecorderOptions,
+  FileSystemRecordingStorageOptions,
+  ObjectStore,
+  ObjectStorePart,
+  ObjectStoreRecordingStorageOptions
+} from './recording';
+export { ContainerAudioTrack, WebmDemuxer, OggDemuxer, detectContainer } from '../common/media';
+export type {
+  ContainerAudioTrackOptions,
+  ContainerDemuxer,
+  ContainerType,
+  MediaFrame,
+  AudioTrackInfo
+} from '../common/media';
 export { DeepgramProvider } from '../providers/DeepgramProvider';
+export { BaseTranscriptionStream } from '../providers/TranscriptionStream';
+export { RequestResponseAdapter } from '../providers/RequestResponseAdapter';
+export { MockTranscriptionProvider } from '../providers/MockTranscriptionProvider';
+export type {
+  ProcessTranscriptionProviderOptions,
+  ProcessOutput
+} from '../providers/ProcessTranscriptionProvider';
+export type { HttpBatchTranscriptionProviderOptions } from '../providers/HttpBatchTranscriptionProvider';
+export type {
+  FallbackTranscriptionProviderOptions,
+  FallbackProviderEntry,
+  CircuitState
+} from '../providers/FallbackTranscriptionProvider';
+export type {
+  ProviderRouterOptions,
+  ProviderRouteContext,
+  ProviderSource
+} from '../providers/ProviderRouter';
+export { HttpBatchTranscriptionProvider } from '../providers/HttpBatchTranscriptionProvider';
+export { FallbackTranscriptionProvider } from '../providers/FallbackTranscriptionProvider';
+export { ProviderRouter } from '../providers/ProviderRouter';
+export { splitBySpeaker, findWordAt } from '../common/transcript';
+export {
+  exportTranscript,
+  toSrt,
+  toWebVtt,
+  toTranscriptJson,
+  toPlainText,
+  buildCaptionCues
+} from '../common/transcriptExport';
+export type { TranscriptExportFormat, TranscriptExportOptions, CaptionCue } from '../common/transcriptExport';
+export { negotiateAudioFormat, normalizeAudioFormat, supportsAudioFormat } from '../common/audioFormat';
+export type { AudioFormatNegotiation } from '../common/audioFormat';
+export {
+  ProcessTranscriptionProvider,
+  parseProcessOutputLine
+} from '../providers/ProcessTranscriptionProvider';
 
 // Export types
 export type { DeepgramProviderOptions } from '../providers/DeepgramProvider';
+export type {
+  MockTranscriptionProviderOptions,
+  MockScriptEntry,
+  MockWord
+} from '../providers/MockTranscriptionProvider';
 export type { 
   LLMProcessorOptions, 
   LLMRequest, 
@@ -0,0 +1,42 @@
+// ABOUTME: Tests for recording storage in a local directory
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystemRecordingStorage } from './FileSystemRecordingStorage';
+
+describe('FileSystemRecordingStorage', () => {
+  let directory: string;
+  let storage: FileSystemRecordingStorage;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'recordings-'));
+    storage = new FileSystemRecordingStorage({ directory });
+  });
+  
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+  
+  it('appends to a .part file and renames it into place with the final header', async () => {
+    await storage.create('session/1.wav');
+    await storage.append('session/1.wav', Buffer.from('....audio'));
+    expect(await storage.read('session/1.wav')).toBeNull();
+    
+    const location = await storage.complete('session/1.wav', Buffer.from('HDR!'));
+    expect(location).toBe(path.join(directory, 'session', '1.wav'));
+    expect((await storage.read('session/1.wav'))!.toString()).toBe('HDR!audio');
+    expect(await fs.readdir(path.join(directory, 'session'))).toEqual(['1.wav']);
+  });
+  
+  it('removes the partial file on abort', async () => {
+    await storage.create('x.webm');
+    await storage.abort('x.webm');
+    
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+  
+  it('refuses keys outside the directory', async () => {
+    await expect(storage.create('../escape.wav')).rejects.toThrow('Recording key escapes the storage directory');
+  });
+});
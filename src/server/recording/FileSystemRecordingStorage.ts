@@ -0,0 +1,65 @@
+// ABOUTME: RecordingStorage that writes recordings to a local directory
+// ABOUTME: Audio is appended to a .part file that is renamed into place once the recording is complete
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RecordingStorage } from '../../common/types';
+
+export interface FileSystemRecordingStorageOptions {
+  directory: string;
+}
+
+export class FileSystemRecordingStorage implements RecordingStorage {
+  private root: string;
+  
+  constructor(options: FileSystemRecordingStorageOptions) {
+    this.root = path.resolve(options.directory);
+  }
+  
+  async create(key: string): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.part`, Buffer.alloc(0));
+  }
+  
+  async append(key: string, data: Buffer): Promise<void> {
+    await fs.appendFile(`${this.pathFor(key)}.part`, data);
+  }
+  
+  async complete(key: string, header?: Buffer): Promise<string> {
+    const file = this.pathFor(key);
+    
+    if (header) {
+      const handle = await fs.open(`${file}.part`, 'r+');
+      try {
+        await handle.write(header, 0, header.length, 0);
+      } finally {
+        await handle.close();
+      }
+    }
+    
+    await fs.rename(`${file}.part`, file);
+    return file;
+  }
+  
+  async abort(key: string): Promise<void> {
+    await fs.rm(`${this.pathFor(key)}.part`, { force: true });
+  }
+  
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+  
+  private pathFor(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Recording key escapes the storage directory: ${key}`);
+    }
+    return file;
+  }
+}
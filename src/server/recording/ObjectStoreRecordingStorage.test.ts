@@ -0,0 +1,35 @@
+// ABOUTME: Tests for multipart-upload recording storage and the in-memory object store
+
+import { ObjectStoreRecordingStorage, MemoryObjectStore } from './ObjectStoreRecordingStorage';
+
+describe('ObjectStoreRecordingStorage', () => {
+  it('uploads full parts as they fill and the header part last', async () => {
+    const store = new MemoryObjectStore();
+    const uploadPart = jest.spyOn(store, 'uploadPart');
+    const storage = new ObjectStoreRecordingStorage({ store, partSize: 4 });
+    
+    await storage.create('a.wav', 'audio/wav');
+    await storage.append('a.wav', Buffer.from('0123'));
+    await storage.append('a.wav', Buffer.from('4567'));
+    await storage.append('a.wav', Buffer.from('89'));
+    expect(uploadPart.mock.calls.map(call => call[2])).toEqual([2]);
+    
+    expect(await storage.complete('a.wav', Buffer.from('HD'))).toBe('a.wav');
+    expect(uploadPart.mock.calls.map(call => call[2])).toEqual([2, 3, 1]);
+    expect((await storage.read('a.wav'))!.toString()).toBe('HD23456789');
+  });
+  
+  it('aborts uploads and rejects appends to unknown keys', async () => {
+    const store = new MemoryObjectStore();
+    const abort = jest.spyOn(store, 'abortMultipartUpload');
+    const storage = new ObjectStoreRecordingStorage({ store });
+    
+    await storage.create('b.webm', 'audio/webm');
+    await storage.abort('b.webm');
+    await storage.abort('b.webm');
+    
+    expect(abort).toHaveBeenCalledTimes(1);
+    await expect(storage.append('b.webm', Buffer.from('x'))).rejects.toThrow('No recording in progress for key b.webm');
+    expect(await storage.read('b.webm')).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+// ABOUTME: RecordingStorage on top of an S3-style object store using multipart uploads
+// ABOUTME: The first part is held back until the end so the file header can still be rewritten
+
+import { RecordingStorage } from '../../common/types';
+
+// The subset of S3's multipart API the storage needs; adapt your SDK client to it
+export interface ObjectStore {
+  createMultipartUpload(key: string, contentType: string): Promise<string>; // Returns the upload ID
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string>; // Returns the ETag
+  completeMultipartUpload(key: string, uploadId: string, parts: ObjectStorePart[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+  getObject(key: string): Promise<Buffer | null>;
+}
+
+export interface ObjectStorePart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface ObjectStoreRecordingStorageOptions {
+  store: ObjectStore;
+  partSize?: number; // Bytes per uploaded part; S3 requires at least 5 MiB for all but the last
+  locationPrefix?: string; // Prepended to keys in returned locations, e.g. 's3://bucket/'
+}
+
+interface Upload {
+  uploadId: string;
+  first: Buffer[];
+  firstBytes: number;
+  pending: Buffer[];
+  pendingBytes: number;
+  parts: ObjectStorePart[];
+}
+
+export class ObjectStoreRecordingStorage implements RecordingStorage {
+  private uploads: Map<string, Upload> = new Map();
+  private partSize: number;
+  
+  constructor(private options: ObjectStoreRecordingStorageOptions) {
+    this.partSize = options.partSize ?? 5 * 1024 * 1024;
+  }
+  
+  async create(key: string, contentType: string): Promise<void> {
+    const uploadId = await this.options.store.createMultipartUpload(key, contentType);
+    this.uploads.set(key, { uploadId, first: [], firstBytes: 0, pending: [], pendingBytes: 0, parts: [] });
+  }
+  
+  async append(key: string, data: Buffer): Promise<void> {
+    const upload = this.getUpload(key);
+    
+    // Part 1 is filled first and uploaded last, once its header is final
+    const room = this.partSize - upload.firstBytes;
+    if (room > 0) {
+      upload.first.push(data.subarray(0, room));
+      upload.firstBytes += Math.min(room, data.length);
+      data = data.subarray(room);
+    }
+    if (data.length === 0) return;
+    
+    upload.pending.push(data);
+    upload.pendingBytes += data.length;
+    if (upload.pendingBytes >= this.partSize) {
+      await this.uploadPending(key, upload);
+    }
+  }
+  
+  async complete(key: string, header?: Buffer): Promise<string> {
+    const upload = this.getUpload(key);
+    if (upload.pendingBytes > 0) {
+      await this.uploadPending(key, upload);
+    }
+    
+    const first = Buffer.concat(upload.first);
+    if (header) {
+      header.copy(first, 0, 0, Math.min(header.length, first.length));
+    }
+    const etag = await this.options.store.uploadPart(key, upload.uploadId, 1, first);
+    upload.parts.unshift({ partNumber: 1, etag });
+    
+    await this.options.store.completeMultipartUpload(key, upload.uploadId, upload.parts);
+    this.uploads.delete(key);
+    return `${this.options.locationPrefix || ''}${key}`;
+  }
+  
+  async abort(key: string): Promise<void> {
+    const upload = this.uploads.get(key);
+    if (!upload) return;
+    
+    this.uploads.delete(key);
+    await this.options.store.abortMultipartUpload(key, upload.uploadId);
+  }
+  
+  read(key: string): Promise<Buffer | null> {
+    return this.options.store.getObject(key);
+  }
+  
+  private getUpload(key: string): Upload {
+    const upload = this.uploads.get(key);
+    if (!upload) {
+      throw new Error(`No recording in progress for key ${key}`);
+    }
+    return upload;
+  }
+  
+  private async uploadPending(key: string, upload: Upload): Promise<void> {
+    const body = Buffer.concat(upload.pending);
+    upload.pending = [];
+    upload.pendingBytes = 0;
+    
+    const partNumber = upload.parts.length + 2;
+    const etag = await this.options.store.uploadPart(key, upload.uploadId, partNumber, body);
+    upload.parts.push({ partNumber, etag });
+  }
+}
+
+// In-process ObjectStore for development and tests
+export class MemoryObjectStore implements ObjectStore {
+  private objects: Map<string, Buffer> = new Map();
+  private uploads: Map<string, Map<number, Buffer>> = new Map();
+  private nextUploadId = 1;
+  
+  async createMultipartUpload(key: string): Promise<string> {
+    const uploadId = `${key}#${this.nextUploadId++}`;
+    this.uploads.set(uploadId, new Map());
+    return uploadId;
+  }
+  
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    const parts = this.uploads.get(uploadId);
+    if (!parts) throw new Error(`Unknown upload ${uploadId}`);
+    
+    parts.set(partNumber, Buffer.from(body));
+    return `${uploadId}:${partNumber}`;
+  }
+  
+  async completeMultipartUpload(key: string, uploadId: string, parts: ObjectStorePart[]): Promise<void> {
+    const uploaded = this.uploads.get(uploadId);
+    if (!uploaded) throw new Error(`Unknown upload ${uploadId}`);
+    
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    this.objects.set(key, Buffer.concat(ordered.map(part => uploaded.get(part.partNumber) || Buffer.alloc(0))));
+    this.uploads.delete(uploadId);
+  }
+  
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    this.uploads.delete(uploadId);
+  }
+  
+  async getObject(key: string): Promise<Buffer | null> {
+    return this.objects.get(key) || null;
+  }
+}
@@ -0,0 +1,75 @@
+// ABOUTME: Tests for the per-recording writer
+// ABOUTME: Uses the in-memory object store so the stored bytes can be inspected directly
+
+import { SessionRecorder } from './SessionRecorder';
+import { ObjectStoreRecordingStorage, MemoryObjectStore } from './ObjectStoreRecordingStorage';
+import { parseWavHeader, WAV_HEADER_SIZE } from '../../common/wav';
+import { RecordingStorage } from '../../common/types';
+
+const PCM = { mimeType: 'audio/pcm', encoding: 'linear16', sampleRate: 16000, channels: 1, bitDepth: 16 };
+
+function memoryStorage() {
+  const store = new MemoryObjectStore();
+  return { store, storage: new ObjectStoreRecordingStorage({ store, partSize: 64, locationPrefix: 'mem://' }) };
+}
+
+describe('SessionRecorder', () => {
+  it('wraps linear PCM in a WAV header sized on finish', async () => {
+    const { store, storage } = memoryStorage();
+    const recorder = new SessionRecorder({ storage, sessionId: 'session-1', format: PCM, keyPrefix: 'calls/' });
+    recorder.write(Buffer.alloc(100, 1));
+    recorder.write(Buffer.alloc(60, 2));
+    
+    const info = await recorder.finish();
+    expect(recorder.key).toMatch(/^calls\/session-1\/\d+\.wav$/);
+    expect(info).toMatchObject({
+      sessionId: 'session-1',
+      key: recorder.key,
+      location: `mem://${recorder.key}`,
+      contentType: 'audio/wav',
+      bytes: 160 + WAV_HEADER_SIZE
+    });
+    
+    const stored = (await store.getObject(recorder.key))!;
+    expect(stored.length).toBe(160 + WAV_HEADER_SIZE);
+    expect(parseWavHeader(stored)).toMatchObject({ sampleRate: 16000, dataLength: 160 });
+    expect(stored.subarray(WAV_HEADER_SIZE + 100)).toEqual(Buffer.alloc(60, 2));
+  });
+  
+  it('stores container audio as sent under the container extension', async () => {
+    const { store, storage } = memoryStorage();
+    const recorder = new SessionRecorder({ storage, sessionId: 's', format: { mimeType: 'audio/webm;codecs=opus' } });
+    recorder.write(Buffer.from('webm bytes'));
+    
+    expect(await recorder.finish()).toMatchObject({ contentType: 'audio/webm', bytes: 10 });
+    expect(recorder.key).toMatch(/\.webm$/);
+    expect(await store.getObject(recorder.key)).toEqual(Buffer.from('webm bytes'));
+  });
+  
+  it('discards a recording without audio', async () => {
+    const { store, storage } = memoryStorage();
+    const recorder = new SessionRecorder({ storage, sessionId: 's', format: PCM });
+    
+    expect(await recorder.finish()).toBeNull();
+    expect(await store.getObject(recorder.key)).toBeNull();
+  });
+  
+  it('skips the remaining audio after a storage error and reports it from finish', async () => {
+    const append = jest.fn().mockRejectedValueOnce(new Error('disk full')).mockResolvedValue(undefined);
+    const storage: RecordingStorage = {
+      create: jest.fn().mockResolvedValue(undefined),
+      append,
+      complete: jest.fn(),
+      abort: jest.fn().mockResolvedValue(undefined),
+      read: jest.fn()
+    };
+    const recorder = new SessionRecorder({ storage, sessionId: 's', format: { mimeType: 'audio/ogg' } });
+    recorder.write(Buffer.from('a'));
+    recorder.write(Buffer.from('b'));
+    
+    await expect(recorder.finish()).rejects.toThrow('disk full');
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(storage.abort).toHaveBeenCalledWith(recorder.key);
+    expect(storage.complete).not.toHaveBeenCalled();
+  });
+});
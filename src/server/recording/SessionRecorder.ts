@@ -0,0 +1,100 @@
+// ABOUTME: Writes one recording's audio to a RecordingStorage as it arrives
+// ABOUTME: Picks the file type from the negotiated format and wraps linear PCM in a WAV header on finish
+
+import { AudioFormat, RecordingInfo, RecordingStorage } from '../../common/types';
+import { isLinearPcm, parseMimeType } from '../../common/audioFormat';
+import { createWavHeader } from '../../common/wav';
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+export interface SessionRecorderOptions {
+  storage: RecordingStorage;
+  sessionId: string;
+  format: AudioFormat;
+  keyPrefix?: string;
+}
+
+export class SessionRecorder {
+  readonly key: string;
+  readonly contentType: string;
+  private queue: Promise<void>;
+  private bytes = 0;
+  private failed: Error | null = null;
+  private startedAt = Date.now();
+  
+  constructor(private options: SessionRecorderOptions) {
+    const baseType = parseMimeType(options.format.mimeType).baseType;
+    const pcm = isLinearPcm(options.format);
+    this.contentType = pcm ? 'audio/wav' : baseType;
+    
+    const extension = EXTENSIONS[this.contentType] || 'bin';
+    this.key = `${options.keyPrefix || ''}${options.sessionId}/${this.startedAt}.${extension}`;
+    
+    this.queue = this.run(async () => {
+      await options.storage.create(this.key, this.contentType);
+      
+      // Sizes are unknown until the recording ends; the header is rewritten then
+      if (pcm) {
+        await options.storage.append(this.key, Buffer.from(this.wavHeader(0)));
+      }
+    });
+  }
+  
+  write(data: Buffer): void {
+    this.bytes += data.length;
+    this.queue = this.run(() => this.options.storage.append(this.key, data));
+  }
+  
+  // Resolves with the stored recording, or null when nothing was recorded
+  async finish(): Promise<RecordingInfo | null> {
+    await this.queue;
+    const { storage, sessionId, format } = this.options;
+    
+    if (this.failed || this.bytes === 0) {
+      await storage.abort(this.key).catch(() => undefined);
+      if (this.failed) throw this.failed;
+      return null;
+    }
+    
+    const header = isLinearPcm(format) ? Buffer.from(this.wavHeader(this.bytes)) : undefined;
+    const location = await storage.complete(this.key, header);
+    
+    return {
+      sessionId,
+      key: this.key,
+      location,
+      format,
+      contentType: this.contentType,
+      bytes: this.bytes + (header?.length ?? 0),
+      startedAt: this.startedAt,
+      endedAt: Date.now()
+    };
+  }
+  
+  // After a storage error the remaining audio is skipped and finish() reports the error
+  private run(operation: () => Promise<void>): Promise<void> {
+    return (this.queue ?? Promise.resolve()).then(async () => {
+      if (this.failed) return;
+      try {
+        await operation();
+      } catch (error) {
+        this.failed = error as Error;
+      }
+    });
+  }
+  
+  private wavHeader(dataLength: number): Uint8Array {
+    const { format } = this.options;
+    return createWavHeader(dataLength, {
+      sampleRate: format.sampleRate || 16000,
+      channels: format.channels,
+      bitDepth: format.bitDepth
+    });
+  }
+}
@@ -0,0 +1,13 @@
+// ABOUTME: Server-side recording of session audio
+// ABOUTME: Re-exports the per-recording writer and the filesystem and object-store storages
+
+export { SessionRecorder } from './SessionRecorder';
+export { FileSystemRecordingStorage } from './FileSystemRecordingStorage';
+export { ObjectStoreRecordingStorage, MemoryObjectStore } from './ObjectStoreRecordingStorage';
+export type { SessionRecorderOptions } from './SessionRecorder';
+export type { FileSystemRecordingStorageOptions } from './FileSystemRecordingStorage';
+export type {
+  ObjectStore,
+  ObjectStorePart,
+  ObjectStoreRecordingStorageOptions
+} from './ObjectStoreRecordingStorage';
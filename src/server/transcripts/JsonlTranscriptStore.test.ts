@@ -0,0 +1,63 @@
+// ABOUTME: Tests for the JSON-lines transcript history file
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonlTranscriptStore } from './JsonlTranscriptStore';
+
+describe('JsonlTranscriptStore', () => {
+  let directory: string;
+  let file: string;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'transcripts-'));
+    file = path.join(directory, 'nested', 'history.jsonl');
+  });
+  
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+  
+  it('appends one line per result and reloads them after a restart', async () => {
+    const store = new JsonlTranscriptStore({ file });
+    await Promise.all([1, 2, 3].map(n =>
+      store.append({ transcript: `line ${n}`, sessionId: 's', userId: 'u', storedAt: n })
+    ));
+    
+    expect((await fs.readFile(file, 'utf8')).trim().split('\n')).toHaveLength(3);
+    
+    const reopened = new JsonlTranscriptStore({ file });
+    expect((await reopened.getSession('s')).map(result => result.transcript)).toEqual(['line 1', 'line 2', 'line 3']);
+    expect(await reopened.listSessions('u')).toEqual([
+      { sessionId: 's', userId: 'u', resultCount: 3, firstAt: 1, lastAt: 3 }
+    ]);
+  });
+  
+  it('keeps only the most recent sessions in memory when maxSessions is set', async () => {
+    const store = new JsonlTranscriptStore({ file });
+    for (const sessionId of ['s1', 's2', 's3']) {
+      await store.append({ transcript: sessionId, sessionId, userId: 'u', storedAt: 1 });
+    }
+    
+    const bounded = new JsonlTranscriptStore({ file, maxSessions: 2 });
+    expect((await bounded.listSessions('u')).map(session => session.sessionId).sort()).toEqual(['s2', 's3']);
+    expect(await bounded.getSession('s1')).toEqual([]);
+    expect((await fs.readFile(file, 'utf8')).trim().split('\n')).toHaveLength(3);
+  });
+  
+  it('skips a truncated last line and starts new lines after it', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ transcript: 'ok', sessionId: 's', storedAt: 1 }) + '\n{"transcr');
+    
+    const store = new JsonlTranscriptStore({ file });
+    await store.append({ transcript: 'after', sessionId: 's', storedAt: 2 });
+    
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping unreadable transcript line 2'));
+    expect((await store.query({ sessionId: 's' })).results.map(result => result.transcript)).toEqual(['ok', 'after']);
+    
+    const reopened = new JsonlTranscriptStore({ file });
+    expect((await reopened.getSession('s')).map(result => result.transcript)).toEqual(['ok', 'after']);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,94 @@
+// ABOUTME: TranscriptStore that appends every result as one JSON line to a file
+// ABOUTME: The file is read once into an in-memory index, so history survives restarts
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  StoredTranscript,
+  TranscriptPage,
+  TranscriptQuery,
+  TranscriptSessionSummary
+} from '../../common/types';
+import { MemoryTranscriptStore, MemoryTranscriptStoreOptions } from './MemoryTranscriptStore';
+
+// maxSessions bounds the in-memory index; the file keeps every line
+export interface JsonlTranscriptStoreOptions extends MemoryTranscriptStoreOptions {
+  file: string;
+}
+
+export class JsonlTranscriptStore extends MemoryTranscriptStore {
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  
+  constructor(private jsonlOptions: JsonlTranscriptStoreOptions) {
+    super(jsonlOptions);
+  }
+  
+  async append(transcript: StoredTranscript): Promise<void> {
+    await this.load();
+    
+    // Lines are written one at a time so concurrent results never interleave
+    const write = this.writes.then(() =>
+      fs.appendFile(this.jsonlOptions.file, JSON.stringify(transcript) + '\n')
+    );
+    this.writes = write.catch(() => undefined);
+    await write;
+    
+    this.index(transcript);
+  }
+  
+  async getSession(sessionId: string): Promise<StoredTranscript[]> {
+    await this.load();
+    return super.getSession(sessionId);
+  }
+  
+  async listSessions(userId: string): Promise<TranscriptSessionSummary[]> {
+    await this.load();
+    return super.listSessions(userId);
+  }
+  
+  async query(query: TranscriptQuery): Promise<TranscriptPage> {
+    await this.load();
+    return super.query(query);
+  }
+  
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+      // A failed read is retried on the next call
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+  
+  private async readFile(): Promise<void> {
+    const { file } = this.jsonlOptions;
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    
+    let contents: string;
+    try {
+      contents = await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    
+    // Start new lines after a truncated one instead of continuing it
+    if (contents.length > 0 && !contents.endsWith('\n')) {
+      await fs.appendFile(file, '\n');
+    }
+    
+    const lines = contents.split('\n');
+    lines.forEach((line, lineNumber) => {
+      if (!line.trim()) return;
+      try {
+        this.index(JSON.parse(line));
+      } catch {
+        // A crash mid-write can leave a truncated last line
+        console.warn(`Skipping unreadable transcript line ${lineNumber + 1} in ${file}`);
+      }
+    });
+  }
+}
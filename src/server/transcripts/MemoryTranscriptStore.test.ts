@@ -0,0 +1,77 @@
+// ABOUTME: Tests for the in-memory transcript history: lookups, summaries, paging and eviction
+
+import { MemoryTranscriptStore } from './MemoryTranscriptStore';
+import { StoredTranscript } from '../../common/types';
+
+function stored(sessionId: string, storedAt: number, userId?: string): StoredTranscript {
+  return { transcript: `${sessionId}@${storedAt}`, isFinal: true, sessionId, userId, storedAt };
+}
+
+async function fill(store: MemoryTranscriptStore): Promise<void> {
+  await store.append(stored('a', 10, 'alice'));
+  await store.append(stored('b', 20, 'bob'));
+  await store.append(stored('a', 30, 'alice'));
+  await store.append(stored('c', 40, 'alice'));
+  await store.append(stored('anon', 50));
+}
+
+describe('MemoryTranscriptStore', () => {
+  it('returns a copy of a session in order', async () => {
+    const store = new MemoryTranscriptStore();
+    await fill(store);
+    
+    const session = await store.getSession('a');
+    session.pop();
+    expect((await store.getSession('a')).map(result => result.storedAt)).toEqual([10, 30]);
+    expect(await store.getSession('missing')).toEqual([]);
+  });
+  
+  it('summarizes a user\'s sessions, most recent first', async () => {
+    const store = new MemoryTranscriptStore();
+    await fill(store);
+    
+    expect(await store.listSessions('alice')).toEqual([
+      { sessionId: 'c', userId: 'alice', resultCount: 1, firstAt: 40, lastAt: 40 },
+      { sessionId: 'a', userId: 'alice', resultCount: 2, firstAt: 10, lastAt: 30 }
+    ]);
+    expect(await store.listSessions('nobody')).toEqual([]);
+  });
+  
+  it('queries by user and time range, oldest first', async () => {
+    const store = new MemoryTranscriptStore();
+    await fill(store);
+    
+    const byUser = await store.query({ userId: 'alice' });
+    expect(byUser.results.map(result => result.storedAt)).toEqual([10, 30, 40]);
+    expect(byUser.nextCursor).toBeUndefined();
+    
+    const ranged = await store.query({ from: 20, to: 50 });
+    expect(ranged.results.map(result => result.storedAt)).toEqual([20, 30, 40]);
+    
+    const scoped = await store.query({ sessionId: 'a', userId: 'bob' });
+    expect(scoped.results).toEqual([]);
+  });
+  
+  it('pages with a cursor', async () => {
+    const store = new MemoryTranscriptStore();
+    await fill(store);
+    
+    const first = await store.query({ limit: 2 });
+    const second = await store.query({ limit: 2, cursor: first.nextCursor });
+    const last = await store.query({ limit: 2, cursor: second.nextCursor });
+    
+    expect([first, second, last].map(page => page.results.map(result => result.storedAt))).toEqual([
+      [10, 20], [30, 40], [50]
+    ]);
+    expect(last.nextCursor).toBeUndefined();
+  });
+  
+  it('drops the oldest sessions beyond maxSessions', async () => {
+    const store = new MemoryTranscriptStore({ maxSessions: 2 });
+    await fill(store);
+    
+    expect(await store.getSession('a')).toEqual([]);
+    expect(await store.getSession('b')).toEqual([]);
+    expect((await store.listSessions('alice')).map(summary => summary.sessionId)).toEqual(['c']);
+  });
+});
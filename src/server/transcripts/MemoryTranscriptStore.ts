@@ -0,0 +1,115 @@
+// ABOUTME: TranscriptStore that keeps final results in process memory
+// ABOUTME: Indexes results by session and user; also serves as the index behind the JSONL store
+
+import {
+  StoredTranscript,
+  TranscriptPage,
+  TranscriptQuery,
+  TranscriptSessionSummary,
+  TranscriptStore
+} from '../../common/types';
+
+export interface MemoryTranscriptStoreOptions {
+  maxSessions?: number; // Oldest sessions are dropped beyond this (default unlimited)
+}
+
+export class MemoryTranscriptStore implements TranscriptStore {
+  private sessions: Map<string, StoredTranscript[]> = new Map();
+  private userSessions: Map<string, Set<string>> = new Map();
+  
+  constructor(private options: MemoryTranscriptStoreOptions = {}) {}
+  
+  async append(transcript: StoredTranscript): Promise<void> {
+    this.index(transcript);
+  }
+  
+  async getSession(sessionId: string): Promise<StoredTranscript[]> {
+    return [...(this.sessions.get(sessionId) || [])];
+  }
+  
+  async listSessions(userId: string): Promise<TranscriptSessionSummary[]> {
+    const summaries: TranscriptSessionSummary[] = [];
+    for (const sessionId of this.userSessions.get(userId) || []) {
+      const results = this.sessions.get(sessionId);
+      if (!results || results.length === 0) continue;
+      
+      summaries.push({
+        sessionId,
+        userId,
+        resultCount: results.length,
+        firstAt: results[0].storedAt,
+        lastAt: results[results.length - 1].storedAt
+      });
+    }
+    
+    return summaries.sort((a, b) => b.lastAt - a.lastAt);
+  }
+  
+  async query(query: TranscriptQuery): Promise<TranscriptPage> {
+    let candidates: StoredTranscript[];
+    if (query.sessionId) {
+      candidates = this.sessions.get(query.sessionId) || [];
+    } else if (query.userId) {
+      candidates = Array.from(this.userSessions.get(query.userId) || [])
+        .flatMap(sessionId => this.sessions.get(sessionId) || [])
+        .sort((a, b) => a.storedAt - b.storedAt);
+    } else {
+      candidates = Array.from(this.sessions.values())
+        .flat()
+        .sort((a, b) => a.storedAt - b.storedAt);
+    }
+    
+    const matches = candidates.filter(result =>
+      (!query.userId || result.userId === query.userId) &&
+      (query.from === undefined || result.storedAt >= query.from) &&
+      (query.to === undefined || result.storedAt < query.to)
+    );
+    
+    // Results are only ever appended with later times, so an offset stays valid between pages
+    const offset = query.cursor ? parseInt(query.cursor, 10) || 0 : 0;
+    const limit = query.limit ?? 100;
+    const results = matches.slice(offset, offset + limit);
+    
+    return {
+      results,
+      nextCursor: offset + limit < matches.length ? String(offset + limit) : undefined
+    };
+  }
+  
+  protected index(transcript: StoredTranscript): void {
+    let results = this.sessions.get(transcript.sessionId);
+    if (!results) {
+      results = [];
+      this.sessions.set(transcript.sessionId, results);
+      this.evictSessions();
+    }
+    results.push(transcript);
+    
+    if (transcript.userId) {
+      let sessions = this.userSessions.get(transcript.userId);
+      if (!sessions) {
+        sessions = new Set();
+        this.userSessions.set(transcript.userId, sessions);
+      }
+      sessions.add(transcript.sessionId);
+    }
+  }
+  
+  private evictSessions(): void {
+    const maxSessions = this.options.maxSessions;
+    if (!maxSessions) return;
+    
+    for (const [sessionId, results] of this.sessions) {
+      if (this.sessions.size <= maxSessions) break;
+      
+      this.sessions.delete(sessionId);
+      const userId = results[0]?.userId;
+      if (userId) {
+        this.userSessions.get(userId)?.delete(sessionId);
+        if (this.userSessions.get(userId)?.size === 0) {
+          this.userSessions.delete(userId);
+        }
+      }
+    }
+  }
+}
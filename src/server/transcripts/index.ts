@@ -0,0 +1,7 @@
+// ABOUTME: Server-side transcript history
+// ABOUTME: Re-exports the in-memory and JSONL file transcript stores
+
+export { MemoryTranscriptStore } from './MemoryTranscriptStore';
+export { JsonlTranscriptStore } from './JsonlTranscriptStore';
+export type { MemoryTranscriptStoreOptions } from './MemoryTranscriptStore';
+export type { JsonlTranscriptStoreOptions } from './JsonlTranscriptStore';